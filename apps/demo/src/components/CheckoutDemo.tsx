@@ -35,7 +35,7 @@ export function CheckoutDemo() {
     }
 
     // Simulate successful submission
-    formTracker.recordFormSubmit('checkout-form', true);
+    formTracker?.recordFormSubmit('checkout-form', true);
     setSubmitted(true);
   };
 
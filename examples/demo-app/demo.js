@@ -16,6 +16,7 @@ import {
   getSessionId,
   setUser,
   // Instrumentation
+  ClickHub,
   ClickInstrumentation,
   RageClickDetector,
   DeadClickDetector,
@@ -84,9 +85,13 @@ console.log('[Demo] Session ID:', sessionId);
 console.log('[Demo] User:', user.id);
 logEvent('init', { sessionId: sessionId.slice(0, 8) + '...', userId: user.id });
 
+// One document click listener shared by the click consumers below
+const clickHub = new ClickHub({ document: document });
+
 // Initialize click instrumentation (auto-emits logs)
 const clickInstrumentation = new ClickInstrumentation({
   document: document,
+  hub: clickHub,
   captureCoordinates: false,
 });
 clickInstrumentation.enable();
@@ -94,6 +99,7 @@ console.log('[Demo] Click instrumentation enabled');
 
 // Initialize rage click detector (auto-emits logs)
 const rageClickDetector = new RageClickDetector({
+  hub: clickHub,
   clickThreshold: 3,
   timeWindowMs: 1000,
   onRageClick: (event) => {
@@ -106,6 +112,7 @@ console.log('[Demo] Rage click detector enabled');
 
 // Initialize dead click detector (auto-emits logs)
 const deadClickDetector = new DeadClickDetector({
+  hub: clickHub,
   checkParents: true,
   onDeadClick: (event) => {
     logEvent('DEAD', { target: event.elementTag });
@@ -13,19 +13,30 @@ const external = [
   '@opentelemetry/semantic-conventions',
 ];
 
+// The debug entry shares chunks with the main one, so both see the same
+// agent state while apps that never import /debug don't load it
+const input = {
+  index: 'src/index.ts',
+  debug: 'src/debug/index.ts',
+};
+
 export default [
   // ESM and CJS builds (for bundlers)
   {
-    input: 'src/index.ts',
+    input,
     output: [
       {
-        file: 'dist/index.js',
+        dir: 'dist',
         format: 'esm',
+        entryFileNames: '[name].js',
+        chunkFileNames: 'chunks/[name]-[hash].js',
         sourcemap: true,
       },
       {
-        file: 'dist/index.cjs',
+        dir: 'dist',
         format: 'cjs',
+        entryFileNames: '[name].cjs',
+        chunkFileNames: 'chunks/[name]-[hash].cjs',
         sourcemap: true,
       },
     ],
@@ -41,10 +52,15 @@ export default [
   },
   // Browser bundle (all deps included, for direct <script> use)
   {
-    input: 'src/index.ts',
+    input: {
+      browser: input.index,
+      'browser-debug': input.debug,
+    },
     output: {
-      file: 'dist/browser.js',
+      dir: 'dist',
       format: 'esm',
+      entryFileNames: '[name].js',
+      chunkFileNames: 'chunks/browser-[hash].js',
       sourcemap: true,
     },
     // Don't externalize - bundle everything
@@ -59,10 +75,12 @@ export default [
   },
   // Type declarations
   {
-    input: 'src/index.ts',
+    input,
     output: {
-      file: 'dist/index.d.ts',
+      dir: 'dist',
       format: 'esm',
+      entryFileNames: '[name].d.ts',
+      chunkFileNames: 'chunks/[name]-[hash].d.ts',
     },
     external,
     plugins: [dts()],
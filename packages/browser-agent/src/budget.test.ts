@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import { configureBudget, flushEventBudget } from './budget';
+import { emitErrorEvent, emitSessionEvent } from './events';
+import { resetSession } from './session';
+
+function emitScroll(times: number): void {
+  for (let i = 0; i < times; i++) {
+    emitSessionEvent({ name: 'user.scroll', attributes: { 'event.category': 'user.interaction' } });
+  }
+}
+
+function bodies(): unknown[] {
+  return emitted.map((record) => record.body);
+}
+
+describe('event budget', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T09:00:00Z'));
+    emitted.length = 0;
+    sessionStorage.clear();
+    resetSession();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    configureBudget({});
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('budgets', () => {
+    it('should drop events over the per-event burst', () => {
+      configureBudget({ perEvent: { burst: 3, perMinute: 60 } });
+
+      emitScroll(5);
+
+      expect(bodies()).toEqual(['user.scroll', 'user.scroll', 'user.scroll']);
+    });
+
+    it('should refill over time', () => {
+      configureBudget({ perEvent: { burst: 2, perMinute: 60 } });
+      emitScroll(3);
+
+      vi.advanceTimersByTime(1000);
+      emitScroll(1);
+
+      expect(emitted.filter((record) => record.body === 'user.scroll')).toHaveLength(3);
+    });
+
+    it('should apply per-name overrides', () => {
+      configureBudget({
+        perEvent: { burst: 1, perMinute: 1 },
+        events: { 'user.scroll': { burst: 4, perMinute: 1 } },
+      });
+
+      emitScroll(4);
+
+      expect(emitted).toHaveLength(4);
+    });
+
+    it('should share the session budget between event names', () => {
+      configureBudget({ session: { burst: 3, perMinute: 1 } });
+
+      emitScroll(2);
+      emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+      emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+
+      expect(bodies()).toEqual(['user.scroll', 'user.scroll', 'user.click']);
+    });
+
+    it('should not give suppressed events a sequence number', () => {
+      configureBudget({ perEvent: { burst: 1, perMinute: 1 } });
+
+      emitScroll(3);
+      emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+
+      expect(emitted.map((record) => record.attributes?.['session.sequence'])).toEqual([0, 1]);
+    });
+
+    it('should start each session with a full budget', () => {
+      configureBudget({ perEvent: { burst: 2, perMinute: 1 } });
+      emitScroll(2);
+
+      resetSession();
+      emitScroll(2);
+
+      expect(emitted).toHaveLength(4);
+    });
+
+    it('should do nothing when disabled', () => {
+      configureBudget({ enabled: false, perEvent: { burst: 1, perMinute: 1 } });
+
+      emitScroll(5);
+
+      expect(emitted).toHaveLength(5);
+    });
+  });
+
+  describe('suppression summaries', () => {
+    it('should report suppressed counts after the summary interval', () => {
+      configureBudget({ perEvent: { burst: 2, perMinute: 1 }, summaryIntervalMs: 10000 });
+      emitScroll(7);
+
+      expect(bodies()).not.toContain('agent.events_suppressed');
+
+      vi.advanceTimersByTime(10000);
+
+      const summary = emitted.find((record) => record.body === 'agent.events_suppressed');
+      expect(summary?.attributes).toMatchObject({
+        'event.category': 'agent.internal',
+        'suppressed.event_name': 'user.scroll',
+        'suppressed.count': 5,
+        'suppressed.reason': 'event_budget',
+      });
+    });
+
+    it('should emit one summary per event name', () => {
+      configureBudget({ perEvent: { burst: 1, perMinute: 1 } });
+      emitScroll(2);
+      emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+      emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+
+      flushEventBudget();
+
+      const summaries = emitted.filter((record) => record.body === 'agent.events_suppressed');
+      expect(summaries.map((record) => record.attributes?.['suppressed.event_name'])).toEqual([
+        'user.scroll',
+        'user.click',
+      ]);
+    });
+
+    it('should name the session budget when it ran out', () => {
+      configureBudget({ session: { burst: 1, perMinute: 1 } });
+      emitScroll(2);
+
+      flushEventBudget();
+
+      expect(emitted[1].attributes?.['suppressed.reason']).toBe('session_budget');
+    });
+
+    it('should not emit a summary when nothing was suppressed', () => {
+      emitScroll(3);
+
+      flushEventBudget();
+      vi.advanceTimersByTime(60000);
+
+      expect(bodies()).not.toContain('agent.events_suppressed');
+    });
+  });
+
+  describe('error de-duplication', () => {
+    it('should collapse identical consecutive errors into the first', () => {
+      emitErrorEvent('Cannot read properties of undefined', { 'error.type': 'uncaught_exception' });
+      emitErrorEvent('Cannot read properties of undefined', { 'error.type': 'uncaught_exception' });
+      emitErrorEvent('Cannot read properties of undefined', { 'error.type': 'uncaught_exception' });
+
+      vi.advanceTimersByTime(2000);
+
+      expect(bodies()).toEqual(['user.error']);
+      expect(emitted[0].attributes?.['error.repeat_count']).toBe(3);
+    });
+
+    it('should ignore context that changes between repeats', () => {
+      emitErrorEvent('boom', { 'error.context.time_on_page_ms': 100 });
+      emitErrorEvent('boom', { 'error.context.time_on_page_ms': 200 });
+
+      flushEventBudget();
+
+      expect(emitted).toHaveLength(1);
+      expect(emitted[0].attributes?.['error.context.time_on_page_ms']).toBe(100);
+    });
+
+    it('should release the held error when a different one arrives', () => {
+      emitErrorEvent('boom');
+      emitErrorEvent('crash');
+
+      expect(emitted.map((record) => record.attributes?.['error.message'])).toEqual(['boom']);
+      expect(emitted[0].attributes).not.toHaveProperty('error.repeat_count');
+    });
+
+    it('should not collapse errors separated by another event', () => {
+      emitErrorEvent('boom');
+      emitScroll(1);
+      emitErrorEvent('boom');
+
+      flushEventBudget();
+
+      expect(bodies()).toEqual(['user.error', 'user.scroll', 'user.error']);
+      expect(emitted[0].attributes).not.toHaveProperty('error.repeat_count');
+      expect(emitted[2].attributes).not.toHaveProperty('error.repeat_count');
+    });
+
+    it('should start a new record once the window has passed', () => {
+      emitErrorEvent('boom');
+      vi.advanceTimersByTime(2000);
+      emitErrorEvent('boom');
+
+      flushEventBudget();
+
+      expect(bodies()).toEqual(['user.error', 'user.error']);
+    });
+
+    it('should not hold other categories', () => {
+      emitScroll(1);
+
+      expect(emitted).toHaveLength(1);
+    });
+
+    it('should emit every error when turned off', () => {
+      configureBudget({ dedupeErrors: false });
+
+      emitErrorEvent('boom');
+      emitErrorEvent('boom');
+
+      expect(emitted).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Event budget and runaway-loop protection
+ *
+ * Each session gets a token bucket for all events and one per event name,
+ * so a component throwing in a render loop or a scroll handler firing on
+ * every frame can't flood the exporter. Events over budget are counted and
+ * reported in periodic agent.events_suppressed summaries instead.
+ *
+ * Consecutive identical errors are collapsed: the first record is held for
+ * a short window and exported once with error.repeat_count set to the
+ * number of occurrences.
+ */
+
+import type { EmitEventOptions } from './events';
+import type { SessionEventRecord } from './pipeline';
+import { getSessionId } from './session';
+
+/**
+ * Token bucket size and refill rate
+ */
+export interface BudgetLimit {
+  /** Events allowed in a burst (bucket capacity) */
+  burst: number;
+  /** Tokens added back per minute */
+  perMinute: number;
+}
+
+/**
+ * Event budget configuration
+ */
+export interface BudgetConfig {
+  /** Enforce budgets and de-duplicate errors (default: true) */
+  enabled?: boolean;
+  /** Budget shared by all events of a session (default: 1000 burst, 600/min) */
+  session?: BudgetLimit;
+  /** Budget for each event name (default: 100 burst, 60/min) */
+  perEvent?: BudgetLimit;
+  /** Per-name overrides of perEvent, e.g. `{ 'user.error': { burst: 20, perMinute: 10 } }` */
+  events?: Record<string, BudgetLimit>;
+  /** How often agent.events_suppressed summaries are emitted (default: 30000) */
+  summaryIntervalMs?: number;
+  /** Collapse consecutive identical errors (default: true) */
+  dedupeErrors?: boolean;
+  /** How long the first of a run of identical errors is held (default: 2000) */
+  dedupeWindowMs?: number;
+}
+
+/**
+ * Number of events of one name dropped since the last summary
+ */
+export interface SuppressionSummary {
+  eventName: string;
+  count: number;
+  /** Which bucket ran out: the session's or the event name's */
+  reason: 'session_budget' | 'event_budget';
+}
+
+const DEFAULT_SESSION_LIMIT: BudgetLimit = { burst: 1000, perMinute: 600 };
+const DEFAULT_EVENT_LIMIT: BudgetLimit = { burst: 100, perMinute: 60 };
+const DEFAULT_SUMMARY_INTERVAL_MS = 30000;
+const DEFAULT_DEDUPE_WINDOW_MS = 2000;
+
+/** Attributes that identify an error; context such as time on page is left out */
+const ERROR_IDENTITY_KEYS = [
+  'error.type',
+  'error.message',
+  'error.stack',
+  'error.filename',
+  'error.lineno',
+  'error.colno',
+];
+
+/**
+ * Token bucket refilled continuously from the elapsed time
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private limit: BudgetLimit) {
+    this.tokens = limit.burst;
+  }
+
+  take(): boolean {
+    const now = Date.now();
+    const refill = ((now - this.updatedAt) / 60000) * this.limit.perMinute;
+    this.tokens = Math.min(this.limit.burst, this.tokens + refill);
+    this.updatedAt = now;
+
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens--;
+    return true;
+  }
+}
+
+interface HeldError {
+  key: string;
+  record: SessionEventRecord;
+  count: number;
+  dispatch: (record: SessionEventRecord) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let budgetConfig: BudgetConfig = {};
+let budgetSessionId: string | null = null;
+let sessionBucket: TokenBucket | null = null;
+let eventBuckets = new Map<string, TokenBucket>();
+let suppressed = new Map<string, SuppressionSummary>();
+let reportSummaries: ((summaries: SuppressionSummary[]) => void) | null = null;
+let summaryTimer: ReturnType<typeof setTimeout> | null = null;
+let heldError: HeldError | null = null;
+
+/**
+ * Sets the budget configuration. Buckets start full again; pending
+ * summaries and held errors are flushed first.
+ */
+export function configureBudget(config: BudgetConfig): void {
+  flushEventBudget();
+  budgetConfig = { ...config };
+  resetBuckets(null);
+}
+
+/**
+ * Whether budgets and error de-duplication are active
+ */
+export function isBudgetEnabled(): boolean {
+  return budgetConfig.enabled !== false;
+}
+
+function resetBuckets(sessionId: string | null): void {
+  budgetSessionId = sessionId;
+  sessionBucket = null;
+  eventBuckets = new Map();
+}
+
+function getEventLimit(name: string): BudgetLimit {
+  return budgetConfig.events?.[name] ?? budgetConfig.perEvent ?? DEFAULT_EVENT_LIMIT;
+}
+
+/**
+ * Takes a token for the event from the session and event-name buckets.
+ * Returns false when either is empty; the event is then counted towards
+ * the next summary, which is handed to report.
+ *
+ * @param name - Event name
+ * @param report - Emits the summaries when the interval elapses
+ */
+export function consumeEventBudget(
+  name: string,
+  report: (summaries: SuppressionSummary[]) => void
+): boolean {
+  if (!isBudgetEnabled()) return true;
+
+  // Budgets are per session: a new session starts with full buckets
+  const sessionId = getSessionId();
+  if (budgetSessionId !== sessionId) {
+    resetBuckets(sessionId);
+  }
+
+  let eventBucket = eventBuckets.get(name);
+  if (!eventBucket) {
+    eventBucket = new TokenBucket(getEventLimit(name));
+    eventBuckets.set(name, eventBucket);
+  }
+  sessionBucket ??= new TokenBucket(budgetConfig.session ?? DEFAULT_SESSION_LIMIT);
+
+  // Check the event's own bucket first so one noisy event doesn't drain
+  // the session budget for everything else
+  let reason: SuppressionSummary['reason'] | null = null;
+  if (!eventBucket.take()) {
+    reason = 'event_budget';
+  } else if (!sessionBucket.take()) {
+    reason = 'session_budget';
+  }
+  if (!reason) return true;
+
+  const summary = suppressed.get(name);
+  if (summary) {
+    summary.count++;
+    summary.reason = reason;
+  } else {
+    suppressed.set(name, { eventName: name, count: 1, reason });
+  }
+
+  reportSummaries = report;
+  summaryTimer ??= setTimeout(
+    flushSuppressedEvents,
+    budgetConfig.summaryIntervalMs ?? DEFAULT_SUMMARY_INTERVAL_MS
+  );
+  return false;
+}
+
+/**
+ * Reports the events suppressed since the last summary
+ */
+function flushSuppressedEvents(): void {
+  if (summaryTimer) {
+    clearTimeout(summaryTimer);
+    summaryTimer = null;
+  }
+  if (suppressed.size === 0 || !reportSummaries) return;
+
+  const summaries = [...suppressed.values()];
+  suppressed = new Map();
+  reportSummaries(summaries);
+}
+
+function getErrorKey(options: EmitEventOptions): string {
+  const attributes = options.attributes as Record<string, unknown>;
+  return JSON.stringify([options.name, ...ERROR_IDENTITY_KEYS.map((key) => attributes[key] ?? null)]);
+}
+
+function shouldDedupe(options: EmitEventOptions): boolean {
+  return (
+    isBudgetEnabled() &&
+    budgetConfig.dedupeErrors !== false &&
+    options.attributes['event.category'] === 'user.error'
+  );
+}
+
+/**
+ * Counts the event against the held error if it repeats it. Any other
+ * event ends the run and releases the held error first, so it's exported
+ * ahead of the event. Returns true when the event was absorbed and must
+ * not be recorded.
+ */
+export function absorbRepeatedError(options: EmitEventOptions): boolean {
+  if (!heldError) return false;
+  if (!shouldDedupe(options) || heldError.key !== getErrorKey(options)) {
+    releaseHeldError();
+    return false;
+  }
+
+  heldError.count++;
+  return true;
+}
+
+/**
+ * Dispatches an error record after the dedupe window so that repeats can
+ * be counted on it. The next event that isn't a repeat releases it sooner.
+ *
+ * @param options - The event the record was built from
+ * @param record - Record ready for export
+ * @param dispatch - Exports the record
+ */
+export function dispatchErrorRecord(
+  options: EmitEventOptions,
+  record: SessionEventRecord,
+  dispatch: (record: SessionEventRecord) => void
+): void {
+  if (!shouldDedupe(options)) {
+    dispatch(record);
+    return;
+  }
+
+  releaseHeldError();
+  heldError = {
+    key: getErrorKey(options),
+    record,
+    count: 1,
+    dispatch,
+    timer: setTimeout(releaseHeldError, budgetConfig.dedupeWindowMs ?? DEFAULT_DEDUPE_WINDOW_MS),
+  };
+}
+
+/**
+ * Exports the held error, with error.repeat_count when it repeated
+ */
+function releaseHeldError(): void {
+  if (!heldError) return;
+
+  const { record, count, dispatch, timer } = heldError;
+  heldError = null;
+  clearTimeout(timer);
+
+  if (count > 1) {
+    record.attributes['error.repeat_count'] = count;
+  }
+  dispatch(record);
+}
+
+/**
+ * Exports the held error and emits pending suppression summaries right
+ * away, e.g. before the page is hidden or the session ends
+ */
+export function flushEventBudget(): void {
+  releaseHeldError();
+  flushSuppressedEvents();
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import {
+  configureBuffering,
+  dispatchLogRecord,
+  flagSession,
+  getBufferedRecordCount,
+} from './buffering';
+import { emitSessionEvent, emitFrustrationEvent, emitErrorEvent } from './events';
+import { flushEventBudget } from './budget';
+import { isSessionFlagged, resetSession } from './session';
+
+function record(body: string, category = 'user.interaction') {
+  return { body, attributes: { 'event.category': category } };
+}
+
+describe('tail-based buffering', () => {
+  beforeEach(() => {
+    emitted.length = 0;
+    sessionStorage.clear();
+    resetSession();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    flushEventBudget();
+    configureBuffering({ enabled: false });
+    vi.restoreAllMocks();
+  });
+
+  describe('when disabled', () => {
+    it('should emit records immediately', () => {
+      dispatchLogRecord(record('user.click'));
+
+      expect(emitted).toHaveLength(1);
+    });
+  });
+
+  describe('when enabled', () => {
+    beforeEach(() => {
+      configureBuffering({ enabled: true, bufferSize: 3, triggerEvents: ['funnel.begin_checkout'] });
+    });
+
+    it('should hold records until a trigger fires', () => {
+      dispatchLogRecord(record('user.click'));
+      dispatchLogRecord(record('user.navigation', 'user.navigation'));
+
+      expect(emitted).toHaveLength(0);
+      expect(getBufferedRecordCount()).toBe(2);
+    });
+
+    it('should flush earlier context in order when a frustration event fires', () => {
+      emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+      emitSessionEvent({ name: 'user.navigation', attributes: { 'event.category': 'user.navigation' } });
+      emitFrustrationEvent('rage_click', 0.8);
+
+      expect(emitted.map((r) => r.body)).toEqual([
+        'user.click',
+        'user.navigation',
+        'user.frustration.rage_click',
+      ]);
+      expect(isSessionFlagged()).toBe(true);
+    });
+
+    it('should flush when an error event fires', () => {
+      dispatchLogRecord(record('user.click'));
+      emitErrorEvent('boom');
+      flushEventBudget();
+
+      expect(emitted.map((r) => r.body)).toEqual(['user.click', 'user.error']);
+    });
+
+    it('should flush on a configured funnel event', () => {
+      dispatchLogRecord(record('user.click'));
+      dispatchLogRecord(record('funnel.begin_checkout', 'funnel.ecommerce'));
+
+      expect(emitted.map((r) => r.body)).toEqual(['user.click', 'funnel.begin_checkout']);
+    });
+
+    it('should flush on a manual flag', () => {
+      dispatchLogRecord(record('user.click'));
+      flagSession();
+
+      expect(emitted).toHaveLength(1);
+    });
+
+    it('should export directly once the session is flagged', () => {
+      flagSession();
+      dispatchLogRecord(record('user.click'));
+
+      expect(emitted).toHaveLength(1);
+      expect(getBufferedRecordCount()).toBe(0);
+    });
+
+    it('should drop the oldest records when the buffer is full', () => {
+      for (let i = 0; i < 5; i++) {
+        dispatchLogRecord(record(`event-${i}`));
+      }
+      flagSession();
+
+      expect(emitted.map((r) => r.body)).toEqual(['event-2', 'event-3', 'event-4']);
+    });
+
+    it('should drop the buffer when the session ends', () => {
+      dispatchLogRecord(record('user.click'));
+      resetSession();
+      flagSession();
+
+      expect(emitted).toHaveLength(0);
+    });
+
+    it('should keep the original timestamp on flushed records', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000_000);
+      emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+      vi.setSystemTime(1_005_000);
+      flagSession();
+      vi.useRealTimers();
+
+      expect((emitted[0] as { timestamp?: number }).timestamp).toBe(1_000_000);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tail-based session buffering
+ *
+ * Holds a session's log records in a local ring buffer instead of exporting
+ * them. When a trigger fires (frustration, error, a configured funnel event
+ * or a manual flagSession() call) the session is flagged, the buffered
+ * context is flushed in order, and later records are exported directly.
+ * Unflagged buffers are dropped when the session ends or the page unloads.
+ */
+
+import type { LogRecord } from '@opentelemetry/api-logs';
+import type { EventCategory } from './events';
+import { getLogger } from './logger';
+import { getSessionId, isSessionFlagged, setSessionFlagged } from './session';
+
+/**
+ * Configuration for tail-based buffering
+ */
+export interface BufferingConfig {
+  /** Enable buffering mode (default: false, export everything) */
+  enabled?: boolean;
+  /** Max records held per session, oldest dropped first (default: 200) */
+  bufferSize?: number;
+  /** Categories that flag the session (default: user.frustration, user.error) */
+  triggerCategories?: EventCategory[];
+  /** Event names that flag the session (e.g. 'funnel.begin_checkout') */
+  triggerEvents?: string[];
+}
+
+const DEFAULT_BUFFER_SIZE = 200;
+const DEFAULT_TRIGGER_CATEGORIES: EventCategory[] = ['user.frustration', 'user.error'];
+
+/**
+ * Fixed-capacity FIFO that overwrites its oldest entry when full
+ */
+class RingBuffer<T> {
+  private items: Array<T | undefined>;
+  private start = 0;
+  private count = 0;
+
+  constructor(private capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  push(item: T): void {
+    const index = (this.start + this.count) % this.capacity;
+    this.items[index] = item;
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  drain(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    this.clear();
+    return result;
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+}
+
+let bufferingConfig: Required<BufferingConfig> | null = null;
+let buffer: RingBuffer<LogRecord> | null = null;
+let bufferSessionId: string | null = null;
+
+/**
+ * Sets the buffering configuration. Any records already buffered are dropped.
+ */
+export function configureBuffering(config: BufferingConfig): void {
+  if (!config.enabled) {
+    bufferingConfig = null;
+    buffer = null;
+    bufferSessionId = null;
+    return;
+  }
+
+  bufferingConfig = {
+    enabled: true,
+    bufferSize: Math.max(1, config.bufferSize ?? DEFAULT_BUFFER_SIZE),
+    triggerCategories: config.triggerCategories ?? DEFAULT_TRIGGER_CATEGORIES,
+    triggerEvents: config.triggerEvents ?? [],
+  };
+  buffer = new RingBuffer(bufferingConfig.bufferSize);
+  bufferSessionId = null;
+}
+
+/**
+ * Whether buffering mode is active
+ */
+export function isBufferingEnabled(): boolean {
+  return bufferingConfig !== null;
+}
+
+/**
+ * Returns the buffer, dropping its contents if the session has changed
+ */
+function getSessionBuffer(): RingBuffer<LogRecord> | null {
+  if (!buffer) return null;
+
+  const sessionId = getSessionId();
+  if (bufferSessionId !== sessionId) {
+    buffer.clear();
+    bufferSessionId = sessionId;
+  }
+  return buffer;
+}
+
+/**
+ * Emits all buffered records for the current session, oldest first
+ */
+function flushBuffer(): void {
+  const sessionBuffer = getSessionBuffer();
+  if (!sessionBuffer) return;
+
+  const logger = getLogger();
+  for (const record of sessionBuffer.drain()) {
+    logger.emit(record);
+  }
+}
+
+/**
+ * Flags the current session as interesting: flushes the buffered context
+ * and exports all further records directly
+ */
+export function flagSession(): void {
+  setSessionFlagged();
+  flushBuffer();
+}
+
+/**
+ * Whether the record should flag the session
+ */
+function isTrigger(record: LogRecord): boolean {
+  if (!bufferingConfig) return false;
+
+  const category = record.attributes?.['event.category'];
+  if (typeof category === 'string' && bufferingConfig.triggerCategories.includes(category as EventCategory)) {
+    return true;
+  }
+  return typeof record.body === 'string' && bufferingConfig.triggerEvents.includes(record.body);
+}
+
+/**
+ * Routes a record to the logger, or into the session buffer when buffering
+ * mode is on and the session hasn't been flagged yet
+ */
+export function dispatchLogRecord(record: LogRecord): void {
+  const sessionBuffer = getSessionBuffer();
+  if (!sessionBuffer || isSessionFlagged()) {
+    getLogger().emit(record);
+    return;
+  }
+
+  if (isTrigger(record)) {
+    flagSession();
+    getLogger().emit(record);
+    return;
+  }
+
+  sessionBuffer.push(record);
+}
+
+/**
+ * Number of records currently buffered for the session
+ */
+export function getBufferedRecordCount(): number {
+  return getSessionBuffer()?.size ?? 0;
+}
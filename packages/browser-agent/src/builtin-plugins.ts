@@ -0,0 +1,265 @@
+/**
+ * Built-in instrumentations as plugins
+ *
+ * Each factory wraps one instrumentation in the plugin interface:
+ * setup() creates it for the agent's window and gates it on its event
+ * category, and the created instance is exposed for manual recording.
+ */
+
+import {
+  emitErrorEvent,
+  emitFormEvent,
+  emitFrustrationEvent,
+  emitNavigationEvent,
+  emitPageLifecycleEvent,
+  type EventCategory,
+  type FormEventAttributes,
+} from './events';
+import type { SessionReplayAgent, SessionReplayPlugin, Toggleable } from './plugins';
+import { ClickInstrumentation, type ClickInstrumentationConfig } from './semantic/clicks';
+import { FormTracker, type FormTrackerConfig } from './semantic/forms';
+import { NavigationTracker, type NavigationTrackerConfig } from './semantic/navigation';
+import { ErrorTracker, type ErrorTrackerConfig } from './semantic/errors';
+import { EngagementTracker, type EngagementTrackerConfig } from './semantic/engagement';
+import { RageClickDetector, type RageClickDetectorConfig } from './frustration/rage-click';
+import { DeadClickDetector, type DeadClickDetectorConfig } from './frustration/dead-click';
+import { ThrashingDetector, type ThrashingDetectorConfig } from './frustration/thrashing';
+import { getRoute } from './routes';
+import { flushLogsForUnload } from './log-provider';
+
+/**
+ * A plugin wrapping one built-in instrumentation
+ */
+export interface InstrumentationPlugin<T> extends SessionReplayPlugin {
+  /** The instrumentation, once setup() has run */
+  readonly instance: T | undefined;
+}
+
+/** Maps NavigationTracker event types to user.navigation actions */
+const NAVIGATION_ACTIONS = {
+  page_load: 'pageview',
+  route_change: 'pushstate',
+  page_unload: 'unload',
+} as const;
+
+/** Maps EngagementTracker event types to page.lifecycle actions */
+const ENGAGEMENT_ACTIONS = {
+  page_visible: 'visible',
+  page_hidden: 'hidden',
+  page_engagement: 'engagement',
+} as const;
+
+/** Maps route change triggers to user.navigation actions */
+const ROUTE_CHANGE_ACTIONS = {
+  push_state: 'pushstate',
+  replace_state: 'replacestate',
+  popstate: 'popstate',
+  hashchange: 'hashchange',
+} as const;
+
+function instrumentationPlugin<T extends Toggleable>(
+  name: string,
+  category: EventCategory,
+  create: (agent: SessionReplayAgent) => T,
+  pausable = true
+): InstrumentationPlugin<T> {
+  let instance: T | undefined;
+  return {
+    name,
+    get instance() {
+      return instance;
+    },
+    setup(agent) {
+      instance = create(agent);
+      agent.gate(instance, category, { pausable });
+    },
+    teardown() {
+      instance?.disable();
+    },
+  };
+}
+
+/**
+ * Reports uncaught errors, unhandled rejections and console errors
+ */
+export function createErrorPlugin(
+  options: Partial<Omit<ErrorTrackerConfig, 'window'>> = {}
+): InstrumentationPlugin<ErrorTracker> {
+  return instrumentationPlugin('errors', 'user.error', (agent) =>
+    new ErrorTracker({
+      ...options,
+      window: agent.window,
+      onError: (event) => {
+        emitErrorEvent(event.message, {
+          'error.type': event.type,
+          'error.stack': event.stack,
+          'error.filename': event.filename,
+          'error.lineno': event.lineno,
+          'error.colno': event.colno,
+          'error.context.last_click': event.context.lastClick,
+          'error.context.time_on_page_ms': event.context.timeOnPageMs,
+        });
+        options.onError?.(event);
+      },
+    })
+  );
+}
+
+/**
+ * Emits user.click with the semantic target
+ */
+export function createClickPlugin(
+  options: Omit<ClickInstrumentationConfig, 'document' | 'hub'> = {}
+): InstrumentationPlugin<ClickInstrumentation> {
+  return instrumentationPlugin('clicks', 'user.interaction', (agent) =>
+    new ClickInstrumentation({ ...options, document: agent.document, hub: agent.clickHub })
+  );
+}
+
+/**
+ * Detects rapid repeated clicks on the same element
+ */
+export function createRageClickPlugin(
+  options: Omit<RageClickDetectorConfig, 'document' | 'hub'> = {}
+): InstrumentationPlugin<RageClickDetector> {
+  return instrumentationPlugin('rageClicks', 'user.frustration', (agent) =>
+    new RageClickDetector({ ...options, document: agent.document, hub: agent.clickHub })
+  );
+}
+
+/**
+ * Detects clicks on non-interactive elements
+ */
+export function createDeadClickPlugin(
+  options: Omit<DeadClickDetectorConfig, 'document' | 'hub'> = {}
+): InstrumentationPlugin<DeadClickDetector> {
+  return instrumentationPlugin('deadClicks', 'user.frustration', (agent) =>
+    new DeadClickDetector({ ...options, document: agent.document, hub: agent.clickHub })
+  );
+}
+
+/**
+ * Detects rapid scroll direction changes
+ */
+export function createThrashingPlugin(
+  options: Omit<ThrashingDetectorConfig, 'window'> = {}
+): InstrumentationPlugin<ThrashingDetector> {
+  return instrumentationPlugin('thrashing', 'user.frustration', (agent) =>
+    new ThrashingDetector({ ...options, window: agent.window })
+  );
+}
+
+/**
+ * Emits form and field events, and form_hesitation frustration
+ */
+export function createFormPlugin(
+  options: Partial<Omit<FormTrackerConfig, 'document'>> = {}
+): InstrumentationPlugin<FormTracker> {
+  return instrumentationPlugin('forms', 'form.interaction', (agent) =>
+    new FormTracker({
+      hesitationThresholdMs: options.hesitationThresholdMs,
+      document: agent.document,
+      onFormEvent: (event) => {
+        const attrs: Partial<FormEventAttributes> = {
+          'form.name': event.formName,
+          'form.total_time_ms': event.totalTimeMs,
+          'form.fields_interacted': event.fieldsInteracted,
+          'form.success': event.success,
+          'form.error_message': event.errorMessage,
+        };
+        emitFormEvent(event.action, event.formName, attrs);
+        options.onFormEvent?.(event);
+      },
+      onFieldEvent: (event) => {
+        emitFormEvent('blur', event.fieldName, {
+          'form.field_type': event.fieldType,
+          'form.time_spent_ms': event.timeSpentMs,
+          'form.interaction_count': event.interactionCount,
+        });
+        if (event.hesitation) {
+          emitFrustrationEvent('form_hesitation', event.frustrationScore, {
+            'form.field_name': event.fieldName,
+            'form.field_type': event.fieldType,
+            'frustration.duration_ms': event.timeSpentMs,
+          });
+        }
+        options.onFieldEvent?.(event);
+      },
+    })
+  );
+}
+
+/**
+ * Emits page views, route changes and unloads. Navigation stays subscribed
+ * while paused so resuming doesn't emit a second page_load, but nothing is
+ * recorded in the meantime. Route changes recorded manually are reported
+ * as pushstate.
+ */
+export function createNavigationPlugin(
+  options: Partial<Omit<NavigationTrackerConfig, 'window'>> = {}
+): InstrumentationPlugin<NavigationTracker> {
+  return instrumentationPlugin(
+    'navigation',
+    'user.navigation',
+    (agent) =>
+      new NavigationTracker({
+        window: agent.window,
+        patchHistory: options.patchHistory,
+        titleSettleMs: options.titleSettleMs,
+        onNavigation: (event) => {
+          if (agent.isPaused()) return;
+          const action = event.trigger ? ROUTE_CHANGE_ACTIONS[event.trigger] : NAVIGATION_ACTIONS[event.type];
+          emitNavigationEvent(action, event.toUrl, {
+            'navigation.type': event.type,
+            'navigation.trigger': event.trigger,
+            'navigation.route': event.toRoute,
+            'navigation.route_name': event.routeName,
+            'navigation.from_url': event.fromUrl,
+            'navigation.from_route': event.fromRoute,
+            'navigation.referrer': event.referrer,
+            'navigation.duration_ms': event.durationMs,
+            'navigation.transition_ms': event.transitionMs,
+          });
+          options.onNavigation?.(event);
+        },
+      }),
+    false
+  );
+}
+
+/**
+ * Emits page.visible, page.hidden and a page.engagement summary per page.
+ * Summaries name the page they cover, which after a route change is no
+ * longer the current one. The pagehide summary is flushed right away, as
+ * the log provider's own pagehide flush has already run.
+ */
+export function createEngagementPlugin(
+  options: Partial<Omit<EngagementTrackerConfig, 'window'>> = {}
+): InstrumentationPlugin<EngagementTracker> {
+  return instrumentationPlugin('engagement', 'page.lifecycle', (agent) =>
+    new EngagementTracker({
+      window: agent.window,
+      idleTimeoutMs: options.idleTimeoutMs,
+      onEngagement: (event) => {
+        const page =
+          event.type === 'page_engagement'
+            ? { 'page.url': event.pageUrl, 'page.route': getRoute(event.pageUrl), 'page.title': event.pageTitle }
+            : {};
+        emitPageLifecycleEvent(ENGAGEMENT_ACTIONS[event.type], {
+          ...page,
+          'page.restored': event.restored,
+          'page.visible_duration_ms': event.type === 'page_hidden' ? event.durationMs : undefined,
+          'page.hidden_duration_ms': event.type === 'page_visible' ? event.durationMs : undefined,
+          'engagement.active_ms': event.activeMs,
+          'engagement.idle_ms': event.idleMs,
+          'engagement.hidden_ms': event.hiddenMs,
+          'engagement.end_reason': event.endReason,
+        });
+        if (event.endReason === 'pagehide') {
+          flushLogsForUnload();
+        }
+        options.onEngagement?.(event);
+      },
+    })
+  );
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; timestamp?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import {
+  configureConsent,
+  getConsent,
+  getHeldEventCount,
+  hasConsentFor,
+  onConsentChange,
+  setConsent,
+} from './consent';
+import { emitSessionEvent, emitErrorEvent } from './events';
+import { flushEventBudget } from './budget';
+import { getSessionId, resetSession } from './session';
+
+const SESSION_STORAGE_KEY = 'session_replay_session';
+
+function emitClick(): void {
+  emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+}
+
+describe('consent', () => {
+  beforeEach(() => {
+    emitted.length = 0;
+    sessionStorage.clear();
+    resetSession();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    flushEventBudget();
+    configureConsent({});
+    vi.restoreAllMocks();
+  });
+
+  describe('when not enabled', () => {
+    it('should capture everything', () => {
+      emitClick();
+
+      expect(emitted).toHaveLength(1);
+      expect(hasConsentFor('funnel.ecommerce')).toBe(true);
+    });
+  });
+
+  describe('when enabled', () => {
+    beforeEach(() => {
+      configureConsent({ enabled: true });
+      sessionStorage.clear();
+    });
+
+    it('should start with no consent', () => {
+      expect(getConsent()).toBe('none');
+    });
+
+    it('should drop events without consent and not create a session', () => {
+      emitClick();
+      emitErrorEvent('boom');
+
+      expect(emitted).toHaveLength(0);
+      expect(sessionStorage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should capture only essential categories with essential consent', () => {
+      setConsent('essential');
+
+      emitClick();
+      emitErrorEvent('boom');
+      flushEventBudget();
+
+      expect(emitted.map((record) => record.body)).toEqual(['user.error']);
+    });
+
+    it('should keep the session in memory only below storage consent', () => {
+      setConsent('essential');
+
+      emitErrorEvent('boom');
+
+      expect(sessionStorage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should persist the session once analytics consent is given', () => {
+      setConsent('analytics');
+
+      emitClick();
+
+      expect(emitted).toHaveLength(1);
+      expect(sessionStorage.getItem(SESSION_STORAGE_KEY)).not.toBeNull();
+    });
+
+    it('should require full consent for funnel events', () => {
+      setConsent('analytics');
+      expect(hasConsentFor('funnel.ecommerce')).toBe(false);
+
+      setConsent('full');
+      expect(hasConsentFor('funnel.ecommerce')).toBe(true);
+    });
+
+    it('should purge the stored session when consent is withdrawn', () => {
+      setConsent('full');
+      emitClick();
+      const sessionId = getSessionId();
+
+      setConsent('none');
+
+      expect(sessionStorage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+      expect(getSessionId()).not.toBe(sessionId);
+    });
+
+    it('should notify listeners of changes', () => {
+      const listener = vi.fn();
+      const unsubscribe = onConsentChange(listener);
+
+      setConsent('analytics');
+      setConsent('analytics');
+      unsubscribe();
+      setConsent('full');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('analytics', 'none');
+    });
+
+    it('should keep a state set before configuration', () => {
+      configureConsent({});
+      setConsent('analytics');
+
+      configureConsent({ enabled: true });
+
+      expect(getConsent()).toBe('analytics');
+    });
+  });
+
+  describe('category mapping', () => {
+    it('should use configured requirements', () => {
+      configureConsent({
+        enabled: true,
+        initialState: 'essential',
+        categories: { 'user.interaction': 'essential', 'user.error': 'analytics' },
+      });
+
+      emitClick();
+      emitErrorEvent('boom');
+
+      expect(emitted.map((record) => record.body)).toEqual(['user.click']);
+    });
+  });
+
+  describe('holding until consent', () => {
+    beforeEach(() => {
+      configureConsent({ enabled: true, holdUntilConsent: true, maxHeldEvents: 3 });
+    });
+
+    it('should hold events in memory', () => {
+      emitClick();
+
+      expect(emitted).toHaveLength(0);
+      expect(getHeldEventCount()).toBe(1);
+    });
+
+    it('should release held events in order with their original context', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1000);
+      emitClick();
+      emitErrorEvent('boom');
+      vi.spyOn(Date, 'now').mockReturnValue(5000);
+
+      setConsent('full');
+      flushEventBudget();
+
+      expect(emitted.map((record) => record.body)).toEqual(['user.click', 'user.error']);
+      expect(emitted[0].timestamp).toBe(1000);
+      expect(getHeldEventCount()).toBe(0);
+    });
+
+    it('should drop held events the decision does not cover', () => {
+      emitClick();
+      emitErrorEvent('boom');
+
+      setConsent('essential');
+      flushEventBudget();
+
+      expect(emitted.map((record) => record.body)).toEqual(['user.error']);
+      expect(getHeldEventCount()).toBe(0);
+    });
+
+    it('should stop holding once consent is decided', () => {
+      setConsent('essential');
+
+      emitClick();
+
+      expect(getHeldEventCount()).toBe(0);
+    });
+
+    it('should cap the number of held events', () => {
+      for (let i = 0; i < 5; i++) {
+        emitClick();
+      }
+
+      expect(getHeldEventCount()).toBe(3);
+    });
+  });
+});
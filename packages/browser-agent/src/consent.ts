@@ -0,0 +1,227 @@
+/**
+ * Consent-gated capture
+ *
+ * Each EventCategory requires a consent level. Events whose category isn't
+ * covered by the current consent state are dropped (or held in memory until
+ * the user decides, when holdUntilConsent is on). Session state is only
+ * written to sessionStorage once storage consent is given, and withdrawing
+ * it purges what was stored.
+ *
+ * Consent is tracked at module level so CMP callbacks can call setConsent()
+ * before initSessionReplay() runs.
+ */
+
+import type { EventCategory } from './events';
+import { purgeSession, setSessionPersistence } from './session';
+import { purgeVisitor, setVisitorPersistence } from './visitor';
+
+/**
+ * Consent states, from least to most permissive
+ */
+export type ConsentState = 'none' | 'essential' | 'analytics' | 'full';
+
+/**
+ * Consent level required by each event category
+ */
+export type ConsentCategoryMap = Partial<Record<EventCategory, ConsentState>>;
+
+/**
+ * Consent configuration
+ */
+export interface ConsentConfig {
+  /** Require consent before capturing (default: false, capture everything) */
+  enabled?: boolean;
+  /** State until setConsent() is called (default: 'none') */
+  initialState?: ConsentState;
+  /** Overrides for the consent level each category requires */
+  categories?: ConsentCategoryMap;
+  /** Level required to persist session state and the visitor ID (default: 'analytics') */
+  storageConsent?: ConsentState;
+  /** Level required to record custom spans (default: 'analytics') */
+  spanConsent?: ConsentState;
+  /** Hold events in memory until consent is decided instead of dropping them (default: false) */
+  holdUntilConsent?: boolean;
+  /** Max events held, oldest dropped first (default: 100) */
+  maxHeldEvents?: number;
+}
+
+const CONSENT_LEVELS: Record<ConsentState, number> = {
+  none: 0,
+  essential: 1,
+  analytics: 2,
+  full: 3,
+};
+
+/** Errors, page lifecycle and agent health are operational; behavior is analytics; funnels are marketing */
+export const DEFAULT_CONSENT_CATEGORIES: Record<EventCategory, ConsentState> = {
+  'user.error': 'essential',
+  'page.lifecycle': 'essential',
+  'agent.internal': 'essential',
+  'user.interaction': 'analytics',
+  'user.navigation': 'analytics',
+  'user.frustration': 'analytics',
+  'form.interaction': 'analytics',
+  'user.identity': 'analytics',
+  'funnel.ecommerce': 'full',
+  'funnel.lead': 'full',
+};
+
+/** Level required by events without a known category */
+const DEFAULT_REQUIRED_CONSENT: ConsentState = 'analytics';
+const DEFAULT_MAX_HELD_EVENTS = 100;
+
+interface HeldEvent {
+  category: EventCategory | undefined;
+  replay: () => void;
+}
+
+type ConsentListener = (state: ConsentState, previous: ConsentState) => void;
+
+let consentConfig: ConsentConfig = {};
+let consentState: ConsentState = 'full';
+let decided = false;
+let heldEvents: HeldEvent[] = [];
+const listeners = new Set<ConsentListener>();
+
+/**
+ * Sets the consent configuration. A state already set through setConsent()
+ * (e.g. by a CMP callback that fired first) is kept.
+ */
+export function configureConsent(config: ConsentConfig): void {
+  consentConfig = { ...config };
+  heldEvents = [];
+
+  if (!config.enabled) {
+    consentState = 'full';
+    decided = false;
+    setSessionPersistence(true);
+    setVisitorPersistence(true);
+    return;
+  }
+
+  if (!decided) {
+    consentState = config.initialState ?? 'none';
+  }
+  const storageAllowed = hasConsent(consentConfig.storageConsent ?? 'analytics');
+  setSessionPersistence(storageAllowed);
+  setVisitorPersistence(storageAllowed);
+}
+
+/**
+ * Whether consent gating is active
+ */
+export function isConsentRequired(): boolean {
+  return consentConfig.enabled === true;
+}
+
+/**
+ * Returns the current consent state
+ */
+export function getConsent(): ConsentState {
+  return consentState;
+}
+
+/**
+ * Whether the current state grants at least the given level
+ */
+export function hasConsent(required: ConsentState): boolean {
+  if (!isConsentRequired()) return true;
+  return CONSENT_LEVELS[consentState] >= CONSENT_LEVELS[required];
+}
+
+/**
+ * Consent level an event category requires
+ */
+export function getRequiredConsent(category: EventCategory | undefined): ConsentState {
+  if (!category) return DEFAULT_REQUIRED_CONSENT;
+  return consentConfig.categories?.[category] ?? DEFAULT_CONSENT_CATEGORIES[category] ?? DEFAULT_REQUIRED_CONSENT;
+}
+
+/**
+ * Whether events of the given category may be captured right now
+ */
+export function hasConsentFor(category: EventCategory | undefined): boolean {
+  return hasConsent(getRequiredConsent(category));
+}
+
+/**
+ * Whether custom spans may be recorded right now
+ */
+export function hasSpanConsent(): boolean {
+  return hasConsent(consentConfig.spanConsent ?? 'analytics');
+}
+
+/**
+ * Whether events without consent are being held until the user decides
+ */
+export function isHoldingEvents(): boolean {
+  return isConsentRequired() && consentConfig.holdUntilConsent === true && !decided;
+}
+
+/**
+ * Holds an event that lacks consent so it can be replayed once consent is
+ * given. Events are dropped instead when holding is off or already decided.
+ */
+export function holdEvent(category: EventCategory | undefined, replay: () => void): void {
+  if (!isHoldingEvents()) return;
+
+  heldEvents.push({ category, replay });
+  const max = Math.max(0, consentConfig.maxHeldEvents ?? DEFAULT_MAX_HELD_EVENTS);
+  if (heldEvents.length > max) {
+    heldEvents.splice(0, heldEvents.length - max);
+  }
+}
+
+/**
+ * Number of events currently held
+ */
+export function getHeldEventCount(): number {
+  return heldEvents.length;
+}
+
+/**
+ * Updates the consent state. Detectors are started or stopped by listeners,
+ * held events now covered are replayed in order and the rest dropped, and
+ * lowering consent below the storage level purges the stored session.
+ * Safe to call from CMP callbacks before or after initialization.
+ */
+export function setConsent(state: ConsentState): void {
+  const previous = consentState;
+  consentState = state;
+  decided = true;
+
+  const storageLevel = consentConfig.storageConsent ?? 'analytics';
+  if (isConsentRequired()) {
+    const storageAllowed = hasConsent(storageLevel);
+    if (!storageAllowed && CONSENT_LEVELS[previous] >= CONSENT_LEVELS[storageLevel]) {
+      purgeSession();
+      purgeVisitor();
+    }
+    setSessionPersistence(storageAllowed);
+    setVisitorPersistence(storageAllowed);
+  }
+
+  const held = heldEvents;
+  heldEvents = [];
+  for (const event of held) {
+    if (hasConsentFor(event.category)) {
+      event.replay();
+    }
+  }
+
+  if (state !== previous) {
+    for (const listener of listeners) {
+      listener(state, previous);
+    }
+  }
+}
+
+/**
+ * Subscribes to consent changes, returning an unsubscribe function
+ */
+export function onConsentChange(listener: ConsentListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
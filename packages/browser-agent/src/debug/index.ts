@@ -0,0 +1,12 @@
+/**
+ * Debug entry point
+ *
+ * `@session-replay/browser-agent/debug` - developer tooling kept out of the
+ * main bundle.
+ */
+
+export { createDebugOverlay } from './plugin';
+export type { DebugOverlayOptions, DebugOverlayPlugin } from './plugin';
+
+export { DebugOverlay, hasFallbackName } from './overlay';
+export type { DebugEntry, DebugOverlayPanelConfig } from './overlay';
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('../logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import { createPluginHost, type PluginHost } from '../plugins';
+import { createClickPlugin, createDeadClickPlugin, createRageClickPlugin } from '../builtin-plugins';
+import { emitSessionEvent } from '../events';
+import { resetSession } from '../session';
+import { createDebugOverlay, type DebugOverlayOptions, type DebugOverlayPlugin } from './index';
+
+function render(html: string): void {
+  document.body.innerHTML = html;
+}
+
+function query(selector: string): HTMLElement {
+  return document.querySelector(selector) as HTMLElement;
+}
+
+function panel(): ShadowRoot | null {
+  return document.getElementById('session-replay-debug')?.shadowRoot ?? null;
+}
+
+function pressShortcut(init: KeyboardEventInit = { altKey: true, shiftKey: true, code: 'KeyD', key: 'Î' }): void {
+  window.dispatchEvent(new KeyboardEvent('keydown', init));
+}
+
+describe('debug overlay', () => {
+  let host: PluginHost;
+  let plugin: DebugOverlayPlugin;
+
+  function install(options: DebugOverlayOptions = {}): void {
+    host = createPluginHost({ window, document, isPaused: () => false });
+    host.install(createClickPlugin());
+    host.install(createRageClickPlugin());
+    host.install(createDeadClickPlugin());
+    plugin = createDebugOverlay(options);
+    host.install(plugin);
+  }
+
+  beforeEach(() => {
+    emitted.length = 0;
+    sessionStorage.clear();
+    resetSession();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    host.teardown();
+    document.body.innerHTML = '';
+    window.history.replaceState(null, '', '/');
+    vi.restoreAllMocks();
+  });
+
+  describe('opening', () => {
+    it('should stay closed by default', () => {
+      install();
+
+      expect(plugin.overlay?.visible).toBe(false);
+      expect(panel()).toBeNull();
+    });
+
+    it('should open with the query parameter', () => {
+      window.history.replaceState(null, '', '/checkout?sr_debug=1');
+
+      install();
+
+      expect(panel()).not.toBeNull();
+    });
+
+    it('should open before the body exists', () => {
+      window.history.replaceState(null, '', '/checkout?sr_debug=1');
+      const body = document.body;
+      body.remove();
+
+      try {
+        install();
+
+        expect(document.getElementById('session-replay-debug')?.parentElement).toBe(document.documentElement);
+      } finally {
+        document.documentElement.appendChild(body);
+      }
+    });
+
+    it('should ignore a query parameter turned off', () => {
+      window.history.replaceState(null, '', '/checkout?sr_debug=0');
+
+      install();
+
+      expect(panel()).toBeNull();
+    });
+
+    it('should toggle with the keyboard shortcut', () => {
+      install();
+
+      pressShortcut();
+      expect(panel()).not.toBeNull();
+
+      pressShortcut();
+      expect(panel()).toBeNull();
+    });
+
+    it('should accept a custom shortcut', () => {
+      install({ shortcut: 'Ctrl+Shift+1' });
+
+      pressShortcut();
+      expect(panel()).toBeNull();
+
+      pressShortcut({ ctrlKey: true, shiftKey: true, code: 'Digit1', key: '!' });
+      expect(panel()).not.toBeNull();
+    });
+  });
+
+  describe('event list', () => {
+    it('should list events newest first with their attributes', () => {
+      install();
+      plugin.overlay!.show();
+
+      emitSessionEvent({ name: 'checkout.started', attributes: { 'event.category': 'user.interaction' } });
+      emitSessionEvent({ name: 'checkout.paid', attributes: { 'event.category': 'user.interaction' } });
+
+      const summaries = [...panel()!.querySelectorAll('summary')].map((summary) => summary.textContent);
+      expect(summaries[0]).toContain('checkout.paid');
+      expect(summaries[1]).toContain('checkout.started');
+      expect(panel()!.querySelector('pre')?.textContent).toContain('session.sequence: 1');
+    });
+
+    it('should collect events while closed', () => {
+      install();
+
+      emitSessionEvent({ name: 'checkout.started', attributes: { 'event.category': 'user.interaction' } });
+      plugin.overlay!.show();
+
+      expect(panel()!.querySelectorAll('li')).toHaveLength(1);
+    });
+
+    it('should keep only the configured number of events', () => {
+      install({ maxEvents: 2 });
+      plugin.overlay!.show();
+
+      for (let i = 0; i < 4; i++) {
+        emitSessionEvent({ name: `step.${i}`, attributes: { 'event.category': 'user.interaction' } });
+      }
+
+      expect(plugin.overlay!.getEntries().map((entry) => entry.name)).toEqual(['step.2', 'step.3']);
+      expect(panel()!.querySelectorAll('li')).toHaveLength(2);
+    });
+
+    it('should show attributes as redacted for export', () => {
+      install();
+
+      emitSessionEvent({
+        name: 'user.click',
+        attributes: { 'event.category': 'user.interaction', 'target.semantic_name': 'jane@example.com' },
+      });
+
+      expect(plugin.overlay!.getEntries()[0].attributes['target.semantic_name']).toBe('[REDACTED]');
+    });
+
+    it('should render values as text', () => {
+      install();
+      plugin.overlay!.show();
+
+      emitSessionEvent({
+        name: 'user.click',
+        attributes: { 'event.category': 'user.interaction', 'target.semantic_name': '<img src=x onerror=alert(1)>' },
+      });
+
+      expect(panel()!.querySelector('img')).toBeNull();
+    });
+  });
+
+  describe('detections', () => {
+    it('should count and highlight frustration events', () => {
+      render('<button id="pay">Pay</button>');
+      install();
+      plugin.overlay!.show();
+
+      for (let i = 0; i < 3; i++) {
+        query('#pay').click();
+      }
+
+      expect(panel()!.querySelector('.stats')?.textContent).toContain('rage_click 1');
+      expect(panel()!.querySelector('li.frustration summary')?.textContent).toContain('user.frustration.rage_click');
+    });
+
+    it('should flag targets whose name fell back to the tag', () => {
+      render('<div id="card"><div class="icon"></div></div>');
+      install();
+      plugin.overlay!.show();
+
+      query('.icon').click();
+
+      expect(panel()!.querySelector('.stats')?.textContent).toContain('unnamed 2');
+      expect(panel()!.querySelectorAll('li.unnamed')).toHaveLength(2);
+    });
+
+    it('should not capture clicks on the panel', () => {
+      install();
+      plugin.overlay!.show();
+      emitted.length = 0;
+
+      panel()!.querySelector('summary')?.click();
+      document.getElementById('session-replay-debug')!.click();
+
+      expect(emitted).toHaveLength(0);
+    });
+  });
+
+  describe('outlines', () => {
+    it('should outline the element of a rage click', () => {
+      render('<button class="pay">Pay</button>');
+      install();
+      plugin.overlay!.show();
+
+      for (let i = 0; i < 3; i++) {
+        query('.pay').click();
+      }
+
+      const rage = plugin.overlay!.getEntries().find((entry) => entry.name === 'user.frustration.rage_click')!;
+      expect(plugin.overlay!.highlight(rage)).toBe(true);
+      expect(panel()!.querySelector('.outline.frustration')).not.toBeNull();
+    });
+
+    it('should outline clicked elements on hover', () => {
+      render('<button class="pay">Pay</button>');
+      install();
+      plugin.overlay!.show();
+
+      query('.pay').click();
+      panel()!.querySelector('li')!.dispatchEvent(new MouseEvent('mouseenter'));
+
+      expect(panel()!.querySelector('.outline')).not.toBeNull();
+
+      panel()!.querySelector('li')!.dispatchEvent(new MouseEvent('mouseleave'));
+      expect(panel()!.querySelector('.outline')).toBeNull();
+    });
+
+    it('should fall back to the target ID', () => {
+      render('<button id="pay">Pay</button>');
+      install();
+      plugin.overlay!.show();
+
+      emitSessionEvent({
+        name: 'checkout.hint_shown',
+        attributes: { 'event.category': 'user.interaction', 'target.id': 'pay' },
+      });
+
+      expect(plugin.overlay!.highlight(plugin.overlay!.getEntries()[0])).toBe(true);
+    });
+  });
+
+  describe('teardown', () => {
+    it('should remove the panel and the shortcut', () => {
+      install();
+      plugin.overlay!.show();
+
+      host.teardown();
+      pressShortcut();
+
+      expect(panel()).toBeNull();
+      expect(plugin.overlay).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Debug overlay panel
+ *
+ * A fixed panel listing recent session events with their attributes.
+ * Hovering an event outlines the element it was about. Frustration
+ * detections are highlighted and counted, and elements whose semantic
+ * name fell back to `<tag>` are flagged so they can be given an
+ * aria-label or data-sr-name. The panel lives in a shadow root marked
+ * data-sr-ignore, so its styles are isolated and clicks on it aren't
+ * captured.
+ */
+
+import { IGNORE_ATTRIBUTE } from '../semantic/privacy';
+
+/**
+ * A session event as shown in the overlay
+ */
+export interface DebugEntry {
+  name: string;
+  timestamp: number;
+  attributes: Record<string, string | number | boolean>;
+}
+
+/**
+ * Configuration for the overlay panel
+ */
+export interface DebugOverlayPanelConfig {
+  document: Document;
+  /** Events kept in the list, oldest dropped first (default: 200) */
+  maxEvents?: number;
+  /** Finds the element an event was about, if it is still known */
+  resolveElement?: (entry: DebugEntry) => Element | null;
+}
+
+const DEFAULT_MAX_EVENTS = 200;
+
+/** Semantic name produced when nothing better was found, e.g. `<div>` */
+const FALLBACK_NAME = /^<[a-z][a-z0-9-]*>$/;
+
+const FRUSTRATION_PREFIX = 'user.frustration.';
+
+const STYLES = `
+  :host { all: initial; }
+  .panel {
+    position: fixed; right: 12px; bottom: 12px; z-index: 2147483647;
+    width: 420px; max-height: 60vh; display: flex; flex-direction: column;
+    background: #1e1e24; color: #e8e8ee; border-radius: 6px;
+    font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace;
+    box-shadow: 0 4px 24px rgba(0, 0, 0, 0.4);
+  }
+  header { display: flex; align-items: center; gap: 8px; padding: 8px 10px; border-bottom: 1px solid #33333d; }
+  header strong { flex: 1; }
+  header button { background: none; border: 0; color: inherit; cursor: pointer; font: inherit; }
+  .stats { padding: 6px 10px; color: #a0a0b0; border-bottom: 1px solid #33333d; }
+  ol { list-style: none; margin: 0; padding: 0; overflow-y: auto; }
+  li { border-bottom: 1px solid #2a2a32; }
+  summary { padding: 4px 10px; cursor: pointer; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .time { color: #80808f; margin-right: 6px; }
+  .target { color: #9cc4ff; margin-left: 6px; }
+  .badge { margin-left: 6px; padding: 0 4px; border-radius: 3px; font-size: 11px; }
+  .frustration summary { background: #4a1f24; }
+  .frustration .badge { background: #d64550; }
+  .unnamed .badge.warn { background: #c77c11; }
+  pre { margin: 0; padding: 4px 10px 8px 22px; white-space: pre-wrap; word-break: break-all; color: #c0c0cc; }
+  .outline {
+    position: fixed; pointer-events: none; z-index: 2147483646;
+    border: 2px solid #4c9aff; background: rgba(76, 154, 255, 0.12); border-radius: 2px;
+  }
+  .outline.warn { border-color: #c77c11; background: rgba(199, 124, 17, 0.15); }
+  .outline.frustration { border-color: #d64550; background: rgba(214, 69, 80, 0.15); }
+`;
+
+/**
+ * Whether the event's target fell back to its tag name
+ */
+export function hasFallbackName(entry: DebugEntry): boolean {
+  const name = entry.attributes['target.semantic_name'];
+  return typeof name === 'string' && FALLBACK_NAME.test(name);
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(11, 23);
+}
+
+function formatAttributes(attributes: DebugEntry['attributes']): string {
+  return Object.keys(attributes)
+    .sort()
+    .map((key) => `${key}: ${attributes[key]}`)
+    .join('\n');
+}
+
+/**
+ * The overlay panel. Entries are collected while hidden and rendered when
+ * the panel is shown.
+ */
+export class DebugOverlay {
+  private config: Required<Omit<DebugOverlayPanelConfig, 'resolveElement'>> &
+    Pick<DebugOverlayPanelConfig, 'resolveElement'>;
+  private entries: DebugEntry[] = [];
+  private host: HTMLElement | null = null;
+  private root: ShadowRoot | null = null;
+  private list: HTMLElement | null = null;
+  private stats: HTMLElement | null = null;
+  private outline: HTMLElement | null = null;
+
+  constructor(config: DebugOverlayPanelConfig) {
+    this.config = {
+      document: config.document,
+      maxEvents: config.maxEvents ?? DEFAULT_MAX_EVENTS,
+      resolveElement: config.resolveElement,
+    };
+  }
+
+  /**
+   * Whether the panel is on screen
+   */
+  get visible(): boolean {
+    return this.host !== null;
+  }
+
+  /**
+   * Events currently listed, oldest first
+   */
+  getEntries(): DebugEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Adds an event to the list
+   */
+  add(entry: DebugEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.config.maxEvents) {
+      this.entries.shift();
+    }
+
+    // Update in place so expanded entries stay open
+    if (this.list && this.stats) {
+      this.list.prepend(this.renderEntry(entry));
+      if (this.list.children.length > this.entries.length) {
+        this.list.lastElementChild?.remove();
+      }
+      this.stats.textContent = this.getStatsText();
+    }
+  }
+
+  show(): void {
+    if (this.host) return;
+
+    const doc = this.config.document;
+    this.host = doc.createElement('div');
+    this.host.id = 'session-replay-debug';
+    this.host.setAttribute(IGNORE_ATTRIBUTE, '');
+    this.root = this.host.attachShadow({ mode: 'open' });
+    // The agent can load from <head>, before there is a body
+    (doc.body ?? doc.documentElement).appendChild(this.host);
+    this.render();
+  }
+
+  hide(): void {
+    this.host?.remove();
+    this.host = null;
+    this.root = null;
+    this.list = null;
+    this.stats = null;
+    this.outline = null;
+  }
+
+  toggle(): void {
+    if (this.visible) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  /**
+   * Outlines the element an entry was about
+   *
+   * @returns Whether the element was found
+   */
+  highlight(entry: DebugEntry): boolean {
+    this.clearHighlight();
+    const element = this.config.resolveElement?.(entry);
+    if (!this.root || !element || !element.isConnected) return false;
+
+    const rect = element.getBoundingClientRect();
+    const outline = this.config.document.createElement('div');
+    outline.className = 'outline';
+    if (entry.name.startsWith(FRUSTRATION_PREFIX)) {
+      outline.classList.add('frustration');
+    } else if (hasFallbackName(entry)) {
+      outline.classList.add('warn');
+    }
+    outline.style.top = `${rect.top}px`;
+    outline.style.left = `${rect.left}px`;
+    outline.style.width = `${rect.width}px`;
+    outline.style.height = `${rect.height}px`;
+    this.root.appendChild(outline);
+    this.outline = outline;
+    return true;
+  }
+
+  clearHighlight(): void {
+    this.outline?.remove();
+    this.outline = null;
+  }
+
+  /**
+   * Builds the panel. Values are set as text, never parsed as HTML.
+   */
+  private render(): void {
+    if (!this.root) return;
+
+    const doc = this.config.document;
+    const style = doc.createElement('style');
+    style.textContent = STYLES;
+
+    this.stats = doc.createElement('div');
+    this.stats.className = 'stats';
+    this.stats.textContent = this.getStatsText();
+
+    this.list = doc.createElement('ol');
+    // Newest first
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      this.list.appendChild(this.renderEntry(this.entries[i]));
+    }
+
+    const panel = doc.createElement('section');
+    panel.className = 'panel';
+    panel.append(this.renderHeader(), this.stats, this.list);
+
+    this.outline = null;
+    this.root.replaceChildren(style, panel);
+  }
+
+  private renderHeader(): HTMLElement {
+    const doc = this.config.document;
+    const header = doc.createElement('header');
+    const title = doc.createElement('strong');
+    title.textContent = 'Session Replay';
+    const close = doc.createElement('button');
+    close.type = 'button';
+    close.title = 'Close';
+    close.textContent = '×';
+    close.addEventListener('click', () => this.hide());
+    header.append(title, close);
+    return header;
+  }
+
+  /**
+   * Event count, detections per frustration type and unnamed targets
+   */
+  private getStatsText(): string {
+    const counts = new Map<string, number>();
+    let unnamed = 0;
+    for (const entry of this.entries) {
+      if (entry.name.startsWith(FRUSTRATION_PREFIX)) {
+        const type = entry.name.slice(FRUSTRATION_PREFIX.length);
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+      }
+      if (hasFallbackName(entry)) {
+        unnamed++;
+      }
+    }
+
+    const parts = [`${this.entries.length} events`];
+    for (const type of ['rage_click', 'dead_click', 'thrashing']) {
+      parts.push(`${type} ${counts.get(type) ?? 0}`);
+      counts.delete(type);
+    }
+    for (const [type, count] of counts) {
+      parts.push(`${type} ${count}`);
+    }
+    parts.push(`unnamed ${unnamed}`);
+    return parts.join(' · ');
+  }
+
+  private renderEntry(entry: DebugEntry): HTMLElement {
+    const doc = this.config.document;
+    const item = doc.createElement('li');
+    const details = doc.createElement('details');
+    const summary = doc.createElement('summary');
+
+    const time = doc.createElement('span');
+    time.className = 'time';
+    time.textContent = formatTime(entry.timestamp);
+    summary.append(time, entry.name);
+
+    const semanticName = entry.attributes['target.semantic_name'];
+    if (semanticName !== undefined) {
+      const target = doc.createElement('span');
+      target.className = 'target';
+      target.textContent = String(semanticName);
+      summary.appendChild(target);
+    }
+
+    if (entry.name.startsWith(FRUSTRATION_PREFIX)) {
+      item.classList.add('frustration');
+      summary.appendChild(this.badge(`score ${entry.attributes['frustration.score'] ?? '?'}`));
+    }
+    if (hasFallbackName(entry)) {
+      item.classList.add('unnamed');
+      const badge = this.badge('unnamed');
+      badge.classList.add('warn');
+      badge.title = 'No aria-label, text or data-sr-name: the semantic name fell back to the tag';
+      summary.appendChild(badge);
+    }
+
+    const attributes = doc.createElement('pre');
+    attributes.textContent = formatAttributes(entry.attributes);
+
+    details.append(summary, attributes);
+    item.appendChild(details);
+    item.addEventListener('mouseenter', () => this.highlight(entry));
+    item.addEventListener('mouseleave', () => this.clearHighlight());
+    return item;
+  }
+
+  private badge(text: string): HTMLElement {
+    const badge = this.config.document.createElement('span');
+    badge.className = 'badge';
+    badge.textContent = text;
+    return badge;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Debug overlay plugin
+ *
+ * Feeds the overlay from inside the agent: an observer sees every event as
+ * it is exported, after redaction, and a click hub consumer remembers
+ * which element each recorded user.click was on, so click and frustration
+ * events can be traced back to their element. The panel opens when the page URL
+ * has the query parameter, and the keyboard shortcut toggles it.
+ */
+
+import type { SessionReplayPlugin } from '../plugins';
+import { DebugOverlay, type DebugEntry } from './overlay';
+
+/**
+ * Options for the debug overlay
+ */
+export interface DebugOverlayOptions {
+  /** Query parameter that opens the overlay on load (default: 'sr_debug') */
+  queryParam?: string;
+  /** Shortcut that toggles the overlay, e.g. 'Alt+Shift+D' (default) */
+  shortcut?: string;
+  /** Events kept in the list (default: 200) */
+  maxEvents?: number;
+}
+
+/**
+ * The overlay plugin, exposing the panel once set up
+ */
+export interface DebugOverlayPlugin extends SessionReplayPlugin {
+  readonly overlay: DebugOverlay | undefined;
+}
+
+interface Shortcut {
+  key: string;
+  alt: boolean;
+  ctrl: boolean;
+  meta: boolean;
+  shift: boolean;
+}
+
+/**
+ * Parses 'Ctrl+Shift+K' style shortcuts
+ */
+function parseShortcut(shortcut: string): Shortcut {
+  const parts = shortcut.split('+').map((part) => part.trim().toLowerCase());
+  const key = parts.pop() ?? '';
+  return {
+    key,
+    alt: parts.includes('alt') || parts.includes('option'),
+    ctrl: parts.includes('ctrl') || parts.includes('control'),
+    meta: parts.includes('meta') || parts.includes('cmd'),
+    shift: parts.includes('shift'),
+  };
+}
+
+/**
+ * Matches on event.code for letters and digits, since Alt and Shift change
+ * event.key (Alt+Shift+D is 'Î' on macOS)
+ */
+function matchesShortcut(event: KeyboardEvent, shortcut: Shortcut): boolean {
+  if (
+    event.altKey !== shortcut.alt ||
+    event.ctrlKey !== shortcut.ctrl ||
+    event.metaKey !== shortcut.meta ||
+    event.shiftKey !== shortcut.shift
+  ) {
+    return false;
+  }
+
+  if (/^[a-z]$/.test(shortcut.key)) {
+    return event.code === `Key${shortcut.key.toUpperCase()}`;
+  }
+  if (/^\d$/.test(shortcut.key)) {
+    return event.code === `Digit${shortcut.key}`;
+  }
+  return event.key.toLowerCase() === shortcut.key;
+}
+
+function isRequested(win: Window, queryParam: string): boolean {
+  try {
+    const value = new URL(win.location.href).searchParams.get(queryParam);
+    return value !== null && value !== '0' && value !== 'false';
+  } catch {
+    return false;
+  }
+}
+
+function getSequence(attributes: DebugEntry['attributes'], key: string): number | undefined {
+  const value = attributes[key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Creates the debug overlay plugin. Import it from the debug entry point
+ * (`@session-replay/browser-agent/debug`) so production bundles don't
+ * include it.
+ *
+ * @param options - Query parameter, shortcut and list size
+ */
+export function createDebugOverlay(options: DebugOverlayOptions = {}): DebugOverlayPlugin {
+  const maxEvents = options.maxEvents ?? 200;
+  let overlay: DebugOverlay | undefined;
+  let cleanUp: (() => void) | undefined;
+
+  return {
+    name: 'debugOverlay',
+
+    get overlay() {
+      return overlay;
+    },
+
+    setup(agent) {
+      const doc = agent.document;
+      // session.sequence of each recorded click -> clicked element
+      const elements = new Map<number, Element>();
+
+      const resolveElement = (entry: DebugEntry): Element | null => {
+        const sequence =
+          getSequence(entry.attributes, 'frustration.click_sequence') ??
+          (entry.name === 'user.click' ? getSequence(entry.attributes, 'session.sequence') : undefined);
+        const clicked = sequence !== undefined ? elements.get(sequence) : undefined;
+        if (clicked) return clicked;
+
+        const id = entry.attributes['target.id'];
+        return typeof id === 'string' ? doc.getElementById(id) : null;
+      };
+
+      const panel = new DebugOverlay({ document: doc, maxEvents, resolveElement });
+      overlay = panel;
+
+      agent.observe((record) => {
+        panel.add({ name: record.name, timestamp: record.timestamp, attributes: { ...record.attributes } });
+      });
+
+      const unsubscribe = agent.clickHub.subscribe((click) => {
+        if (click.sequence === undefined) return;
+        elements.set(click.sequence, click.element);
+        if (elements.size > maxEvents) {
+          elements.delete(elements.keys().next().value as number);
+        }
+      });
+
+      const shortcut = parseShortcut(options.shortcut ?? 'Alt+Shift+D');
+      const onKeyDown = (event: KeyboardEvent) => {
+        if (matchesShortcut(event, shortcut)) {
+          event.preventDefault();
+          panel.toggle();
+        }
+      };
+      agent.window.addEventListener('keydown', onKeyDown);
+
+      cleanUp = () => {
+        unsubscribe();
+        agent.window.removeEventListener('keydown', onKeyDown);
+        panel.hide();
+      };
+
+      if (isRequested(agent.window, options.queryParam ?? 'sr_debug')) {
+        panel.show();
+      }
+    },
+
+    teardown() {
+      cleanUp?.();
+      cleanUp = undefined;
+      overlay = undefined;
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; severityNumber?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import { SeverityNumber } from '@opentelemetry/api-logs';
+import { getEventSchema, setEventValidation, validateEventAttributes } from './event-registry';
+import { defineEvent, emitClickEvent, emitFormEvent, emitSessionEvent } from './events';
+import { flushEventBudget } from './budget';
+import { trackAddToCart, trackPurchase, trackLead, trackCustomizeProduct } from './funnel';
+
+interface CouponAttributes {
+  'coupon.code': string;
+  'coupon.discount'?: number;
+  'coupon.stackable'?: boolean;
+}
+
+const couponApplied = defineEvent<CouponAttributes>('checkout.coupon_applied', {
+  category: 'funnel.ecommerce',
+  action: 'coupon_applied',
+  attributes: {
+    'coupon.code': { type: 'string', required: true },
+    'coupon.discount': { type: 'number' },
+    'coupon.stackable': { type: 'boolean' },
+  },
+});
+
+describe('defineEvent', () => {
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    emitted.length = 0;
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setEventValidation(false);
+    vi.restoreAllMocks();
+  });
+
+  it('should emit with the category and action from the schema', () => {
+    couponApplied({ 'coupon.code': 'SPRING', 'coupon.discount': 10 });
+
+    expect(emitted[0].body).toBe('checkout.coupon_applied');
+    expect(emitted[0].attributes).toMatchObject({
+      'event.category': 'funnel.ecommerce',
+      'event.action': 'coupon_applied',
+      'coupon.code': 'SPRING',
+      'coupon.discount': 10,
+    });
+  });
+
+  it('should use the schema severity', () => {
+    const paymentDeclined = defineEvent<{ 'payment.reason': string }>('checkout.payment_declined', {
+      category: 'user.error',
+      severity: SeverityNumber.WARN,
+      attributes: { 'payment.reason': { type: 'string', required: true } },
+    });
+
+    paymentDeclined({ 'payment.reason': 'insufficient_funds' });
+    flushEventBudget();
+
+    expect(emitted[0].severityNumber).toBe(SeverityNumber.WARN);
+  });
+
+  it('should register the schema', () => {
+    expect(couponApplied.eventName).toBe('checkout.coupon_applied');
+    expect(getEventSchema('checkout.coupon_applied')?.category).toBe('funnel.ecommerce');
+  });
+
+  it('should not validate outside debug mode', () => {
+    emitSessionEvent({
+      name: 'checkout.coupon_applied',
+      attributes: { 'event.category': 'funnel.ecommerce', 'coupon.cdoe': 'SPRING' },
+    });
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(emitted).toHaveLength(1);
+  });
+
+  it('should report invalid attributes in debug mode and still emit', () => {
+    setEventValidation(true);
+
+    emitSessionEvent({
+      name: 'checkout.coupon_applied',
+      attributes: { 'event.category': 'funnel.ecommerce', 'coupon.cdoe': 'SPRING' },
+    });
+
+    expect(warn).toHaveBeenCalledWith(
+      '[SessionReplay] Invalid checkout.coupon_applied event: unknown attribute coupon.cdoe; missing required attribute coupon.code'
+    );
+    expect(emitted).toHaveLength(1);
+  });
+
+  it('should accept valid events in debug mode', () => {
+    setEventValidation(true);
+
+    couponApplied({ 'coupon.code': 'SPRING', 'coupon.stackable': false });
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should keep the built-in helpers valid', () => {
+    setEventValidation(true);
+
+    emitClickEvent('Pay now', 'button', { 'target.id': 'pay', 'target.data.plan': 'pro' });
+    emitFormEvent('blur', 'email', { 'form.field_type': 'email', 'form.time_spent_ms': 1200 });
+    emitFormEvent('submit', 'checkout', { 'form.success': true, 'form.fields_interacted': 4 });
+    trackAddToCart({ contentId: 'sku-1', value: 20, currency: 'USD' });
+    trackPurchase({ transactionId: 't-1', value: 20, currency: 'USD', contentIds: ['sku-1'] });
+    trackLead({ leadType: 'demo' });
+    trackCustomizeProduct({ contentId: 'sku-1', customizations: ['color'] });
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should pass other attributes through the built-in helpers', () => {
+    emitClickEvent('Pay now', 'button', { 'experiment.variant': 'b' });
+    emitFormEvent('blur', 'email', { 'form.step': 2 });
+
+    expect(emitted[0].attributes?.['experiment.variant']).toBe('b');
+    expect(emitted[1].attributes?.['form.step']).toBe(2);
+  });
+});
+
+describe('validateEventAttributes', () => {
+  const schema = {
+    category: 'user.interaction' as const,
+    attributes: {
+      'widget.name': { type: 'string' as const, required: true },
+      'widget.count': { type: 'number' as const },
+      'widget.meta.*': { type: 'string' as const },
+    },
+  };
+
+  it('should report wrong types', () => {
+    expect(validateEventAttributes(schema, { 'widget.name': 'w', 'widget.count': '3' })).toEqual([
+      'widget.count should be a number, got string',
+    ]);
+  });
+
+  it('should match prefix keys', () => {
+    expect(validateEventAttributes(schema, { 'widget.name': 'w', 'widget.meta.color': 'red' })).toEqual([]);
+  });
+
+  it('should ignore undefined optional values and base attributes', () => {
+    expect(
+      validateEventAttributes(schema, {
+        'widget.name': 'w',
+        'widget.count': undefined,
+        'event.category': 'user.interaction',
+        'event.x': 10,
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Event schema registry
+ *
+ * Schemas registered through defineEvent() describe the attributes each
+ * custom event may carry. When validation is on (debug mode), every
+ * emitted event with a registered name is checked, and unknown keys, wrong
+ * types and missing required attributes are reported on the console.
+ * Events are emitted either way.
+ */
+
+import type { SeverityNumber } from '@opentelemetry/api-logs';
+import type { EventCategory } from './events';
+
+/**
+ * Attribute value types a schema can declare
+ */
+export type AttributeType = 'string' | 'number' | 'boolean';
+
+/** Maps a TypeScript value type to its schema type name */
+type AttributeTypeOf<V> = V extends string
+  ? 'string'
+  : V extends number
+    ? 'number'
+    : V extends boolean
+      ? 'boolean'
+      : never;
+
+/** Whether K is an optional key of T */
+type IsOptional<T, K extends keyof T> = Record<never, never> extends Pick<T, K> ? true : false;
+
+/**
+ * Schema entry for one attribute
+ */
+export interface AttributeSpec {
+  type: AttributeType;
+  required?: boolean;
+}
+
+/**
+ * Attribute schema matching an attribute interface: every key is declared
+ * with its type, and required keys must be marked `required: true`. A key
+ * ending in `*` matches any attribute with that prefix.
+ */
+export type AttributeSchema<Attrs> = {
+  [K in keyof Attrs]-?: { type: AttributeTypeOf<NonNullable<Attrs[K]>> } & (IsOptional<
+    Attrs,
+    K
+  > extends true
+    ? { required?: false }
+    : { required: true });
+};
+
+/**
+ * Attribute map accepted by typed events (interfaces included)
+ */
+export type EventAttributes<Attrs> = { [K in keyof Attrs]: string | number | boolean | undefined };
+
+/**
+ * Definition of a custom event
+ */
+export interface EventSchema<Attrs = Record<string, string | number | boolean | undefined>> {
+  category: EventCategory;
+  /** event.action added to every emission */
+  action?: string;
+  /** Severity level, defaults to INFO */
+  severity?: SeverityNumber;
+  attributes: AttributeSchema<Attrs>;
+}
+
+/**
+ * Attributes every session event may carry, never reported as unknown
+ */
+const BASE_ATTRIBUTE_PREFIXES = ['event.', 'page.'];
+
+const schemas = new Map<string, EventSchema>();
+let validationEnabled = false;
+
+/**
+ * Registers the schema for an event name, replacing any earlier one
+ */
+export function registerEventSchema(name: string, schema: EventSchema): void {
+  if (validationEnabled && schemas.has(name)) {
+    console.warn(`[SessionReplay] Event ${name} is defined more than once`);
+  }
+  schemas.set(name, schema);
+}
+
+/**
+ * Returns the schema registered for an event name
+ */
+export function getEventSchema(name: string): EventSchema | undefined {
+  return schemas.get(name);
+}
+
+/**
+ * Returns every registered event name
+ */
+export function getRegisteredEvents(): string[] {
+  return [...schemas.keys()];
+}
+
+/**
+ * Returns a copy of the registry, to put back later with
+ * restoreEventSchemas()
+ */
+export function snapshotEventSchemas(): ReadonlyMap<string, EventSchema> {
+  return new Map(schemas);
+}
+
+/**
+ * Replaces the registry with a snapshot, forgetting schemas registered
+ * since it was taken
+ */
+export function restoreEventSchemas(snapshot: ReadonlyMap<string, EventSchema>): void {
+  schemas.clear();
+  for (const [name, schema] of snapshot) {
+    schemas.set(name, schema);
+  }
+}
+
+/**
+ * Turns runtime validation on or off (on in debug mode)
+ */
+export function setEventValidation(enabled: boolean): void {
+  validationEnabled = enabled;
+}
+
+/**
+ * Whether emitted events are validated against their schema
+ */
+export function isEventValidationEnabled(): boolean {
+  return validationEnabled;
+}
+
+/**
+ * Finds the schema entry for an attribute, trying exact keys before
+ * `prefix*` keys
+ */
+function findSpec(schema: EventSchema, key: string): AttributeSpec | undefined {
+  const specs = schema.attributes as Record<string, AttributeSpec>;
+  if (key in specs) {
+    return specs[key];
+  }
+  for (const [pattern, spec] of Object.entries(specs)) {
+    if (pattern.endsWith('*') && key.startsWith(pattern.slice(0, -1))) {
+      return spec;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks attributes against a schema
+ *
+ * @returns One message per problem; empty when the attributes are valid
+ */
+export function validateEventAttributes(
+  schema: EventSchema,
+  attributes: Record<string, unknown>
+): string[] {
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined || BASE_ATTRIBUTE_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+      continue;
+    }
+    const spec = findSpec(schema, key);
+    if (!spec) {
+      problems.push(`unknown attribute ${key}`);
+    } else if (typeof value !== spec.type) {
+      problems.push(`${key} should be a ${spec.type}, got ${typeof value}`);
+    }
+  }
+
+  for (const [key, spec] of Object.entries(schema.attributes as Record<string, AttributeSpec>)) {
+    if (spec.required && attributes[key] === undefined) {
+      problems.push(`missing required attribute ${key}`);
+    }
+  }
+
+  return problems;
+}
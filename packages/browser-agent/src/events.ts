@@ -4,9 +4,46 @@
  */
 
 import { SeverityNumber } from '@opentelemetry/api-logs';
-import { trace, context } from '@opentelemetry/api';
-import { getLogger } from './log-provider';
-import { getSessionId, getNextSequence, getSessionDuration, getUser } from './session';
+import { trace } from '@opentelemetry/api';
+import { getLogger } from './logger';
+import {
+  getSessionId,
+  getNextSequence,
+  getSessionDuration,
+  getSessionExpiry,
+  getSessionLastActivity,
+  getSessionStartTime,
+  getTabId,
+  getUser,
+  isCrossTabSession,
+  isSequenceReady,
+  onSequenceReady,
+  rotateSession,
+} from './session';
+import { isSessionSampled, shouldSampleEvent } from './sampling';
+import { dispatchLogRecord } from './buffering';
+import { redactAttributes } from './redaction';
+import { hasConsentFor, holdEvent } from './consent';
+import { getRoute } from './routes';
+import { getVisitorId, isVisitorEnabled } from './visitor';
+import { collectGlobalAttributes } from './global-attributes';
+import { notifyObservers, runMiddleware, type SessionEventRecord } from './pipeline';
+import {
+  absorbRepeatedError,
+  consumeEventBudget,
+  dispatchErrorRecord,
+  flushEventBudget,
+  type SuppressionSummary,
+} from './budget';
+import {
+  getEventSchema,
+  isEventValidationEnabled,
+  registerEventSchema,
+  validateEventAttributes,
+  type AttributeSchema,
+  type EventAttributes,
+  type EventSchema,
+} from './event-registry';
 
 /**
  * Event categories for session replay
@@ -18,6 +55,8 @@ export type EventCategory =
   | 'user.frustration'
   | 'form.interaction'
   | 'page.lifecycle'
+  | 'user.identity'
+  | 'agent.internal'
   | 'funnel.ecommerce'
   | 'funnel.lead';
 
@@ -41,6 +80,8 @@ export interface BaseEventAttributes {
   'event.action'?: string;
   /** Page URL where event occurred */
   'page.url': string;
+  /** Route template of the page (e.g. /products/:id) */
+  'page.route'?: string;
   /** Page title */
   'page.title': string;
 }
@@ -97,34 +138,215 @@ export interface EmitEventOptions {
   traceId?: string;
 }
 
+/**
+ * Page and trace context captured when an event happens, so events held
+ * for consent are recorded as they were, not as they are on release
+ */
+interface EventContext {
+  timestamp: number;
+  pageUrl: string;
+  pageTitle: string;
+  traceId?: string;
+  spanId?: string;
+}
+
 /**
  * Emits a session event as an OTLP log record.
  * Automatically includes session context (session.id, sequence, page info).
  *
  * @param options - Event options
+ * @returns The event's session.sequence, or undefined when it wasn't
+ * recorded right away (held for consent, sampled out or over budget)
  */
-export function emitSessionEvent(options: EmitEventOptions): void {
-  const logger = getLogger();
+export function emitSessionEvent(options: EmitEventOptions): number | undefined {
+  const category = options.attributes['event.category'];
 
-  // Debug: check if we have a real logger
-  if (typeof console !== 'undefined' && (logger as any).constructor?.name) {
-    console.debug('[SessionReplay] Logger type:', (logger as any).constructor.name);
+  // In debug mode, check events with a registered schema
+  if (isEventValidationEnabled()) {
+    reportInvalidAttributes(options);
   }
 
   // Get page context
-  const pageUrl = typeof window !== 'undefined' ? window.location.href : '';
-  const pageTitle = typeof document !== 'undefined' ? document.title : '';
+  const context: EventContext = {
+    timestamp: Date.now(),
+    pageUrl: typeof window !== 'undefined' ? window.location.href : '',
+    pageTitle: typeof document !== 'undefined' ? document.title : '',
+  };
+
+  // Add trace context if there's an active span (auto-correlation)
+  const activeSpan = trace.getActiveSpan();
+  if (activeSpan) {
+    const spanContext = activeSpan.spanContext();
+    context.traceId = spanContext.traceId || undefined;
+    context.spanId = spanContext.spanId || undefined;
+  }
+
+  // Without consent for the category nothing is recorded - not even a
+  // session ID - unless the event is held until the user decides
+  if (!hasConsentFor(category)) {
+    holdEvent(category, () => recordSessionEvent(options, context));
+    return undefined;
+  }
+
+  return recordSessionEvent(options, context);
+}
+
+/**
+ * Ends an expired session and starts a new one before the next event is
+ * recorded. session.end is stamped at the old session's last activity and
+ * session.start links back to it through session.previous_id.
+ */
+function rotateExpiredSession(context: EventContext): void {
+  const reason = getSessionExpiry();
+  if (!reason) return;
+
+  // Held errors and suppression counts belong to the ending session
+  flushEventBudget();
+
+  const lastActivity = getSessionLastActivity();
+  const emitLifecycle = hasConsentFor('page.lifecycle');
+
+  if (emitLifecycle) {
+    recordSessionEvent(
+      {
+        name: 'session.end',
+        attributes: {
+          'event.category': 'page.lifecycle',
+          'event.action': 'session_end',
+          'session.end_reason': reason,
+          'session.duration_ms': lastActivity - getSessionStartTime(),
+        },
+      },
+      { ...context, timestamp: lastActivity },
+      true
+    );
+  }
+
+  const previousId = rotateSession();
+
+  if (emitLifecycle) {
+    recordSessionEvent(
+      {
+        name: 'session.start',
+        attributes: {
+          'event.category': 'page.lifecycle',
+          'event.action': 'session_start',
+          'session.previous_id': previousId,
+        },
+      },
+      context,
+      true
+    );
+  }
+}
+
+/**
+ * Warns about attributes that don't match the event's registered schema
+ */
+function reportInvalidAttributes(options: EmitEventOptions): void {
+  const schema = getEventSchema(options.name);
+  if (!schema) return;
+
+  const problems = validateEventAttributes(schema, options.attributes);
+  if (problems.length > 0) {
+    console.warn(`[SessionReplay] Invalid ${options.name} event: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Emits agent.events_suppressed for each event name that ran over budget
+ */
+function reportSuppressedEvents(summaries: SuppressionSummary[]): void {
+  const context: EventContext = {
+    timestamp: Date.now(),
+    pageUrl: typeof window !== 'undefined' ? window.location.href : '',
+    pageTitle: typeof document !== 'undefined' ? document.title : '',
+  };
+
+  for (const summary of summaries) {
+    recordSessionEvent(
+      {
+        name: 'agent.events_suppressed',
+        severity: SeverityNumber.WARN,
+        attributes: {
+          'event.category': 'agent.internal',
+          'event.action': 'events_suppressed',
+          'suppressed.event_name': summary.eventName,
+          'suppressed.count': summary.count,
+          'suppressed.reason': summary.reason,
+        },
+      },
+      context,
+      true
+    );
+  }
+}
+
+/**
+ * Builds the log record for a consented event and dispatches it. Records
+ * the agent generates itself (session lifecycle, suppression summaries)
+ * are internal: they skip the expiry check and the event budget.
+ */
+function recordSessionEvent(
+  options: EmitEventOptions,
+  context: EventContext,
+  internal = false
+): number | undefined {
+  // A tab sharing the session can't number events until it holds a slot
+  if (!isSequenceReady()) {
+    onSequenceReady(() => recordSessionEvent(options, context, internal));
+    return undefined;
+  }
+
+  if (!internal) {
+    rotateExpiredSession(context);
+  }
+
+  // Drop events for sessions outside the sample (per-category overrides apply)
+  if (!shouldSampleEvent(options.attributes['event.category'])) {
+    return undefined;
+  }
 
-  // Build attributes with session context
+  // Collapse repeats of the held error, then enforce the session and
+  // per-event budgets before the event takes a sequence number
+  if (!internal) {
+    if (absorbRepeatedError(options)) return undefined;
+    if (!consumeEventBudget(options.name, reportSuppressedEvents)) return undefined;
+  }
+
+  const logger = getLogger();
+
+  // Debug: check if we have a real logger
+  const loggerType = (logger as object).constructor?.name;
+  if (typeof console !== 'undefined' && loggerType) {
+    console.debug('[SessionReplay] Logger type:', loggerType);
+  }
+
+  // Build attributes with session context. Global attributes go first so
+  // they can't overwrite session fields, and the event's own attributes win
+  const sequence = getNextSequence();
   const attributes: Record<string, string | number | boolean> = {
+    ...collectGlobalAttributes(),
     'session.id': getSessionId(),
-    'session.sequence': getNextSequence(),
+    'session.sequence': sequence,
     'session.duration_ms': getSessionDuration(),
-    'page.url': pageUrl,
-    'page.title': pageTitle,
+    'session.sampled': isSessionSampled(),
+    'page.url': context.pageUrl,
+    'page.route': getRoute(context.pageUrl),
+    'page.title': context.pageTitle,
     ...filterUndefined(options.attributes),
   };
 
+  // Link sessions of the same browser
+  if (isVisitorEnabled()) {
+    attributes['visitor.id'] = getVisitorId();
+  }
+
+  // Tell tabs apart when they share a session
+  if (isCrossTabSession()) {
+    attributes['tab.id'] = getTabId();
+  }
+
   // Add user identity if set
   const user = getUser();
   if (user) {
@@ -137,16 +359,11 @@ export function emitSessionEvent(options: EmitEventOptions): void {
     }
   }
 
-  // Add trace context if there's an active span (auto-correlation)
-  const activeSpan = trace.getActiveSpan();
-  if (activeSpan) {
-    const spanContext = activeSpan.spanContext();
-    if (spanContext.traceId) {
-      attributes['trace.id'] = spanContext.traceId;
-    }
-    if (spanContext.spanId) {
-      attributes['span.id'] = spanContext.spanId;
-    }
+  if (context.traceId) {
+    attributes['trace.id'] = context.traceId;
+  }
+  if (context.spanId) {
+    attributes['span.id'] = context.spanId;
   }
 
   // Add trace ID if explicitly provided (for backend correlation)
@@ -154,51 +371,132 @@ export function emitSessionEvent(options: EmitEventOptions): void {
     attributes['trace.id'] = options.traceId;
   }
 
-  // Emit the log record
+  // Let middleware enrich, rewrite or drop the event before it's exported
+  runMiddleware(
+    {
+      name: options.name,
+      timestamp: context.timestamp,
+      severityNumber: options.severity ?? SeverityNumber.INFO,
+      attributes,
+    },
+    (record) => dispatchErrorRecord(options, record, dispatchSessionRecord)
+  );
+  return sequence;
+}
+
+/**
+ * Emits the log record (timestamped when it happened, as buffered and held
+ * records export later), scrubbing PII before it can reach the buffer,
+ * exporter or observers, so middleware can't reintroduce it
+ */
+function dispatchSessionRecord(record: SessionEventRecord): void {
   const logRecord = {
-    body: options.name,
-    severityNumber: options.severity ?? SeverityNumber.INFO,
-    attributes,
+    timestamp: record.timestamp,
+    body: record.name,
+    severityNumber: record.severityNumber,
+    attributes: redactAttributes(record.attributes),
   };
 
   // Debug logging
   if (typeof console !== 'undefined') {
-    console.debug('[SessionReplay] Emitting log:', options.name, attributes['session.sequence']);
+    console.debug('[SessionReplay] Emitting log:', record.name, record.attributes['session.sequence']);
   }
 
   try {
-    logger.emit(logRecord);
+    dispatchLogRecord(logRecord);
     console.debug('[SessionReplay] logger.emit completed');
   } catch (e) {
     console.error('[SessionReplay] logger.emit error:', e);
   }
+
+  notifyObservers({ ...record, attributes: logRecord.attributes });
 }
 
 /**
- * Convenience function for emitting click events
+ * Emitter returned by defineEvent
+ */
+export interface TypedEvent<Attrs> {
+  (attributes: Attrs, options?: { traceId?: string }): void;
+  /** Event name (becomes the log body) */
+  readonly eventName: string;
+}
+
+/**
+ * Defines a custom event and returns a typed emitter for it. The schema
+ * is registered so that debug mode can validate every emission, including
+ * ones made through emitSessionEvent.
+ *
+ * @param name - Event name, e.g. checkout.coupon_applied
+ * @param schema - Category, optional action and severity, and attribute schema
+ * @returns Function that emits the event with type-checked attributes
+ */
+export function defineEvent<Attrs extends EventAttributes<Attrs>>(
+  name: string,
+  schema: EventSchema<Attrs>
+): TypedEvent<Attrs> {
+  registerEventSchema(name, schema as unknown as EventSchema);
+
+  const emit = (attributes: Attrs, options: { traceId?: string } = {}): void => {
+    emitSessionEvent({
+      name,
+      severity: schema.severity,
+      traceId: options.traceId,
+      attributes: {
+        'event.category': schema.category,
+        ...(schema.action ? { 'event.action': schema.action } : {}),
+        ...(attributes as Partial<SessionEventAttributes>),
+      },
+    });
+  };
+  return Object.assign(emit, { eventName: name });
+}
+
+/**
+ * Attributes of user.click events
+ */
+export interface ClickEventAttributes {
+  'target.semantic_name': string;
+  'target.element': string;
+  'target.id'?: string;
+  'target.classes'?: string;
+  'target.component'?: string;
+  [key: `target.data.${string}`]: string | undefined;
+}
+
+const clickEvent = defineEvent<ClickEventAttributes>('user.click', {
+  category: 'user.interaction',
+  action: 'click',
+  attributes: {
+    'target.semantic_name': { type: 'string', required: true },
+    'target.element': { type: 'string', required: true },
+    'target.id': { type: 'string' },
+    'target.classes': { type: 'string' },
+    'target.component': { type: 'string' },
+    'target.data.*': { type: 'string' },
+  },
+});
+
+/**
+ * Convenience function for emitting click events. Attributes outside
+ * ClickEventAttributes are passed through unchecked.
  */
 export function emitClickEvent(
   semanticName: string,
   element: string,
-  attributes: Partial<SessionEventAttributes> = {}
+  attributes: Partial<ClickEventAttributes> & Partial<SessionEventAttributes> = {}
 ): void {
-  emitSessionEvent({
-    name: 'user.click',
-    attributes: {
-      'event.category': 'user.interaction',
-      'event.action': 'click',
-      'target.semantic_name': semanticName,
-      'target.element': element,
-      ...attributes,
-    },
-  });
+  clickEvent({
+    'target.semantic_name': semanticName,
+    'target.element': element,
+    ...attributes,
+  } as ClickEventAttributes);
 }
 
 /**
  * Convenience function for emitting navigation events
  */
 export function emitNavigationEvent(
-  action: 'pageview' | 'hashchange' | 'popstate' | 'pushstate',
+  action: 'pageview' | 'hashchange' | 'popstate' | 'pushstate' | 'replacestate' | 'unload',
   url: string,
   attributes: Partial<SessionEventAttributes> = {}
 ): void {
@@ -213,6 +511,24 @@ export function emitNavigationEvent(
   });
 }
 
+/**
+ * Convenience function for emitting page lifecycle events
+ * (page.visible, page.hidden, page.engagement)
+ */
+export function emitPageLifecycleEvent(
+  action: 'visible' | 'hidden' | 'engagement',
+  attributes: Partial<SessionEventAttributes> = {}
+): void {
+  emitSessionEvent({
+    name: `page.${action}`,
+    attributes: {
+      'event.category': 'page.lifecycle',
+      'event.action': action,
+      ...attributes,
+    },
+  });
+}
+
 /**
  * Convenience function for emitting error events
  */
@@ -252,22 +568,67 @@ export function emitFrustrationEvent(
 }
 
 /**
- * Convenience function for emitting form events
+ * Form actions with their own event (form.<action>)
+ */
+export type FormAction = 'focus' | 'blur' | 'input' | 'submit' | 'abandon';
+
+/**
+ * Attributes of form.* events
+ */
+export interface FormEventAttributes {
+  /** Field name, or the form name for form-level actions */
+  'form.field_name': string;
+  'form.field_type'?: string;
+  'form.time_spent_ms'?: number;
+  'form.interaction_count'?: number;
+  'form.name'?: string;
+  'form.total_time_ms'?: number;
+  'form.fields_interacted'?: number;
+  'form.success'?: boolean;
+  'form.error_message'?: string;
+}
+
+const FORM_EVENT_ATTRIBUTES: AttributeSchema<FormEventAttributes> = {
+  'form.field_name': { type: 'string', required: true },
+  'form.field_type': { type: 'string' },
+  'form.time_spent_ms': { type: 'number' },
+  'form.interaction_count': { type: 'number' },
+  'form.name': { type: 'string' },
+  'form.total_time_ms': { type: 'number' },
+  'form.fields_interacted': { type: 'number' },
+  'form.success': { type: 'boolean' },
+  'form.error_message': { type: 'string' },
+};
+
+function defineFormEvent(action: FormAction): TypedEvent<FormEventAttributes> {
+  return defineEvent<FormEventAttributes>(`form.${action}`, {
+    category: 'form.interaction',
+    action,
+    attributes: FORM_EVENT_ATTRIBUTES,
+  });
+}
+
+const formEvents: Record<FormAction, TypedEvent<FormEventAttributes>> = {
+  focus: defineFormEvent('focus'),
+  blur: defineFormEvent('blur'),
+  input: defineFormEvent('input'),
+  submit: defineFormEvent('submit'),
+  abandon: defineFormEvent('abandon'),
+};
+
+/**
+ * Convenience function for emitting form events. Attributes outside
+ * FormEventAttributes are passed through unchecked.
  */
 export function emitFormEvent(
-  action: 'focus' | 'blur' | 'input' | 'submit' | 'abandon',
+  action: FormAction,
   fieldName: string,
-  attributes: Partial<SessionEventAttributes> = {}
+  attributes: Partial<FormEventAttributes> & Partial<SessionEventAttributes> = {}
 ): void {
-  emitSessionEvent({
-    name: `form.${action}`,
-    attributes: {
-      'event.category': 'form.interaction',
-      'event.action': action,
-      'form.field_name': fieldName,
-      ...attributes,
-    },
-  });
+  formEvents[action]({
+    'form.field_name': fieldName,
+    ...attributes,
+  } as FormEventAttributes);
 }
 
 /**
@@ -1,5 +1,6 @@
 import { emitFrustrationEvent, type SessionEventAttributes } from '../events';
-import { getSemanticName } from '../semantic/clicks';
+import { ClickHub, getSemanticName, type ClickContext } from '../semantic/clicks';
+import { isIgnoredElement, isMaskedElement } from '../semantic/privacy';
 
 /**
  * Event emitted when a dead click is detected
@@ -19,6 +20,8 @@ export interface DeadClickEvent {
   looksClickable?: boolean;
   /** Timestamp of the click */
   timestamp: number;
+  /** session.sequence of the user.click for this click */
+  clickSequence?: number;
 }
 
 /**
@@ -29,6 +32,8 @@ export interface DeadClickDetectorConfig {
   onDeadClick?: (event: DeadClickEvent) => void;
   /** Document to attach listeners to (default: document) */
   document?: Document;
+  /** Shared click listener (default: a hub of its own) */
+  hub?: ClickHub;
   /** Whether to emit OTLP log events (default: true) */
   emitLogs?: boolean;
   /** Whether to check parent elements for interactivity (default: true) */
@@ -43,6 +48,11 @@ export interface RecordClickOptions {
   looksClickable?: boolean;
   /** Whether to check parent elements for interactivity */
   checkParents?: boolean;
+  /**
+   * The hub's context for the click: supplies the target, the cursor
+   * check (used instead of looksClickable) and the user.click sequence
+   */
+  click?: ClickContext;
 }
 
 /** Interactive element tag names */
@@ -141,8 +151,8 @@ export class DeadClickDetector {
     emitLogs: boolean;
     checkParents: boolean;
   };
-  private enabled = false;
-  private clickHandler: ((event: MouseEvent) => void) | null = null;
+  private hub: ClickHub | null;
+  private unsubscribe: (() => void) | null = null;
 
   constructor(config: DeadClickDetectorConfig) {
     this.config = {
@@ -151,47 +161,37 @@ export class DeadClickDetector {
       emitLogs: config.emitLogs ?? true,
       checkParents: config.checkParents ?? true,
     };
+    const doc = this.config.document;
+    this.hub = config.hub ?? (doc ? new ClickHub({ document: doc }) : null);
   }
 
   /**
-   * Enables dead click detection by attaching document listeners
+   * Enables dead click detection by subscribing to document clicks
    */
   enable(): void {
-    if (this.enabled || !this.config.document) return;
-
-    this.clickHandler = (event: MouseEvent) => {
-      const target = event.target;
-      if (target instanceof Element) {
-        // Check if element looks clickable (has pointer cursor)
-        let looksClickable = false;
-        if (typeof window !== 'undefined') {
-          const style = window.getComputedStyle(target);
-          looksClickable = style.cursor === 'pointer';
-        }
-        this.recordClick(target, { looksClickable, checkParents: this.config.checkParents });
-      }
-    };
+    if (this.unsubscribe || !this.hub) return;
 
-    this.config.document.addEventListener('click', this.clickHandler, { capture: true });
-    this.enabled = true;
+    this.unsubscribe = this.hub.subscribe((click) => this.recordClick(click.element, { click }));
   }
 
   /**
    * Disables dead click detection
    */
   disable(): void {
-    if (!this.enabled || !this.clickHandler || !this.config.document) return;
-
-    this.config.document.removeEventListener('click', this.clickHandler, { capture: true });
-    this.clickHandler = null;
-    this.enabled = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
   }
 
   /**
    * Records a click and checks if it's a dead click
    */
   recordClick(element: Element, options: RecordClickOptions = {}): void {
-    const { looksClickable = false, checkParents = this.config.checkParents } = options;
+    const { click, checkParents = this.config.checkParents } = options;
+
+    // Clicks inside data-sr-ignore blocks are never reported
+    if (isIgnoredElement(element)) {
+      return;
+    }
 
     // Check if element or any parent is interactive
     let currentElement: Element | null = element;
@@ -214,12 +214,14 @@ export class DeadClickDetector {
       return;
     }
 
-    // This is a dead click
-    const deadClickEvent = this.createDeadClickEvent(element, looksClickable);
+    // This is a dead click. The cursor is only computed now, since
+    // getComputedStyle forces style recalculation
+    const looksClickable = click ? click.looksClickable() : options.looksClickable ?? false;
+    const deadClickEvent = this.createDeadClickEvent(element, looksClickable, click?.sequence);
 
     // Emit log event if configured
     if (this.config.emitLogs) {
-      const semanticName = getSemanticName(element);
+      const semanticName = click ? click.target.semanticName : getSemanticName(element);
       const attrs: Partial<SessionEventAttributes> = {
         'target.semantic_name': semanticName,
         'target.element': deadClickEvent.elementTag,
@@ -231,6 +233,9 @@ export class DeadClickDetector {
       if (deadClickEvent.looksClickable) {
         attrs['frustration.looks_clickable'] = true;
       }
+      if (deadClickEvent.clickSequence !== undefined) {
+        attrs['frustration.click_sequence'] = deadClickEvent.clickSequence;
+      }
       emitFrustrationEvent('dead_click', deadClickEvent.score, attrs);
     }
 
@@ -245,7 +250,8 @@ export class DeadClickDetector {
    */
   private createDeadClickEvent(
     element: Element,
-    looksClickable: boolean
+    looksClickable: boolean,
+    clickSequence?: number
   ): DeadClickEvent {
     const reason = getDeadClickReason(element);
 
@@ -266,11 +272,12 @@ export class DeadClickDetector {
     return {
       element,
       elementTag: element.tagName.toLowerCase(),
-      elementId: element.id || undefined,
+      elementId: isMaskedElement(element) ? undefined : element.id || undefined,
       score,
       reason,
       looksClickable: looksClickable || undefined,
       timestamp: Date.now(),
+      clickSequence,
     };
   }
 }
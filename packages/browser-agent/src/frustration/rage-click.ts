@@ -1,5 +1,6 @@
 import { emitFrustrationEvent, type SessionEventAttributes } from '../events';
-import { getSemanticName } from '../semantic/clicks';
+import { ClickHub, getSemanticName, type ClickContext } from '../semantic/clicks';
+import { isIgnoredElement, isMaskedElement } from '../semantic/privacy';
 
 /**
  * Event emitted when a rage click is detected
@@ -23,6 +24,8 @@ export interface RageClickEvent {
     element: string;
     id?: string;
   };
+  /** session.sequence of the user.click that completed the sequence */
+  clickSequence?: number;
 }
 
 /**
@@ -37,6 +40,8 @@ export interface RageClickDetectorConfig {
   timeWindowMs?: number;
   /** Document to attach listeners to (default: document) */
   document?: Document;
+  /** Shared click listener (default: a hub of its own) */
+  hub?: ClickHub;
   /** Whether to emit OTLP log events (default: true) */
   emitLogs?: boolean;
 }
@@ -44,6 +49,8 @@ export interface RageClickDetectorConfig {
 interface ClickRecord {
   timestamp: number;
   element: Element;
+  /** The hub's context, when the click came through one */
+  click?: ClickContext;
 }
 
 /**
@@ -58,8 +65,8 @@ export class RageClickDetector {
     emitLogs: boolean;
   };
   private clicksByElement: Map<string, ClickRecord[]> = new Map();
-  private enabled = false;
-  private clickHandler: ((event: MouseEvent) => void) | null = null;
+  private hub: ClickHub | null;
+  private unsubscribe: (() => void) | null = null;
 
   constructor(config: RageClickDetectorConfig) {
     this.config = {
@@ -69,40 +76,39 @@ export class RageClickDetector {
       document: config.document ?? (typeof document !== 'undefined' ? document : null as unknown as Document),
       emitLogs: config.emitLogs ?? true,
     };
+    const doc = this.config.document;
+    this.hub = config.hub ?? (doc ? new ClickHub({ document: doc }) : null);
   }
 
   /**
-   * Enables rage click detection by attaching document listeners
+   * Enables rage click detection by subscribing to document clicks
    */
   enable(): void {
-    if (this.enabled || !this.config.document) return;
+    if (this.unsubscribe || !this.hub) return;
 
-    this.clickHandler = (event: MouseEvent) => {
-      const target = event.target;
-      if (target instanceof Element) {
-        this.recordClick(target);
-      }
-    };
-
-    this.config.document.addEventListener('click', this.clickHandler, { capture: true });
-    this.enabled = true;
+    this.unsubscribe = this.hub.subscribe((click) => this.recordClick(click.element, click));
   }
 
   /**
    * Disables rage click detection
    */
   disable(): void {
-    if (!this.enabled || !this.clickHandler || !this.config.document) return;
-
-    this.config.document.removeEventListener('click', this.clickHandler, { capture: true });
-    this.clickHandler = null;
-    this.enabled = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
   }
 
   /**
    * Records a click event and checks for rage clicking
+   *
+   * @param element - The clicked element
+   * @param click - The hub's context for the click, reused for the target
    */
-  recordClick(element: Element): void {
+  recordClick(element: Element, click?: ClickContext): void {
+    // Clicks inside data-sr-ignore blocks are never counted
+    if (isIgnoredElement(element)) {
+      return;
+    }
+
     const elementId = this.getElementId(element);
     const now = Date.now();
 
@@ -114,7 +120,7 @@ export class RageClickDetector {
     }
 
     // Add new click
-    clicks.push({ timestamp: now, element });
+    clicks.push({ timestamp: now, element, click });
 
     // Remove clicks outside the time window
     const cutoff = now - this.config.timeWindowMs;
@@ -139,6 +145,9 @@ export class RageClickDetector {
             attrs['target.id'] = event.target.id;
           }
         }
+        if (event.clickSequence !== undefined) {
+          attrs['frustration.click_sequence'] = event.clickSequence;
+        }
         emitFrustrationEvent('rage_click', event.score, attrs);
       }
 
@@ -161,11 +170,11 @@ export class RageClickDetector {
     const durationMs = lastClick.timestamp - firstClick.timestamp;
     const element = lastClick.element;
 
-    // Build semantic target info
+    // Build semantic target info, reusing the hub's target when there is one
     const target = {
-      semanticName: getSemanticName(element),
+      semanticName: lastClick.click ? lastClick.click.target.semanticName : getSemanticName(element),
       element: element.tagName.toLowerCase(),
-      id: element.id || undefined,
+      id: isMaskedElement(element) ? undefined : element.id || undefined,
     };
 
     return {
@@ -176,6 +185,7 @@ export class RageClickDetector {
       timestamp: lastClick.timestamp,
       element,
       target,
+      clickSequence: lastClick.click?.sequence,
     };
   }
 
@@ -5,7 +5,14 @@
  * These events enable correlation between conversion funnels and frustration signals.
  */
 
-import { emitSessionEvent } from '../events';
+import { defineEvent } from '../events';
+import type { AttributeSchema } from '../event-registry';
+import {
+  CONTENT_ATTRIBUTES,
+  FUNNEL_ATTRIBUTES,
+  type ContentAttributes,
+  type FunnelAttributes,
+} from './schema';
 
 /**
  * Funnel stages for ecommerce
@@ -50,6 +57,159 @@ const FUNNEL_STAGE_MAP: Record<string, FunnelStage> = {
   refund: 'conversion',
 };
 
+interface ListAttributes {
+  'list.id'?: string;
+  'list.name'?: string;
+}
+
+const LIST_ATTRIBUTES: AttributeSchema<ListAttributes> = {
+  'list.id': { type: 'string' },
+  'list.name': { type: 'string' },
+};
+
+interface CheckoutAttributes {
+  'checkout.value': number;
+  'checkout.currency': string;
+  'checkout.coupon'?: string;
+}
+
+const CHECKOUT_ATTRIBUTES: AttributeSchema<CheckoutAttributes> = {
+  'checkout.value': { type: 'number', required: true },
+  'checkout.currency': { type: 'string', required: true },
+  'checkout.coupon': { type: 'string' },
+};
+
+interface TransactionAttributes {
+  'transaction.id': string;
+  'transaction.value': number;
+  'transaction.currency': string;
+  'transaction.item_ids'?: string;
+  'transaction.items_count'?: number;
+  'transaction.coupon'?: string;
+  'transaction.shipping'?: number;
+  'transaction.tax'?: number;
+}
+
+const TRANSACTION_ATTRIBUTES: AttributeSchema<TransactionAttributes> = {
+  'transaction.id': { type: 'string', required: true },
+  'transaction.value': { type: 'number', required: true },
+  'transaction.currency': { type: 'string', required: true },
+  'transaction.item_ids': { type: 'string' },
+  'transaction.items_count': { type: 'number' },
+  'transaction.coupon': { type: 'string' },
+  'transaction.shipping': { type: 'number' },
+  'transaction.tax': { type: 'number' },
+};
+
+const viewContentEvent = defineEvent<FunnelAttributes & ContentAttributes>('funnel.view_content', {
+  category: 'funnel.ecommerce',
+  attributes: { ...FUNNEL_ATTRIBUTES, ...CONTENT_ATTRIBUTES },
+});
+
+const viewItemListEvent = defineEvent<
+  FunnelAttributes & ListAttributes & { 'items.count': number; 'items.ids': string }
+>('funnel.view_item_list', {
+  category: 'funnel.ecommerce',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    ...LIST_ATTRIBUTES,
+    'items.count': { type: 'number', required: true },
+    'items.ids': { type: 'string', required: true },
+  },
+});
+
+const searchEvent = defineEvent<
+  FunnelAttributes & { 'search.term': string; 'search.category'?: string }
+>('funnel.search', {
+  category: 'funnel.ecommerce',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'search.term': { type: 'string', required: true },
+    'search.category': { type: 'string' },
+  },
+});
+
+const selectItemEvent = defineEvent<
+  FunnelAttributes & ContentAttributes & ListAttributes & { 'item.index'?: number }
+>('funnel.select_item', {
+  category: 'funnel.ecommerce',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    ...CONTENT_ATTRIBUTES,
+    ...LIST_ATTRIBUTES,
+    'item.index': { type: 'number' },
+  },
+});
+
+const addToWishlistEvent = defineEvent<FunnelAttributes & ContentAttributes>('funnel.add_to_wishlist', {
+  category: 'funnel.ecommerce',
+  attributes: { ...FUNNEL_ATTRIBUTES, ...CONTENT_ATTRIBUTES },
+});
+
+const addToCartEvent = defineEvent<FunnelAttributes & ContentAttributes>('funnel.add_to_cart', {
+  category: 'funnel.ecommerce',
+  attributes: { ...FUNNEL_ATTRIBUTES, ...CONTENT_ATTRIBUTES },
+});
+
+const removeFromCartEvent = defineEvent<FunnelAttributes & ContentAttributes>('funnel.remove_from_cart', {
+  category: 'funnel.ecommerce',
+  attributes: { ...FUNNEL_ATTRIBUTES, ...CONTENT_ATTRIBUTES },
+});
+
+const viewCartEvent = defineEvent<
+  FunnelAttributes & {
+    'cart.value': number;
+    'cart.currency': string;
+    'cart.items_count': number;
+    'cart.item_ids': string;
+  }
+>('funnel.view_cart', {
+  category: 'funnel.ecommerce',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'cart.value': { type: 'number', required: true },
+    'cart.currency': { type: 'string', required: true },
+    'cart.items_count': { type: 'number', required: true },
+    'cart.item_ids': { type: 'string', required: true },
+  },
+});
+
+const initiateCheckoutEvent = defineEvent<
+  FunnelAttributes & CheckoutAttributes & { 'checkout.items_count': number; 'checkout.item_ids'?: string }
+>('funnel.initiate_checkout', {
+  category: 'funnel.ecommerce',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    ...CHECKOUT_ATTRIBUTES,
+    'checkout.items_count': { type: 'number', required: true },
+    'checkout.item_ids': { type: 'string' },
+  },
+});
+
+const addShippingInfoEvent = defineEvent<
+  FunnelAttributes & CheckoutAttributes & { 'shipping.tier'?: string }
+>('funnel.add_shipping_info', {
+  category: 'funnel.ecommerce',
+  attributes: { ...FUNNEL_ATTRIBUTES, ...CHECKOUT_ATTRIBUTES, 'shipping.tier': { type: 'string' } },
+});
+
+const addPaymentInfoEvent = defineEvent<
+  FunnelAttributes & CheckoutAttributes & { 'payment.type'?: string }
+>('funnel.add_payment_info', {
+  category: 'funnel.ecommerce',
+  attributes: { ...FUNNEL_ATTRIBUTES, ...CHECKOUT_ATTRIBUTES, 'payment.type': { type: 'string' } },
+});
+
+const purchaseEvent = defineEvent<FunnelAttributes & TransactionAttributes>('funnel.purchase', {
+  category: 'funnel.ecommerce',
+  attributes: { ...FUNNEL_ATTRIBUTES, ...TRANSACTION_ATTRIBUTES },
+});
+
+const refundEvent = defineEvent<FunnelAttributes & TransactionAttributes>('funnel.refund', {
+  category: 'funnel.ecommerce',
+  attributes: { ...FUNNEL_ATTRIBUTES, ...TRANSACTION_ATTRIBUTES },
+});
+
 /**
  * Track when a user views content/product
  * Meta: ViewContent | GA4: view_item
@@ -62,21 +222,17 @@ export function trackViewContent(params: {
   value?: number;
   currency?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.view_content',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'view_content',
-      'funnel.stage': FUNNEL_STAGE_MAP['view_content'],
-      'content.id': params.contentId,
-      'content.name': params.contentName,
-      'content.type': params.contentType,
-      'content.category': params.contentCategory,
-      'content.value': params.value,
-      'content.currency': params.currency,
-      'meta.event': 'ViewContent',
-      'ga4.event': 'view_item',
-    },
+  viewContentEvent({
+    'funnel.event': 'view_content',
+    'funnel.stage': FUNNEL_STAGE_MAP['view_content'],
+    'content.id': params.contentId,
+    'content.name': params.contentName,
+    'content.type': params.contentType,
+    'content.category': params.contentCategory,
+    'content.value': params.value,
+    'content.currency': params.currency,
+    'meta.event': 'ViewContent',
+    'ga4.event': 'view_item',
   });
 }
 
@@ -89,18 +245,14 @@ export function trackViewItemList(params: {
   listName?: string;
   items: ContentItem[];
 }): void {
-  emitSessionEvent({
-    name: 'funnel.view_item_list',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'view_item_list',
-      'funnel.stage': FUNNEL_STAGE_MAP['view_item_list'],
-      'list.id': params.listId,
-      'list.name': params.listName,
-      'items.count': params.items.length,
-      'items.ids': params.items.map(i => i.id).join(','),
-      'ga4.event': 'view_item_list',
-    },
+  viewItemListEvent({
+    'funnel.event': 'view_item_list',
+    'funnel.stage': FUNNEL_STAGE_MAP['view_item_list'],
+    'list.id': params.listId,
+    'list.name': params.listName,
+    'items.count': params.items.length,
+    'items.ids': params.items.map(i => i.id).join(','),
+    'ga4.event': 'view_item_list',
   });
 }
 
@@ -112,17 +264,13 @@ export function trackSearch(params: {
   searchTerm: string;
   searchCategory?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.search',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'search',
-      'funnel.stage': FUNNEL_STAGE_MAP['search'],
-      'search.term': params.searchTerm,
-      'search.category': params.searchCategory,
-      'meta.event': 'Search',
-      'ga4.event': 'search',
-    },
+  searchEvent({
+    'funnel.event': 'search',
+    'funnel.stage': FUNNEL_STAGE_MAP['search'],
+    'search.term': params.searchTerm,
+    'search.category': params.searchCategory,
+    'meta.event': 'Search',
+    'ga4.event': 'search',
   });
 }
 
@@ -140,22 +288,18 @@ export function trackSelectItem(params: {
   value?: number;
   currency?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.select_item',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'select_item',
-      'funnel.stage': FUNNEL_STAGE_MAP['select_item'],
-      'content.id': params.contentId,
-      'content.name': params.contentName,
-      'content.category': params.contentCategory,
-      'list.id': params.listId,
-      'list.name': params.listName,
-      'item.index': params.index,
-      'content.value': params.value,
-      'content.currency': params.currency,
-      'ga4.event': 'select_item',
-    },
+  selectItemEvent({
+    'funnel.event': 'select_item',
+    'funnel.stage': FUNNEL_STAGE_MAP['select_item'],
+    'content.id': params.contentId,
+    'content.name': params.contentName,
+    'content.category': params.contentCategory,
+    'list.id': params.listId,
+    'list.name': params.listName,
+    'item.index': params.index,
+    'content.value': params.value,
+    'content.currency': params.currency,
+    'ga4.event': 'select_item',
   });
 }
 
@@ -170,20 +314,16 @@ export function trackAddToWishlist(params: {
   value?: number;
   currency?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.add_to_wishlist',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'add_to_wishlist',
-      'funnel.stage': FUNNEL_STAGE_MAP['add_to_wishlist'],
-      'content.id': params.contentId,
-      'content.name': params.contentName,
-      'content.category': params.contentCategory,
-      'content.value': params.value,
-      'content.currency': params.currency,
-      'meta.event': 'AddToWishlist',
-      'ga4.event': 'add_to_wishlist',
-    },
+  addToWishlistEvent({
+    'funnel.event': 'add_to_wishlist',
+    'funnel.stage': FUNNEL_STAGE_MAP['add_to_wishlist'],
+    'content.id': params.contentId,
+    'content.name': params.contentName,
+    'content.category': params.contentCategory,
+    'content.value': params.value,
+    'content.currency': params.currency,
+    'meta.event': 'AddToWishlist',
+    'ga4.event': 'add_to_wishlist',
   });
 }
 
@@ -199,21 +339,17 @@ export function trackAddToCart(params: {
   currency: string;
   quantity?: number;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.add_to_cart',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'add_to_cart',
-      'funnel.stage': FUNNEL_STAGE_MAP['add_to_cart'],
-      'content.id': params.contentId,
-      'content.name': params.contentName,
-      'content.category': params.contentCategory,
-      'content.value': params.value,
-      'content.currency': params.currency,
-      'content.quantity': params.quantity ?? 1,
-      'meta.event': 'AddToCart',
-      'ga4.event': 'add_to_cart',
-    },
+  addToCartEvent({
+    'funnel.event': 'add_to_cart',
+    'funnel.stage': FUNNEL_STAGE_MAP['add_to_cart'],
+    'content.id': params.contentId,
+    'content.name': params.contentName,
+    'content.category': params.contentCategory,
+    'content.value': params.value,
+    'content.currency': params.currency,
+    'content.quantity': params.quantity ?? 1,
+    'meta.event': 'AddToCart',
+    'ga4.event': 'add_to_cart',
   });
 }
 
@@ -228,19 +364,15 @@ export function trackRemoveFromCart(params: {
   currency: string;
   quantity?: number;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.remove_from_cart',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'remove_from_cart',
-      'funnel.stage': FUNNEL_STAGE_MAP['remove_from_cart'],
-      'content.id': params.contentId,
-      'content.name': params.contentName,
-      'content.value': params.value,
-      'content.currency': params.currency,
-      'content.quantity': params.quantity ?? 1,
-      'ga4.event': 'remove_from_cart',
-    },
+  removeFromCartEvent({
+    'funnel.event': 'remove_from_cart',
+    'funnel.stage': FUNNEL_STAGE_MAP['remove_from_cart'],
+    'content.id': params.contentId,
+    'content.name': params.contentName,
+    'content.value': params.value,
+    'content.currency': params.currency,
+    'content.quantity': params.quantity ?? 1,
+    'ga4.event': 'remove_from_cart',
   });
 }
 
@@ -253,18 +385,14 @@ export function trackViewCart(params: {
   currency: string;
   items: ContentItem[];
 }): void {
-  emitSessionEvent({
-    name: 'funnel.view_cart',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'view_cart',
-      'funnel.stage': FUNNEL_STAGE_MAP['view_cart'],
-      'cart.value': params.value,
-      'cart.currency': params.currency,
-      'cart.items_count': params.items.length,
-      'cart.item_ids': params.items.map(i => i.id).join(','),
-      'ga4.event': 'view_cart',
-    },
+  viewCartEvent({
+    'funnel.event': 'view_cart',
+    'funnel.stage': FUNNEL_STAGE_MAP['view_cart'],
+    'cart.value': params.value,
+    'cart.currency': params.currency,
+    'cart.items_count': params.items.length,
+    'cart.item_ids': params.items.map(i => i.id).join(','),
+    'ga4.event': 'view_cart',
   });
 }
 
@@ -279,20 +407,16 @@ export function trackInitiateCheckout(params: {
   contentIds?: string[];
   coupon?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.initiate_checkout',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'initiate_checkout',
-      'funnel.stage': FUNNEL_STAGE_MAP['begin_checkout'],
-      'checkout.value': params.value,
-      'checkout.currency': params.currency,
-      'checkout.items_count': params.numItems,
-      'checkout.item_ids': params.contentIds?.join(','),
-      'checkout.coupon': params.coupon,
-      'meta.event': 'InitiateCheckout',
-      'ga4.event': 'begin_checkout',
-    },
+  initiateCheckoutEvent({
+    'funnel.event': 'initiate_checkout',
+    'funnel.stage': FUNNEL_STAGE_MAP['begin_checkout'],
+    'checkout.value': params.value,
+    'checkout.currency': params.currency,
+    'checkout.items_count': params.numItems,
+    'checkout.item_ids': params.contentIds?.join(','),
+    'checkout.coupon': params.coupon,
+    'meta.event': 'InitiateCheckout',
+    'ga4.event': 'begin_checkout',
   });
 }
 
@@ -306,18 +430,14 @@ export function trackAddShippingInfo(params: {
   shippingTier?: string;
   coupon?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.add_shipping_info',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'add_shipping_info',
-      'funnel.stage': FUNNEL_STAGE_MAP['add_shipping_info'],
-      'checkout.value': params.value,
-      'checkout.currency': params.currency,
-      'shipping.tier': params.shippingTier,
-      'checkout.coupon': params.coupon,
-      'ga4.event': 'add_shipping_info',
-    },
+  addShippingInfoEvent({
+    'funnel.event': 'add_shipping_info',
+    'funnel.stage': FUNNEL_STAGE_MAP['add_shipping_info'],
+    'checkout.value': params.value,
+    'checkout.currency': params.currency,
+    'shipping.tier': params.shippingTier,
+    'checkout.coupon': params.coupon,
+    'ga4.event': 'add_shipping_info',
   });
 }
 
@@ -331,19 +451,15 @@ export function trackAddPaymentInfo(params: {
   paymentType?: string;
   coupon?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.add_payment_info',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'add_payment_info',
-      'funnel.stage': FUNNEL_STAGE_MAP['add_payment_info'],
-      'checkout.value': params.value,
-      'checkout.currency': params.currency,
-      'payment.type': params.paymentType,
-      'checkout.coupon': params.coupon,
-      'meta.event': 'AddPaymentInfo',
-      'ga4.event': 'add_payment_info',
-    },
+  addPaymentInfoEvent({
+    'funnel.event': 'add_payment_info',
+    'funnel.stage': FUNNEL_STAGE_MAP['add_payment_info'],
+    'checkout.value': params.value,
+    'checkout.currency': params.currency,
+    'payment.type': params.paymentType,
+    'checkout.coupon': params.coupon,
+    'meta.event': 'AddPaymentInfo',
+    'ga4.event': 'add_payment_info',
   });
 }
 
@@ -361,23 +477,19 @@ export function trackPurchase(params: {
   shipping?: number;
   tax?: number;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.purchase',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'purchase',
-      'funnel.stage': FUNNEL_STAGE_MAP['purchase'],
-      'transaction.id': params.transactionId,
-      'transaction.value': params.value,
-      'transaction.currency': params.currency,
-      'transaction.item_ids': params.contentIds?.join(','),
-      'transaction.items_count': params.numItems,
-      'transaction.coupon': params.coupon,
-      'transaction.shipping': params.shipping,
-      'transaction.tax': params.tax,
-      'meta.event': 'Purchase',
-      'ga4.event': 'purchase',
-    },
+  purchaseEvent({
+    'funnel.event': 'purchase',
+    'funnel.stage': FUNNEL_STAGE_MAP['purchase'],
+    'transaction.id': params.transactionId,
+    'transaction.value': params.value,
+    'transaction.currency': params.currency,
+    'transaction.item_ids': params.contentIds?.join(','),
+    'transaction.items_count': params.numItems,
+    'transaction.coupon': params.coupon,
+    'transaction.shipping': params.shipping,
+    'transaction.tax': params.tax,
+    'meta.event': 'Purchase',
+    'ga4.event': 'purchase',
   });
 }
 
@@ -391,17 +503,13 @@ export function trackRefund(params: {
   currency: string;
   contentIds?: string[];
 }): void {
-  emitSessionEvent({
-    name: 'funnel.refund',
-    attributes: {
-      'event.category': 'funnel.ecommerce',
-      'funnel.event': 'refund',
-      'funnel.stage': FUNNEL_STAGE_MAP['refund'],
-      'transaction.id': params.transactionId,
-      'transaction.value': params.value,
-      'transaction.currency': params.currency,
-      'transaction.item_ids': params.contentIds?.join(','),
-      'ga4.event': 'refund',
-    },
+  refundEvent({
+    'funnel.event': 'refund',
+    'funnel.stage': FUNNEL_STAGE_MAP['refund'],
+    'transaction.id': params.transactionId,
+    'transaction.value': params.value,
+    'transaction.currency': params.currency,
+    'transaction.item_ids': params.contentIds?.join(','),
+    'ga4.event': 'refund',
   });
 }
@@ -5,7 +5,158 @@
  * These events track user engagement through the lead gen funnel.
  */
 
-import { emitSessionEvent } from '../events';
+import { defineEvent } from '../events';
+import {
+  CONTENT_ATTRIBUTES,
+  FUNNEL_ATTRIBUTES,
+  type ContentAttributes,
+  type FunnelAttributes,
+} from './schema';
+
+const leadEvent = defineEvent<
+  FunnelAttributes & {
+    'lead.value'?: number;
+    'lead.currency'?: string;
+    'lead.type'?: string;
+    'lead.source'?: string;
+  }
+>('funnel.lead', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'lead.value': { type: 'number' },
+    'lead.currency': { type: 'string' },
+    'lead.type': { type: 'string' },
+    'lead.source': { type: 'string' },
+  },
+});
+
+const completeRegistrationEvent = defineEvent<
+  FunnelAttributes & {
+    'registration.method'?: string;
+    'registration.value'?: number;
+    'registration.currency'?: string;
+    'registration.status'?: string;
+  }
+>('funnel.complete_registration', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'registration.method': { type: 'string' },
+    'registration.value': { type: 'number' },
+    'registration.currency': { type: 'string' },
+    'registration.status': { type: 'string' },
+  },
+});
+
+const contactEvent = defineEvent<
+  FunnelAttributes & { 'contact.method'?: string; 'contact.subject'?: string }
+>('funnel.contact', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'contact.method': { type: 'string' },
+    'contact.subject': { type: 'string' },
+  },
+});
+
+const startTrialEvent = defineEvent<
+  FunnelAttributes & {
+    'trial.type'?: string;
+    'trial.value'?: number;
+    'trial.currency'?: string;
+    'trial.predicted_ltv'?: number;
+  }
+>('funnel.start_trial', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'trial.type': { type: 'string' },
+    'trial.value': { type: 'number' },
+    'trial.currency': { type: 'string' },
+    'trial.predicted_ltv': { type: 'number' },
+  },
+});
+
+const submitApplicationEvent = defineEvent<
+  FunnelAttributes & { 'application.type'?: string; 'application.id'?: string }
+>('funnel.submit_application', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'application.type': { type: 'string' },
+    'application.id': { type: 'string' },
+  },
+});
+
+const subscribeEvent = defineEvent<
+  FunnelAttributes & {
+    'subscription.type'?: string;
+    'subscription.value'?: number;
+    'subscription.currency'?: string;
+    'subscription.predicted_ltv'?: number;
+  }
+>('funnel.subscribe', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'subscription.type': { type: 'string' },
+    'subscription.value': { type: 'number' },
+    'subscription.currency': { type: 'string' },
+    'subscription.predicted_ltv': { type: 'number' },
+  },
+});
+
+const scheduleEvent = defineEvent<
+  FunnelAttributes & { 'appointment.type'?: string; 'appointment.date'?: string }
+>('funnel.schedule', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'appointment.type': { type: 'string' },
+    'appointment.date': { type: 'string' },
+  },
+});
+
+const findLocationEvent = defineEvent<
+  FunnelAttributes & { 'location.search_query'?: string; 'location.found'?: string }
+>('funnel.find_location', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'location.search_query': { type: 'string' },
+    'location.found': { type: 'string' },
+  },
+});
+
+const donateEvent = defineEvent<
+  FunnelAttributes & {
+    'donation.value': number;
+    'donation.currency': string;
+    'donation.type'?: string;
+    'donation.campaign_id'?: string;
+  }
+>('funnel.donate', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    'donation.value': { type: 'number', required: true },
+    'donation.currency': { type: 'string', required: true },
+    'donation.type': { type: 'string' },
+    'donation.campaign_id': { type: 'string' },
+  },
+});
+
+const customizeProductEvent = defineEvent<
+  FunnelAttributes & ContentAttributes & { 'customization.options'?: string }
+>('funnel.customize_product', {
+  category: 'funnel.lead',
+  attributes: {
+    ...FUNNEL_ATTRIBUTES,
+    ...CONTENT_ATTRIBUTES,
+    'customization.options': { type: 'string' },
+  },
+});
 
 /**
  * Track when a user submits a lead form
@@ -17,19 +168,15 @@ export function trackLead(params: {
   leadType?: string;
   leadSource?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.lead',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'lead',
-      'funnel.stage': 'lead',
-      'lead.value': params.value,
-      'lead.currency': params.currency,
-      'lead.type': params.leadType,
-      'lead.source': params.leadSource,
-      'meta.event': 'Lead',
-      'ga4.event': 'generate_lead',
-    },
+  leadEvent({
+    'funnel.event': 'lead',
+    'funnel.stage': 'lead',
+    'lead.value': params.value,
+    'lead.currency': params.currency,
+    'lead.type': params.leadType,
+    'lead.source': params.leadSource,
+    'meta.event': 'Lead',
+    'ga4.event': 'generate_lead',
   });
 }
 
@@ -43,19 +190,15 @@ export function trackCompleteRegistration(params: {
   currency?: string;
   status?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.complete_registration',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'complete_registration',
-      'funnel.stage': 'registration',
-      'registration.method': params.method,
-      'registration.value': params.value,
-      'registration.currency': params.currency,
-      'registration.status': params.status,
-      'meta.event': 'CompleteRegistration',
-      'ga4.event': 'sign_up',
-    },
+  completeRegistrationEvent({
+    'funnel.event': 'complete_registration',
+    'funnel.stage': 'registration',
+    'registration.method': params.method,
+    'registration.value': params.value,
+    'registration.currency': params.currency,
+    'registration.status': params.status,
+    'meta.event': 'CompleteRegistration',
+    'ga4.event': 'sign_up',
   });
 }
 
@@ -67,16 +210,12 @@ export function trackContact(params: {
   contactMethod?: string;
   subject?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.contact',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'contact',
-      'funnel.stage': 'contact',
-      'contact.method': params.contactMethod,
-      'contact.subject': params.subject,
-      'meta.event': 'Contact',
-    },
+  contactEvent({
+    'funnel.event': 'contact',
+    'funnel.stage': 'contact',
+    'contact.method': params.contactMethod,
+    'contact.subject': params.subject,
+    'meta.event': 'Contact',
   });
 }
 
@@ -90,18 +229,14 @@ export function trackStartTrial(params: {
   currency?: string;
   predictedLtv?: number;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.start_trial',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'start_trial',
-      'funnel.stage': 'trial',
-      'trial.type': params.trialType,
-      'trial.value': params.value,
-      'trial.currency': params.currency,
-      'trial.predicted_ltv': params.predictedLtv,
-      'meta.event': 'StartTrial',
-    },
+  startTrialEvent({
+    'funnel.event': 'start_trial',
+    'funnel.stage': 'trial',
+    'trial.type': params.trialType,
+    'trial.value': params.value,
+    'trial.currency': params.currency,
+    'trial.predicted_ltv': params.predictedLtv,
+    'meta.event': 'StartTrial',
   });
 }
 
@@ -113,16 +248,12 @@ export function trackSubmitApplication(params: {
   applicationType?: string;
   applicationId?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.submit_application',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'submit_application',
-      'funnel.stage': 'application',
-      'application.type': params.applicationType,
-      'application.id': params.applicationId,
-      'meta.event': 'SubmitApplication',
-    },
+  submitApplicationEvent({
+    'funnel.event': 'submit_application',
+    'funnel.stage': 'application',
+    'application.type': params.applicationType,
+    'application.id': params.applicationId,
+    'meta.event': 'SubmitApplication',
   });
 }
 
@@ -136,18 +267,14 @@ export function trackSubscribe(params: {
   currency?: string;
   predictedLtv?: number;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.subscribe',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'subscribe',
-      'funnel.stage': 'subscription',
-      'subscription.type': params.subscriptionType,
-      'subscription.value': params.value,
-      'subscription.currency': params.currency,
-      'subscription.predicted_ltv': params.predictedLtv,
-      'meta.event': 'Subscribe',
-    },
+  subscribeEvent({
+    'funnel.event': 'subscribe',
+    'funnel.stage': 'subscription',
+    'subscription.type': params.subscriptionType,
+    'subscription.value': params.value,
+    'subscription.currency': params.currency,
+    'subscription.predicted_ltv': params.predictedLtv,
+    'meta.event': 'Subscribe',
   });
 }
 
@@ -159,16 +286,12 @@ export function trackSchedule(params: {
   appointmentType?: string;
   appointmentDate?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.schedule',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'schedule',
-      'funnel.stage': 'schedule',
-      'appointment.type': params.appointmentType,
-      'appointment.date': params.appointmentDate,
-      'meta.event': 'Schedule',
-    },
+  scheduleEvent({
+    'funnel.event': 'schedule',
+    'funnel.stage': 'schedule',
+    'appointment.type': params.appointmentType,
+    'appointment.date': params.appointmentDate,
+    'meta.event': 'Schedule',
   });
 }
 
@@ -180,16 +303,12 @@ export function trackFindLocation(params: {
   searchQuery?: string;
   locationFound?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.find_location',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'find_location',
-      'funnel.stage': 'location',
-      'location.search_query': params.searchQuery,
-      'location.found': params.locationFound,
-      'meta.event': 'FindLocation',
-    },
+  findLocationEvent({
+    'funnel.event': 'find_location',
+    'funnel.stage': 'location',
+    'location.search_query': params.searchQuery,
+    'location.found': params.locationFound,
+    'meta.event': 'FindLocation',
   });
 }
 
@@ -203,18 +322,14 @@ export function trackDonate(params: {
   donationType?: string;
   campaignId?: string;
 }): void {
-  emitSessionEvent({
-    name: 'funnel.donate',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'donate',
-      'funnel.stage': 'donation',
-      'donation.value': params.value,
-      'donation.currency': params.currency,
-      'donation.type': params.donationType,
-      'donation.campaign_id': params.campaignId,
-      'meta.event': 'Donate',
-    },
+  donateEvent({
+    'funnel.event': 'donate',
+    'funnel.stage': 'donation',
+    'donation.value': params.value,
+    'donation.currency': params.currency,
+    'donation.type': params.donationType,
+    'donation.campaign_id': params.campaignId,
+    'meta.event': 'Donate',
   });
 }
 
@@ -227,16 +342,12 @@ export function trackCustomizeProduct(params: {
   contentName?: string;
   customizations?: string[];
 }): void {
-  emitSessionEvent({
-    name: 'funnel.customize_product',
-    attributes: {
-      'event.category': 'funnel.lead',
-      'funnel.event': 'customize_product',
-      'funnel.stage': 'customization',
-      'content.id': params.contentId,
-      'content.name': params.contentName,
-      'customization.options': params.customizations?.join(','),
-      'meta.event': 'CustomizeProduct',
-    },
+  customizeProductEvent({
+    'funnel.event': 'customize_product',
+    'funnel.stage': 'customization',
+    'content.id': params.contentId,
+    'content.name': params.contentName,
+    'customization.options': params.customizations?.join(','),
+    'meta.event': 'CustomizeProduct',
   });
 }
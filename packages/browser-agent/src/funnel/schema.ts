@@ -0,0 +1,47 @@
+/**
+ * Attribute schemas shared by funnel events
+ */
+
+import type { AttributeSchema } from '../event-registry';
+
+/**
+ * Attributes on every funnel event
+ */
+export interface FunnelAttributes {
+  'funnel.event': string;
+  'funnel.stage': string;
+  /** Matching Meta Pixel standard event, if any */
+  'meta.event'?: string;
+  /** Matching GA4 recommended event, if any */
+  'ga4.event'?: string;
+}
+
+export const FUNNEL_ATTRIBUTES: AttributeSchema<FunnelAttributes> = {
+  'funnel.event': { type: 'string', required: true },
+  'funnel.stage': { type: 'string', required: true },
+  'meta.event': { type: 'string' },
+  'ga4.event': { type: 'string' },
+};
+
+/**
+ * Attributes describing a product or piece of content
+ */
+export interface ContentAttributes {
+  'content.id': string;
+  'content.name'?: string;
+  'content.type'?: string;
+  'content.category'?: string;
+  'content.value'?: number;
+  'content.currency'?: string;
+  'content.quantity'?: number;
+}
+
+export const CONTENT_ATTRIBUTES: AttributeSchema<ContentAttributes> = {
+  'content.id': { type: 'string', required: true },
+  'content.name': { type: 'string' },
+  'content.type': { type: 'string' },
+  'content.category': { type: 'string' },
+  'content.value': { type: 'number' },
+  'content.currency': { type: 'string' },
+  'content.quantity': { type: 'number' },
+};
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import {
+  getGlobalAttributes,
+  registerAttributeProvider,
+  removeGlobalAttribute,
+  setGlobalAttributes,
+} from './global-attributes';
+import { getSessionId, purgeSession, resetSession, rotateSession } from './session';
+import { emitSessionEvent } from './events';
+
+function emitClick(attributes: Record<string, string> = {}): Record<string, unknown> {
+  emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction', ...attributes } });
+  return emitted[emitted.length - 1].attributes ?? {};
+}
+
+describe('global attributes', () => {
+  const unregister: Array<() => void> = [];
+
+  beforeEach(() => {
+    emitted.length = 0;
+    purgeSession();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unregister.splice(0).forEach((fn) => fn());
+    vi.restoreAllMocks();
+  });
+
+  it('should be added to every event', () => {
+    setGlobalAttributes({ 'tenant.id': 'acme', 'app.version': '2.3.0' });
+
+    expect(emitClick()).toMatchObject({ 'tenant.id': 'acme', 'app.version': '2.3.0' });
+    expect(emitClick()).toMatchObject({ 'tenant.id': 'acme', 'app.version': '2.3.0' });
+  });
+
+  it('should merge with earlier calls', () => {
+    setGlobalAttributes({ 'tenant.id': 'acme' });
+    setGlobalAttributes({ 'plan.tier': 'pro' });
+
+    expect(getGlobalAttributes()).toEqual({ 'tenant.id': 'acme', 'plan.tier': 'pro' });
+  });
+
+  it('should be removable', () => {
+    setGlobalAttributes({ 'tenant.id': 'acme', 'plan.tier': 'pro' });
+
+    removeGlobalAttribute('plan.tier');
+    setGlobalAttributes({ 'tenant.id': undefined });
+
+    expect(emitClick()).not.toHaveProperty('plan.tier');
+    expect(getGlobalAttributes()).toEqual({});
+  });
+
+  it('should lose to attributes passed to the emit call', () => {
+    setGlobalAttributes({ 'app.version': '2.3.0' });
+
+    expect(emitClick({ 'app.version': '2.4.0-beta' })['app.version']).toBe('2.4.0-beta');
+  });
+
+  it('should not overwrite session fields', () => {
+    setGlobalAttributes({ 'session.id': 'spoofed' });
+
+    expect(emitClick()['session.id']).toBe(getSessionId());
+  });
+
+  it('should survive a reload', async () => {
+    setGlobalAttributes({ 'tenant.id': 'acme' });
+
+    vi.resetModules();
+    const reloaded = await import('./global-attributes');
+
+    expect(reloaded.getGlobalAttributes()).toEqual({ 'tenant.id': 'acme' });
+  });
+
+  it('should carry over to the next session', () => {
+    setGlobalAttributes({ 'tenant.id': 'acme' });
+
+    rotateSession();
+
+    expect(getGlobalAttributes()).toEqual({ 'tenant.id': 'acme' });
+  });
+
+  it('should carry over when the session is reset', () => {
+    setGlobalAttributes({ 'tenant.id': 'acme' });
+    const previousId = getSessionId();
+
+    resetSession();
+
+    expect(getSessionId()).not.toBe(previousId);
+    expect(getGlobalAttributes()).toEqual({ 'tenant.id': 'acme' });
+  });
+
+  it('should be cleared by purgeSession', () => {
+    setGlobalAttributes({ 'tenant.id': 'acme' });
+
+    purgeSession();
+
+    expect(getGlobalAttributes()).toEqual({});
+  });
+
+  describe('providers', () => {
+    it('should be called at emit time', () => {
+      let variant = 'a';
+      unregister.push(registerAttributeProvider(() => ({ 'experiment.checkout': variant })));
+
+      const first = emitClick();
+      variant = 'b';
+      const second = emitClick();
+
+      expect(first['experiment.checkout']).toBe('a');
+      expect(second['experiment.checkout']).toBe('b');
+    });
+
+    it('should win over static attributes', () => {
+      setGlobalAttributes({ 'feature.dark_mode': false });
+      unregister.push(registerAttributeProvider(() => ({ 'feature.dark_mode': true })));
+
+      expect(emitClick()['feature.dark_mode']).toBe(true);
+    });
+
+    it('should leave out undefined values', () => {
+      unregister.push(registerAttributeProvider(() => ({ 'org.id': undefined })));
+
+      expect(emitClick()).not.toHaveProperty('org.id');
+    });
+
+    it('should skip a provider that throws', () => {
+      unregister.push(
+        registerAttributeProvider(() => {
+          throw new Error('flags not loaded');
+        }),
+        registerAttributeProvider(() => ({ 'plan.tier': 'pro' }))
+      );
+
+      expect(emitClick()['plan.tier']).toBe('pro');
+    });
+
+    it('should stop after unregistering', () => {
+      const stop = registerAttributeProvider(() => ({ 'plan.tier': 'pro' }));
+      stop();
+
+      expect(emitClick()).not.toHaveProperty('plan.tier');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Global attributes
+ *
+ * Context added to every session event without passing it to each emit
+ * call: static values (tenant, app version, plan) stored with the session
+ * so they survive reloads, and providers computed lazily at emit time
+ * (feature flags, A/B variants). Attributes passed to an emit call win
+ * over both.
+ */
+
+import { getSessionAttributes, setSessionAttributes } from './session';
+
+/**
+ * Attribute value accepted on log records
+ */
+export type GlobalAttributeValue = string | number | boolean;
+
+/**
+ * Computes attributes at emit time. Undefined values are left out.
+ */
+export type AttributeProvider = () => Record<string, GlobalAttributeValue | undefined>;
+
+const providers = new Set<AttributeProvider>();
+
+/**
+ * Adds or updates attributes included in every event. Undefined values
+ * remove the attribute.
+ */
+export function setGlobalAttributes(attributes: Record<string, GlobalAttributeValue | undefined>): void {
+  const merged = getSessionAttributes();
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  setSessionAttributes(merged);
+}
+
+/**
+ * Stops including an attribute in events
+ */
+export function removeGlobalAttribute(key: string): void {
+  const attributes = getSessionAttributes();
+  if (key in attributes) {
+    delete attributes[key];
+    setSessionAttributes(attributes);
+  }
+}
+
+/**
+ * Returns the static global attributes
+ */
+export function getGlobalAttributes(): Record<string, GlobalAttributeValue> {
+  return getSessionAttributes();
+}
+
+/**
+ * Registers a function called on every event for attributes that change
+ * over time. Later providers win over earlier ones and over static
+ * attributes.
+ *
+ * @returns Function that unregisters the provider
+ */
+export function registerAttributeProvider(provider: AttributeProvider): () => void {
+  providers.add(provider);
+  return () => {
+    providers.delete(provider);
+  };
+}
+
+/**
+ * Unregisters all attribute providers
+ */
+export function clearAttributeProviders(): void {
+  providers.clear();
+}
+
+/**
+ * Resolves the static attributes and all providers for one event. A
+ * provider that throws is skipped so it can't break capture.
+ */
+export function collectGlobalAttributes(): Record<string, GlobalAttributeValue> {
+  const attributes = getSessionAttributes();
+
+  for (const provider of providers) {
+    let provided: Record<string, GlobalAttributeValue | undefined>;
+    try {
+      provided = provider();
+    } catch (error) {
+      console.debug('[SessionReplay] Attribute provider failed:', error);
+      continue;
+    }
+    for (const [key, value] of Object.entries(provided ?? {})) {
+      if (value !== undefined) {
+        attributes[key] = value;
+      }
+    }
+  }
+  return attributes;
+}
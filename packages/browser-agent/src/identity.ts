@@ -0,0 +1,32 @@
+/**
+ * User identity
+ *
+ * setUser() records the signed-in user on the session and, when the user
+ * changes, emits identity.alias linking visitor.id to user.id so the
+ * anonymous sessions before login can be attributed to the user.
+ */
+
+import { emitSessionEvent } from './events';
+import { getUser, setSessionUser, type UserIdentity } from './session';
+import { isVisitorEnabled } from './visitor';
+
+/**
+ * Sets the user identity for the current session.
+ * Call this after user login to associate events with a user.
+ */
+export function setUser(user: UserIdentity): void {
+  const previous = getUser();
+  setSessionUser(user);
+
+  if (isVisitorEnabled() && previous?.id !== user.id) {
+    // visitor.id and user.id are added to every event, including this one
+    emitSessionEvent({
+      name: 'identity.alias',
+      attributes: {
+        'event.category': 'user.identity',
+        'event.action': 'alias',
+        ...(previous ? { 'user.previous_id': previous.id } : {}),
+      },
+    });
+  }
+}
@@ -1,6 +1,58 @@
 // Re-export OpenTelemetry API for consumer use
 export { trace, context } from '@opentelemetry/api';
 
+// One-call bootstrap
+export { initSessionReplay } from './init';
+
+export type {
+  InitSessionReplayConfig,
+  InstrumentationsConfig,
+  SessionReplayHandle,
+  SessionReplayInstrumentations,
+} from './init';
+
+// Middleware and plugins
+export { use, observe, clearMiddleware } from './pipeline';
+export type { EventMiddleware, EventObserver, SessionEventRecord } from './pipeline';
+
+export { createPluginHost } from './plugins';
+export type { SessionReplayPlugin, SessionReplayAgent, PluginHost, Toggleable } from './plugins';
+
+export {
+  createClickPlugin,
+  createDeadClickPlugin,
+  createEngagementPlugin,
+  createErrorPlugin,
+  createFormPlugin,
+  createNavigationPlugin,
+  createRageClickPlugin,
+  createThrashingPlugin,
+} from './builtin-plugins';
+export type { InstrumentationPlugin } from './builtin-plugins';
+
+// Remote configuration
+export {
+  RemoteConfigClient,
+  applyRemoteConfig,
+  validateRemoteConfig,
+  verifyRemoteConfig,
+} from './remote-config';
+export type {
+  RemoteConfig,
+  RemoteConfigOptions,
+  RemoteConfigurable,
+  RemoteInstrumentationsConfig,
+} from './remote-config';
+
+// Router adapters
+export { recordRouteChange } from './routers/shared';
+export { getReactRouterRoute, trackReactRouter } from './routers/react-router';
+export type { ReactDataRouter, ReactDataRouterState, ReactRouterMatch } from './routers/react-router';
+export { trackVueRouter } from './routers/vue-router';
+export type { VueRouteLocation, VueRouter } from './routers/vue-router';
+export { createNextRouterTracker, getNextRoute } from './routers/next';
+export type { NextRouteParams, NextRouterTracker } from './routers/next';
+
 // Core provider (traces - for custom business spans)
 export {
   createSessionReplayProvider,
@@ -8,14 +60,68 @@ export {
   getTracer,
 } from './provider';
 
+// Shared OTLP resource
+export { createSessionResource, detectBrowserAttributes, getSessionResource } from './resource';
+export type { ResourceConfig } from './resource';
+
 // Log provider (for session events)
 export {
   createSessionLogProvider,
   shutdownLogProvider,
+  flushLogsForUnload,
   getLogger,
   SeverityNumber,
 } from './log-provider';
 
+// Session sampling
+export {
+  configureSampling,
+  isSessionSampled,
+  shouldSampleEvent,
+  SessionSampler,
+} from './sampling';
+
+export type { SamplingConfig } from './sampling';
+
+// Tail-based buffering
+export {
+  configureBuffering,
+  flagSession,
+  isBufferingEnabled,
+  getBufferedRecordCount,
+} from './buffering';
+
+export type { BufferingConfig } from './buffering';
+
+// Consent
+export {
+  configureConsent,
+  setConsent,
+  getConsent,
+  hasConsent,
+  hasConsentFor,
+  onConsentChange,
+  getHeldEventCount,
+  DEFAULT_CONSENT_CATEGORIES,
+} from './consent';
+
+export type { ConsentConfig, ConsentState, ConsentCategoryMap } from './consent';
+
+// Route templating
+export { configureRoutes, getRoute, setCurrentRoute } from './routes';
+export type { RouteConfig } from './routes';
+
+// PII redaction
+export {
+  configureRedaction,
+  redactAttributes,
+  redactText,
+  redactUrl,
+  hashValue,
+} from './redaction';
+
+export type { RedactionConfig, RedactionAction, RedactionDetectors } from './redaction';
+
 // Session management
 export {
   getSessionId,
@@ -24,21 +130,51 @@ export {
   getCurrentSequence,
   resetSession,
   getSessionDuration,
-  setUser,
   clearUser,
   getUser,
+  isSessionFlagged,
+  purgeSession,
+  configureSession,
+  getSessionExpiry,
+  getSessionLastActivity,
+  getPreviousSessionId,
+  rotateSession,
+  isCrossTabSession,
+  isSequenceReady,
+  getTabId,
 } from './session';
 
-export type { UserIdentity } from './session';
+export type { UserIdentity, SessionConfig, SessionEndReason } from './session';
+
+// Global attributes
+export {
+  setGlobalAttributes,
+  removeGlobalAttribute,
+  getGlobalAttributes,
+  registerAttributeProvider,
+  clearAttributeProviders,
+} from './global-attributes';
+export type { AttributeProvider, GlobalAttributeValue } from './global-attributes';
+
+// Visitor identity
+export { setUser } from './identity';
+export { configureVisitor, getVisitorId, resetVisitor } from './visitor';
+export type { VisitorConfig } from './visitor';
+
+// Event budget
+export { configureBudget, flushEventBudget } from './budget';
+export type { BudgetConfig, BudgetLimit, SuppressionSummary } from './budget';
 
 // Event emitter
 export {
   emitSessionEvent,
   emitClickEvent,
   emitNavigationEvent,
+  emitPageLifecycleEvent,
   emitErrorEvent,
   emitFrustrationEvent,
   emitFormEvent,
+  defineEvent,
 } from './events';
 
 export type {
@@ -49,25 +185,68 @@ export type {
   FrustrationAttributes,
   SessionEventAttributes,
   EmitEventOptions,
+  TypedEvent,
+  ClickEventAttributes,
+  FormEventAttributes,
+  FormAction,
 } from './events';
 
+// Event schemas
+export {
+  getEventSchema,
+  getRegisteredEvents,
+  snapshotEventSchemas,
+  restoreEventSchemas,
+  setEventValidation,
+  validateEventAttributes,
+} from './event-registry';
+
+export type {
+  AttributeType,
+  AttributeSpec,
+  AttributeSchema,
+  EventSchema,
+  EventAttributes,
+} from './event-registry';
+
 export type { LogProviderConfig } from './log-provider';
 
+// Unload-safe export (sendBeacon / fetch keepalive)
+export { UnloadSafeLogExporter } from './unload-exporter';
+export type { UnloadSafeLogExporterConfig } from './unload-exporter';
+
+// Offline persistence (IndexedDB)
+export { OfflineLogQueue, PersistentLogExporter } from './offline-queue';
+export type { OfflineQueueConfig } from './offline-queue';
+
 // Semantic instrumentation
 export {
   ClickInstrumentation,
+  ClickHub,
   getSemanticName,
   getDataAttributes,
   getReactComponentName,
   buildClickTarget,
 } from './semantic/clicks';
 
+export {
+  isIgnoredElement,
+  isMaskedElement,
+  getPrivacyName,
+  IGNORE_ATTRIBUTE,
+  MASK_ATTRIBUTE,
+  NAME_ATTRIBUTE,
+  MASKED_NAME,
+} from './semantic/privacy';
+
 export { FormTracker } from './semantic/forms';
 
 export { NavigationTracker } from './semantic/navigation';
 
 export { ErrorTracker } from './semantic/errors';
 
+export { EngagementTracker } from './semantic/engagement';
+
 // Frustration detection
 export { RageClickDetector } from './frustration/rage-click';
 export { DeadClickDetector, isInteractiveElement } from './frustration/dead-click';
@@ -112,10 +291,26 @@ export type {
   SemanticEvent,
 } from './types';
 
-export type { ClickInstrumentationConfig } from './semantic/clicks';
+export type {
+  ClickInstrumentationConfig,
+  ClickContext,
+  ClickConsumer,
+  ClickConsumerRole,
+} from './semantic/clicks';
 export type { FormTrackerConfig, FormEvent, FormFieldEvent } from './semantic/forms';
 export type { RageClickEvent, RageClickDetectorConfig } from './frustration/rage-click';
 export type { DeadClickEvent, DeadClickDetectorConfig } from './frustration/dead-click';
-export type { NavigationEvent, NavigationTrackerConfig } from './semantic/navigation';
+export type {
+  NavigationEvent,
+  NavigationTrackerConfig,
+  NavigationTrigger,
+  RouteInfo,
+} from './semantic/navigation';
 export type { TrackedError, ErrorTrackerConfig, ErrorContext } from './semantic/errors';
+export type {
+  EngagementEvent,
+  EngagementEventType,
+  EngagementEndReason,
+  EngagementTrackerConfig,
+} from './semantic/engagement';
 export type { ThrashingEvent, ThrashingDetectorConfig } from './frustration/thrashing';
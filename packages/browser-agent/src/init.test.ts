@@ -0,0 +1,433 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('./provider', () => ({
+  createSessionReplayProvider: vi.fn(),
+  shutdownProvider: vi.fn(async () => {}),
+}));
+
+vi.mock('./log-provider', () => ({
+  createSessionLogProvider: vi.fn(),
+  shutdownLogProvider: vi.fn(async () => {}),
+}));
+
+vi.mock('./events', () => ({
+  emitSessionEvent: vi.fn(),
+  emitErrorEvent: vi.fn(),
+  emitFormEvent: vi.fn(),
+  emitFrustrationEvent: vi.fn(),
+  emitNavigationEvent: vi.fn(),
+  emitPageLifecycleEvent: vi.fn(),
+}));
+
+import { initSessionReplay, type SessionReplayHandle } from './init';
+import { createSessionReplayProvider } from './provider';
+import { createSessionLogProvider, shutdownLogProvider } from './log-provider';
+import {
+  emitSessionEvent,
+  emitErrorEvent,
+  emitFormEvent,
+  emitNavigationEvent,
+  emitPageLifecycleEvent,
+} from './events';
+import { configureConsent, setConsent } from './consent';
+
+describe('initSessionReplay', () => {
+  let handle: SessionReplayHandle | null;
+
+  const baseConfig = {
+    serviceName: 'test-service',
+    endpoint: 'http://localhost:4318/v1/traces',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    document.body.innerHTML = '';
+    handle = null;
+  });
+
+  afterEach(async () => {
+    await handle?.shutdown();
+  });
+
+  describe('providers', () => {
+    it('should create both trace and log providers', () => {
+      handle = initSessionReplay({ ...baseConfig, apiKey: 'key' });
+
+      expect(createSessionReplayProvider).toHaveBeenCalledTimes(1);
+      expect(createSessionLogProvider).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serviceName: 'test-service',
+          endpoint: 'http://localhost:4318/v1/traces',
+          apiKey: 'key',
+        })
+      );
+    });
+
+    it('should give both providers the resource settings', () => {
+      const resourceConfig = {
+        serviceVersion: '2.4.1',
+        deploymentEnvironment: 'production',
+        resourceAttributes: { 'service.namespace': 'shop' },
+      };
+      handle = initSessionReplay({ ...baseConfig, ...resourceConfig });
+
+      expect(createSessionReplayProvider).toHaveBeenCalledWith(expect.objectContaining(resourceConfig));
+      expect(createSessionLogProvider).toHaveBeenCalledWith(expect.objectContaining(resourceConfig));
+    });
+
+    it('should prefer an explicit logs endpoint', () => {
+      handle = initSessionReplay({ ...baseConfig, logsEndpoint: 'http://collector/v1/logs' });
+
+      expect(createSessionLogProvider).toHaveBeenCalledWith(
+        expect.objectContaining({ endpoint: 'http://collector/v1/logs' })
+      );
+    });
+
+    it('should return the existing handle when called twice', () => {
+      handle = initSessionReplay(baseConfig);
+
+      expect(initSessionReplay(baseConfig)).toBe(handle);
+      expect(createSessionReplayProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('should shut down the providers', async () => {
+      handle = initSessionReplay(baseConfig);
+      await handle.shutdown();
+      handle = null;
+
+      expect(shutdownLogProvider).toHaveBeenCalled();
+    });
+  });
+
+  describe('instrumentations', () => {
+    it('should enable every instrumentation by default', () => {
+      handle = initSessionReplay(baseConfig);
+
+      expect(Object.keys(handle.instrumentations).sort()).toEqual([
+        'clicks',
+        'deadClicks',
+        'engagement',
+        'errors',
+        'forms',
+        'navigation',
+        'rageClicks',
+        'thrashing',
+      ]);
+    });
+
+    it('should skip instrumentations switched off', () => {
+      handle = initSessionReplay({
+        ...baseConfig,
+        instrumentations: { thrashing: false, deadClicks: false },
+      });
+
+      expect(handle.instrumentations.thrashing).toBeUndefined();
+      expect(handle.instrumentations.deadClicks).toBeUndefined();
+      expect(handle.instrumentations.clicks).toBeDefined();
+    });
+
+    it('should pass per-instrumentation options through', () => {
+      const onRageClick = vi.fn();
+      handle = initSessionReplay({
+        ...baseConfig,
+        instrumentations: { rageClicks: { clickThreshold: 2, onRageClick } },
+      });
+
+      const button = document.createElement('button');
+      document.body.appendChild(button);
+      button.click();
+      button.click();
+
+      expect(onRageClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit a page view on start', () => {
+      handle = initSessionReplay(baseConfig);
+
+      expect(emitNavigationEvent).toHaveBeenCalledWith(
+        'pageview',
+        window.location.href,
+        expect.objectContaining({ 'navigation.type': 'page_load' })
+      );
+    });
+
+    it('should report automatic route changes with their trigger', () => {
+      vi.useFakeTimers();
+      handle = initSessionReplay({ ...baseConfig, instrumentations: { navigation: { patchHistory: true } } });
+
+      window.history.pushState(null, '', '/checkout');
+      vi.advanceTimersByTime(100);
+      vi.useRealTimers();
+
+      expect(emitNavigationEvent).toHaveBeenLastCalledWith(
+        'pushstate',
+        expect.stringContaining('/checkout'),
+        expect.objectContaining({ 'navigation.type': 'route_change', 'navigation.trigger': 'push_state' })
+      );
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('should report replaced history entries as replacestate', () => {
+      vi.useFakeTimers();
+      handle = initSessionReplay({ ...baseConfig, instrumentations: { navigation: { patchHistory: true } } });
+
+      window.history.replaceState(null, '', '/checkout?step=2');
+      vi.advanceTimersByTime(100);
+      vi.useRealTimers();
+
+      expect(emitNavigationEvent).toHaveBeenLastCalledWith(
+        'replacestate',
+        expect.stringContaining('/checkout?step=2'),
+        expect.objectContaining({ 'navigation.type': 'route_change', 'navigation.trigger': 'replace_state' })
+      );
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('should summarize engagement for the page a route change leaves', () => {
+      handle = initSessionReplay(baseConfig);
+      const firstPage = window.location.href;
+
+      handle.instrumentations.navigation?.recordNavigation('http://localhost/checkout', 'Checkout');
+
+      expect(emitPageLifecycleEvent).toHaveBeenCalledWith(
+        'engagement',
+        expect.objectContaining({ 'page.url': firstPage, 'engagement.end_reason': 'route_change' })
+      );
+    });
+
+    it('should emit form events for tracked fields', () => {
+      handle = initSessionReplay(baseConfig);
+
+      const input = document.createElement('input');
+      input.name = 'email';
+      document.body.appendChild(input);
+      input.dispatchEvent(new FocusEvent('focusin', { bubbles: true }));
+      input.dispatchEvent(new FocusEvent('focusout', { bubbles: true }));
+
+      expect(emitFormEvent).toHaveBeenCalledWith('blur', 'email', expect.any(Object));
+    });
+
+    it('should record the last click for error context', () => {
+      handle = initSessionReplay(baseConfig);
+
+      const button = document.createElement('button');
+      button.textContent = 'Pay now';
+      document.body.appendChild(button);
+      button.click();
+
+      handle.instrumentations.errors!.recordError({ type: 'console_error', message: 'boom' });
+
+      expect(emitErrorEvent).toHaveBeenCalledWith(
+        'boom',
+        expect.objectContaining({ 'error.context.last_click': 'Pay now' })
+      );
+    });
+  });
+
+  describe('plugins', () => {
+    it('should pause instrumentations of custom plugins', () => {
+      const detector = { enable: vi.fn(), disable: vi.fn() };
+      handle = initSessionReplay({
+        ...baseConfig,
+        plugins: [{ name: 'custom', setup: (agent) => agent.gate(detector, 'user.interaction') }],
+      });
+
+      expect(detector.enable).toHaveBeenCalled();
+      handle.pause();
+      expect(detector.disable).toHaveBeenCalled();
+    });
+
+    it('should tear custom plugins down on shutdown', async () => {
+      const teardown = vi.fn();
+      handle = initSessionReplay({ ...baseConfig, plugins: [{ name: 'custom', setup: () => {}, teardown }] });
+
+      await handle.shutdown();
+      handle = null;
+
+      expect(teardown).toHaveBeenCalled();
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should stop capturing clicks while paused', () => {
+      handle = initSessionReplay(baseConfig);
+      const button = document.createElement('button');
+      document.body.appendChild(button);
+
+      handle.pause();
+      button.click();
+      expect(handle.isPaused()).toBe(true);
+      expect(emitSessionEvent).not.toHaveBeenCalled();
+
+      handle.resume();
+      button.click();
+      expect(handle.isPaused()).toBe(false);
+      expect(emitSessionEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'user.click' })
+      );
+    });
+
+    it('should not emit a second page view on resume', () => {
+      handle = initSessionReplay(baseConfig);
+
+      handle.pause();
+      handle.resume();
+
+      expect(emitNavigationEvent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('consent', () => {
+    afterEach(() => {
+      configureConsent({});
+    });
+
+    it('should not start instrumentations without consent', () => {
+      configureConsent({ enabled: true });
+      handle = initSessionReplay(baseConfig);
+      const button = document.createElement('button');
+      document.body.appendChild(button);
+
+      button.click();
+
+      expect(emitNavigationEvent).not.toHaveBeenCalled();
+      expect(emitSessionEvent).not.toHaveBeenCalled();
+    });
+
+    it('should start instrumentations when consent is given', () => {
+      configureConsent({ enabled: true });
+      handle = initSessionReplay(baseConfig);
+      const button = document.createElement('button');
+      document.body.appendChild(button);
+
+      setConsent('analytics');
+      button.click();
+
+      expect(emitNavigationEvent).toHaveBeenCalledTimes(1);
+      expect(emitSessionEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'user.click' })
+      );
+    });
+
+    it('should only run instrumentations the consent covers', () => {
+      configureConsent({ enabled: true, initialState: 'essential' });
+      handle = initSessionReplay(baseConfig);
+      const button = document.createElement('button');
+      document.body.appendChild(button);
+
+      button.click();
+      window.dispatchEvent(new ErrorEvent('error', { message: 'boom' }));
+
+      expect(emitSessionEvent).not.toHaveBeenCalled();
+      expect(emitErrorEvent).toHaveBeenCalledWith('boom', expect.any(Object));
+    });
+
+    it('should stop instrumentations when consent is withdrawn', () => {
+      configureConsent({ enabled: true, initialState: 'full' });
+      handle = initSessionReplay(baseConfig);
+      const button = document.createElement('button');
+      document.body.appendChild(button);
+
+      setConsent('none');
+      button.click();
+
+      expect(emitSessionEvent).not.toHaveBeenCalled();
+    });
+
+    it('should run instrumentations while holding events', () => {
+      configureConsent({ enabled: true, holdUntilConsent: true });
+      handle = initSessionReplay(baseConfig);
+
+      expect(emitNavigationEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stay paused when consent is given', () => {
+      configureConsent({ enabled: true });
+      handle = initSessionReplay(baseConfig);
+      const button = document.createElement('button');
+      document.body.appendChild(button);
+
+      handle.pause();
+      setConsent('full');
+      button.click();
+
+      expect(emitSessionEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remote config', () => {
+    const remoteConfig = { url: 'https://config.example.com/session-replay.json', refreshIntervalMs: 0 };
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    function serve(body: unknown) {
+      fetchMock.mockResolvedValue({ ok: true, json: () => Promise.resolve(body) });
+    }
+
+    function clickTwice(): void {
+      const button = document.createElement('button');
+      document.body.appendChild(button);
+      button.click();
+      button.click();
+    }
+
+    beforeEach(() => {
+      localStorage.clear();
+      fetchMock = vi.fn(() => new Promise(() => {}));
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should apply the cached config before instrumentations start', () => {
+      localStorage.setItem(
+        'session_replay_remote_config',
+        JSON.stringify({
+          url: remoteConfig.url,
+          fetchedAt: Date.now(),
+          config: { version: 1, instrumentations: { deadClicks: false }, sampling: { sampleRate: 0.25 } },
+        })
+      );
+
+      handle = initSessionReplay({ ...baseConfig, remoteConfig });
+
+      expect(handle.instrumentations.deadClicks).toBeUndefined();
+      expect(createSessionReplayProvider).toHaveBeenCalledWith(expect.objectContaining({ sampleRate: 0.25 }));
+    });
+
+    it('should keep the local config until a document arrives', () => {
+      handle = initSessionReplay({ ...baseConfig, remoteConfig });
+
+      expect(fetchMock).toHaveBeenCalledWith(remoteConfig.url, expect.any(Object));
+      expect(handle.instrumentations.deadClicks).toBeDefined();
+    });
+
+    it('should reinstall detectors whose settings changed', async () => {
+      const onRageClick = vi.fn();
+      serve({ version: 1, instrumentations: { rageClicks: { clickThreshold: 2 }, thrashing: false } });
+      handle = initSessionReplay({ ...baseConfig, remoteConfig, instrumentations: { rageClicks: { onRageClick } } });
+      const clicks = handle.instrumentations.clicks;
+
+      await vi.waitFor(() => expect(handle!.instrumentations.thrashing).toBeUndefined());
+      clickTwice();
+
+      expect(onRageClick).toHaveBeenCalledTimes(1);
+      expect(handle.instrumentations.clicks).toBe(clicks);
+      expect(emitNavigationEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep replaced detectors paused', async () => {
+      const onRageClick = vi.fn();
+      serve({ version: 1, instrumentations: { rageClicks: { clickThreshold: 2 } } });
+      handle = initSessionReplay({ ...baseConfig, remoteConfig, instrumentations: { rageClicks: { onRageClick } } });
+      const rageClicks = handle.instrumentations.rageClicks;
+      handle.pause();
+
+      await vi.waitFor(() => expect(handle!.instrumentations.rageClicks).not.toBe(rageClicks));
+      clickTwice();
+
+      expect(onRageClick).not.toHaveBeenCalled();
+    });
+  });
+});
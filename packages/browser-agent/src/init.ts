@@ -0,0 +1,304 @@
+/**
+ * One-call bootstrap
+ *
+ * Creates the trace and log providers and installs every built-in
+ * instrumentation, plus any custom plugins, through the plugin host.
+ */
+
+import { createSessionReplayProvider, shutdownProvider } from './provider';
+import { createSessionLogProvider, shutdownLogProvider } from './log-provider';
+import { onConsentChange } from './consent';
+import { createPluginHost, type SessionReplayPlugin } from './plugins';
+import {
+  createClickPlugin,
+  createDeadClickPlugin,
+  createEngagementPlugin,
+  createErrorPlugin,
+  createFormPlugin,
+  createNavigationPlugin,
+  createRageClickPlugin,
+  createThrashingPlugin,
+} from './builtin-plugins';
+import type { ClickInstrumentation, ClickInstrumentationConfig } from './semantic/clicks';
+import type { FormTracker, FormTrackerConfig } from './semantic/forms';
+import type { NavigationTracker, NavigationTrackerConfig } from './semantic/navigation';
+import type { ErrorTracker, ErrorTrackerConfig } from './semantic/errors';
+import type { EngagementTracker, EngagementTrackerConfig } from './semantic/engagement';
+import type { RageClickDetector, RageClickDetectorConfig } from './frustration/rage-click';
+import type { DeadClickDetector, DeadClickDetectorConfig } from './frustration/dead-click';
+import type { ThrashingDetector, ThrashingDetectorConfig } from './frustration/thrashing';
+import type { SessionReplayConfig } from './types';
+import { configureSampling } from './sampling';
+import { configureRedaction } from './redaction';
+import { applyRemoteConfig, RemoteConfigClient, type RemoteConfigOptions } from './remote-config';
+
+/**
+ * Per-instrumentation switches. `true` enables with defaults, `false`
+ * disables, and an options object enables with those options.
+ * Every instrumentation is enabled by default.
+ */
+export interface InstrumentationsConfig {
+  clicks?: boolean | Omit<ClickInstrumentationConfig, 'document'>;
+  rageClicks?: boolean | Omit<RageClickDetectorConfig, 'document'>;
+  deadClicks?: boolean | Omit<DeadClickDetectorConfig, 'document'>;
+  thrashing?: boolean | Omit<ThrashingDetectorConfig, 'window'>;
+  forms?: boolean | Partial<Omit<FormTrackerConfig, 'document'>>;
+  navigation?: boolean | Partial<Omit<NavigationTrackerConfig, 'window'>>;
+  errors?: boolean | Partial<Omit<ErrorTrackerConfig, 'window'>>;
+  engagement?: boolean | Partial<Omit<EngagementTrackerConfig, 'window'>>;
+}
+
+/**
+ * Configuration for initSessionReplay
+ */
+export interface InitSessionReplayConfig extends SessionReplayConfig {
+  /** OTLP endpoint for logs (default: derived from endpoint) */
+  logsEndpoint?: string;
+  /** Which instrumentations to enable and their options */
+  instrumentations?: InstrumentationsConfig;
+  /** Custom plugins, set up after the built-in instrumentations */
+  plugins?: SessionReplayPlugin[];
+  /** Fetch detector settings, sampling and redaction rules from a URL */
+  remoteConfig?: RemoteConfigOptions;
+}
+
+/**
+ * Instrumentation instances created by initSessionReplay.
+ * Disabled instrumentations are left undefined. Instances replaced by a
+ * remote configuration update are swapped in place.
+ */
+export interface SessionReplayInstrumentations {
+  clicks?: ClickInstrumentation;
+  rageClicks?: RageClickDetector;
+  deadClicks?: DeadClickDetector;
+  thrashing?: ThrashingDetector;
+  forms?: FormTracker;
+  navigation?: NavigationTracker;
+  errors?: ErrorTracker;
+  engagement?: EngagementTracker;
+}
+
+/**
+ * Handle returned by initSessionReplay
+ */
+export interface SessionReplayHandle {
+  /** Instrumentation instances, for manual recording (e.g. form submits) */
+  instrumentations: SessionReplayInstrumentations;
+  /** Stops capturing until resume() is called */
+  pause(): void;
+  /** Resumes capturing after pause() */
+  resume(): void;
+  /** Whether capture is currently paused */
+  isPaused(): boolean;
+  /** Disables all instrumentations and shuts down both providers */
+  shutdown(): Promise<void>;
+}
+
+let activeHandle: SessionReplayHandle | null = null;
+
+/**
+ * Resolves an instrumentation switch to its options, or null when disabled
+ */
+function resolveOptions<T extends object>(value: boolean | T | undefined): Partial<T> | null {
+  if (value === false) {
+    return null;
+  }
+  if (value === undefined || value === true) {
+    return {};
+  }
+  return value;
+}
+
+/** Instrumentations the remote configuration can switch and tune while running */
+const TUNABLE_INSTRUMENTATIONS = ['rageClicks', 'deadClicks', 'thrashing', 'forms'] as const;
+
+type TunableInstrumentation = (typeof TUNABLE_INSTRUMENTATIONS)[number];
+
+type Builtins = ReturnType<typeof createBuiltins>;
+
+/**
+ * Creates the plugins for every enabled built-in instrumentation
+ */
+function createBuiltins(switches: InstrumentationsConfig) {
+  const errorOptions = resolveOptions(switches.errors);
+  const errors = errorOptions ? createErrorPlugin(errorOptions) : undefined;
+
+  const clickOptions = resolveOptions(switches.clicks);
+  const clicks = clickOptions
+    ? createClickPlugin({
+        ...clickOptions,
+        onClick: (target, event) => {
+          // Feed error context from the same listener instead of adding another
+          errors?.instance?.recordLastClick(target.semanticName);
+          clickOptions.onClick?.(target, event);
+        },
+      })
+    : undefined;
+
+  const rageOptions = resolveOptions(switches.rageClicks);
+  const deadOptions = resolveOptions(switches.deadClicks);
+  const thrashingOptions = resolveOptions(switches.thrashing);
+  const formOptions = resolveOptions(switches.forms);
+  const engagementOptions = resolveOptions(switches.engagement);
+  const engagement = engagementOptions ? createEngagementPlugin(engagementOptions) : undefined;
+
+  const navigationOptions = resolveOptions(switches.navigation);
+  const navigation = navigationOptions
+    ? createNavigationPlugin({
+        ...navigationOptions,
+        onNavigation: (event) => {
+          // Each SPA route starts a new engagement summary
+          if (event.type === 'route_change') {
+            engagement?.instance?.recordPageChange(event.toUrl, event.pageTitle);
+          }
+          navigationOptions.onNavigation?.(event);
+        },
+      })
+    : undefined;
+
+  return {
+    errors,
+    clicks,
+    rageClicks: rageOptions ? createRageClickPlugin(rageOptions) : undefined,
+    deadClicks: deadOptions ? createDeadClickPlugin(deadOptions) : undefined,
+    thrashing: thrashingOptions ? createThrashingPlugin(thrashingOptions) : undefined,
+    forms: formOptions ? createFormPlugin(formOptions) : undefined,
+    navigation,
+    engagement,
+  };
+}
+
+function getInstances(builtins: Builtins): SessionReplayInstrumentations {
+  return {
+    errors: builtins.errors?.instance,
+    clicks: builtins.clicks?.instance,
+    rageClicks: builtins.rageClicks?.instance,
+    deadClicks: builtins.deadClicks?.instance,
+    thrashing: builtins.thrashing?.instance,
+    forms: builtins.forms?.instance,
+    navigation: builtins.navigation?.instance,
+    engagement: builtins.engagement?.instance,
+  };
+}
+
+/**
+ * Initializes session replay: creates both providers and enables the
+ * configured instrumentations. Calling it again while active returns the
+ * existing handle.
+ *
+ * @param config - Provider and instrumentation configuration
+ * @returns Handle for pausing, resuming and shutting down capture
+ */
+export function initSessionReplay(config: InitSessionReplayConfig): SessionReplayHandle {
+  if (activeHandle) {
+    if (config.debug) {
+      console.warn('[SessionReplay] Already initialized, returning existing handle');
+    }
+    return activeHandle;
+  }
+
+  // A cached remote configuration applies before anything starts
+  const remote = config.remoteConfig ? new RemoteConfigClient(config.remoteConfig) : null;
+  let effective = applyRemoteConfig(config, remote?.loadCached() ?? null);
+
+  createSessionReplayProvider(effective);
+  createSessionLogProvider({
+    serviceName: config.serviceName,
+    serviceVersion: config.serviceVersion,
+    deploymentEnvironment: config.deploymentEnvironment,
+    resourceAttributes: config.resourceAttributes,
+    browserContext: config.browserContext,
+    endpoint: config.logsEndpoint ?? config.endpoint,
+    apiKey: config.apiKey,
+    debug: config.debug,
+    buffering: config.buffering,
+    redaction: effective.redaction,
+    consent: config.consent,
+    routes: config.routes,
+    session: config.session,
+    visitor: config.visitor,
+    budget: config.budget,
+    offline: config.offline,
+    batch: config.batch,
+  });
+
+  let paused = false;
+  const builtins = createBuiltins(effective.instrumentations ?? {});
+
+  // Each instrumentation runs only while its events have consent (or are
+  // being held until the user decides). Everything except navigation is
+  // also toggled by pause/resume.
+  const host = createPluginHost({ window, document, isPaused: () => paused });
+  const plugins: SessionReplayPlugin[] = [
+    ...Object.values(builtins).filter(
+      (plugin): plugin is NonNullable<typeof plugin> => plugin !== undefined
+    ),
+    ...(config.plugins ?? []),
+  ];
+  plugins.forEach((plugin) => host.install(plugin));
+
+  const instrumentations = getInstances(builtins);
+
+  const unsubscribeConsent = onConsentChange(() => host.sync());
+
+  if (config.debug) {
+    console.log('[SessionReplay] Plugins installed:', plugins.map((plugin) => plugin.name));
+  }
+
+  // Newer remote configurations apply while running: sampling and redaction
+  // from the next event, and changed detectors are installed again
+  remote?.start((remoteConfig) => {
+    const previous = effective;
+    effective = applyRemoteConfig(config, remoteConfig);
+    configureSampling({ sampleRate: effective.sampleRate, categorySampleRates: effective.categorySampleRates });
+    configureRedaction(effective.redaction ?? {});
+
+    const next = createBuiltins(effective.instrumentations ?? {});
+    const replace = <K extends TunableInstrumentation>(name: K): void => {
+      const before = resolveOptions(previous.instrumentations?.[name]);
+      const after = resolveOptions(effective.instrumentations?.[name]);
+      if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+      const current = builtins[name];
+      if (current) host.uninstall(current);
+      builtins[name] = next[name];
+      const replacement = builtins[name];
+      if (replacement) host.install(replacement);
+    };
+    TUNABLE_INSTRUMENTATIONS.forEach(replace);
+    Object.assign(instrumentations, getInstances(builtins));
+
+    if (config.debug) {
+      console.log('[SessionReplay] Remote config applied, version', remoteConfig.version);
+    }
+  });
+
+  const handle: SessionReplayHandle = {
+    instrumentations,
+    pause() {
+      if (paused) return;
+      paused = true;
+      host.sync();
+    },
+    resume() {
+      if (!paused) return;
+      paused = false;
+      host.sync();
+    },
+    isPaused() {
+      return paused;
+    },
+    async shutdown() {
+      remote?.stop();
+      unsubscribeConsent();
+      host.teardown();
+      if (activeHandle === handle) {
+        activeHandle = null;
+      }
+      await Promise.all([shutdownLogProvider(), shutdownProvider()]);
+    },
+  };
+
+  activeHandle = handle;
+  return handle;
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ReadableLogRecord } from '@opentelemetry/sdk-logs';
+
+const exportedBatches: ReadableLogRecord[][] = [];
+
+vi.mock('@opentelemetry/exporter-logs-otlp-http', () => ({
+  OTLPLogExporter: class {
+    export(records: ReadableLogRecord[], done: (result: { code: number }) => void) {
+      exportedBatches.push(records);
+      done({ code: 0 });
+    }
+    shutdown() {
+      return Promise.resolve();
+    }
+    forceFlush() {
+      return Promise.resolve();
+    }
+  },
+}));
+
+import { createSessionLogProvider, shutdownLogProvider, getLogger } from './log-provider';
+import { createPluginHost } from './plugins';
+import { createEngagementPlugin } from './builtin-plugins';
+
+describe('createSessionLogProvider', () => {
+  const defaultConfig = {
+    serviceName: 'test-service',
+    endpoint: 'http://localhost:4318/v1/logs',
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    exportedBatches.length = 0;
+  });
+
+  afterEach(async () => {
+    await shutdownLogProvider();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function readBlob(blob: Blob): Promise<string> {
+    return new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+  }
+
+  function emit(count: number): void {
+    const logger = getLogger();
+    for (let i = 0; i < count; i++) {
+      logger.emit({ body: `event-${i}` });
+    }
+  }
+
+  describe('batching', () => {
+    it('should not export each record immediately', () => {
+      createSessionLogProvider(defaultConfig);
+
+      emit(3);
+
+      expect(exportedBatches).toHaveLength(0);
+    });
+
+    it('should export queued records together after the scheduled delay', async () => {
+      createSessionLogProvider({ ...defaultConfig, batch: { scheduledDelayMs: 1000 } });
+
+      emit(3);
+      await vi.advanceTimersByTimeAsync(999);
+      expect(exportedBatches).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(exportedBatches).toHaveLength(1);
+      expect(exportedBatches[0]).toHaveLength(3);
+    });
+
+    it('should split exports by max batch size', async () => {
+      createSessionLogProvider({ ...defaultConfig, batch: { maxBatchSize: 2 } });
+
+      emit(5);
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(exportedBatches.map((batch) => batch.length)).toEqual([2, 2, 1]);
+    });
+  });
+
+  describe('page hide flushing', () => {
+    let sendBeacon: ReturnType<typeof vi.fn>;
+    // Beacons only go to a same-origin collector
+    const sameOriginConfig = { ...defaultConfig, endpoint: `${location.origin}/v1/logs` };
+
+    beforeEach(() => {
+      sendBeacon = vi.fn(() => true);
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+    });
+
+    afterEach(() => {
+      delete (navigator as { sendBeacon?: unknown }).sendBeacon;
+    });
+
+    it('should flush through sendBeacon when the page becomes hidden', async () => {
+      createSessionLogProvider({ ...sameOriginConfig, batch: { scheduledDelayMs: 60000 } });
+      emit(2);
+
+      vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+      document.dispatchEvent(new Event('visibilitychange', { bubbles: true }));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(sendBeacon).toHaveBeenCalledTimes(1);
+      expect(sendBeacon.mock.calls[0][0]).toBe(sameOriginConfig.endpoint);
+      expect(exportedBatches).toHaveLength(0);
+    });
+
+    it('should flush through sendBeacon on pagehide', async () => {
+      createSessionLogProvider({ ...sameOriginConfig, batch: { scheduledDelayMs: 60000 } });
+      emit(2);
+
+      window.dispatchEvent(new Event('pagehide'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(sendBeacon).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the regular exporter again after the unload flush', async () => {
+      createSessionLogProvider({ ...defaultConfig, batch: { scheduledDelayMs: 1000 } });
+      window.dispatchEvent(new Event('pagehide'));
+
+      emit(1);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(exportedBatches.flat()).toHaveLength(1);
+    });
+
+    it('should flush through the regular exporter when beacon delivery is off', async () => {
+      createSessionLogProvider({
+        ...defaultConfig,
+        beaconOnUnload: false,
+        batch: { scheduledDelayMs: 60000 },
+      });
+      emit(2);
+
+      window.dispatchEvent(new Event('pagehide'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(exportedBatches.flat()).toHaveLength(2);
+    });
+
+    it('should send the pagehide engagement summary on unload', async () => {
+      vi.spyOn(console, 'debug').mockImplementation(() => {});
+      createSessionLogProvider({ ...sameOriginConfig, batch: { scheduledDelayMs: 60000 } });
+      const host = createPluginHost({ window, document, isPaused: () => false });
+      host.install(createEngagementPlugin());
+
+      window.dispatchEvent(new Event('pagehide'));
+      await vi.advanceTimersByTimeAsync(0);
+      host.teardown();
+
+      vi.useRealTimers();
+      const payloads = await Promise.all(sendBeacon.mock.calls.map(([, blob]) => readBlob(blob as Blob)));
+      expect(payloads.join()).toContain('page.engagement');
+      expect(exportedBatches).toHaveLength(0);
+    });
+
+    it('should stop listening after shutdown', async () => {
+      createSessionLogProvider(defaultConfig);
+      await shutdownLogProvider();
+      exportedBatches.length = 0;
+
+      window.dispatchEvent(new Event('pagehide'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(exportedBatches).toHaveLength(0);
+    });
+  });
+});
@@ -3,16 +3,45 @@
  * Configures OpenTelemetry logging SDK for browser use
  */
 
+import type { AttributeValue } from '@opentelemetry/api';
 import { logs, SeverityNumber } from '@opentelemetry/api-logs';
-import { LoggerProvider, SimpleLogRecordProcessor } from '@opentelemetry/sdk-logs';
+import {
+  LoggerProvider,
+  BatchLogRecordProcessor,
+  type BatchLogRecordProcessorBrowserConfig,
+  type LogRecordExporter,
+} from '@opentelemetry/sdk-logs';
 import { OTLPLogExporter } from '@opentelemetry/exporter-logs-otlp-http';
-import { resourceFromAttributes } from '@opentelemetry/resources';
-import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import type { EventCategory } from './events';
+import { configureSampling, isSessionSampled } from './sampling';
+import { configureBuffering, type BufferingConfig } from './buffering';
+import { UnloadSafeLogExporter } from './unload-exporter';
+import { configureRedaction, type RedactionConfig } from './redaction';
+import { configureConsent, type ConsentConfig } from './consent';
+import { configureRoutes, type RouteConfig } from './routes';
+import { configureSession, type SessionConfig } from './session';
+import { configureVisitor, type VisitorConfig } from './visitor';
+import { setEventValidation } from './event-registry';
+import { configureBudget, flushEventBudget, type BudgetConfig } from './budget';
+import { getSessionResource } from './resource';
+import { OfflineLogQueue, PersistentLogExporter, type OfflineQueueConfig } from './offline-queue';
 
 export interface LogProviderConfig {
   /** Service name for OTEL resource */
   serviceName: string;
 
+  /** Release of the frontend (service.version), e.g. a semver or commit SHA */
+  serviceVersion?: string;
+
+  /** Deployment environment (deployment.environment.name), e.g. 'production' */
+  deploymentEnvironment?: string;
+
+  /** Extra OTLP resource attributes */
+  resourceAttributes?: Record<string, AttributeValue>;
+
+  /** Add browser.*, viewport and connection attributes to the resource (default: true) */
+  browserContext?: boolean;
+
   /** OTLP endpoint for logs (e.g., http://localhost:4318/v1/logs) */
   endpoint: string;
 
@@ -22,6 +51,39 @@ export interface LogProviderConfig {
   /** Enable debug logging */
   debug?: boolean;
 
+  /** Sample rate 0-1, default 1.0 (100%). Decided once per session */
+  sampleRate?: number;
+
+  /** Per-category sample rates overriding sampleRate (e.g. { 'user.error': 1 }) */
+  categorySampleRates?: Partial<Record<EventCategory, number>>;
+
+  /** Tail-based buffering: only export sessions once something interesting happens */
+  buffering?: BufferingConfig;
+
+  /** PII redaction applied to every record before export */
+  redaction?: RedactionConfig;
+
+  /** Consent gating for capture */
+  consent?: ConsentConfig;
+
+  /** Session idle timeout and maximum duration */
+  session?: SessionConfig;
+
+  /** Visitor ID storage and expiry */
+  visitor?: VisitorConfig;
+
+  /** Route templates for page.route */
+  routes?: RouteConfig;
+
+  /** Per-session event budgets and error de-duplication */
+  budget?: BudgetConfig;
+
+  /** Send records flushed at page hide/unload with sendBeacon or fetch keepalive (default: true) */
+  beaconOnUnload?: boolean;
+
+  /** Save failed exports to IndexedDB and retry them later */
+  offline?: OfflineQueueConfig;
+
   /** Batch processor configuration */
   batch?: {
     /** Max log records in queue before dropping, default 100 */
@@ -36,6 +98,8 @@ export interface LogProviderConfig {
 }
 
 let loggerProviderInstance: LoggerProvider | null = null;
+let removeUnloadListeners: (() => void) | null = null;
+let unloadFlush: (() => void) | null = null;
 
 /**
  * Creates and registers an OpenTelemetry log provider for session replay.
@@ -44,10 +108,50 @@ let loggerProviderInstance: LoggerProvider | null = null;
  * @returns The configured LoggerProvider instance
  */
 export function createSessionLogProvider(config: LogProviderConfig): LoggerProvider {
-  // Create resource with service name
-  const resource = resourceFromAttributes({
-    [ATTR_SERVICE_NAME]: config.serviceName,
-  });
+  // Only override sampling when configured here, so a trace provider
+  // created with a sample rate isn't reset by a log provider without one
+  if (config.sampleRate !== undefined || config.categorySampleRates) {
+    configureSampling({
+      sampleRate: config.sampleRate,
+      categorySampleRates: config.categorySampleRates,
+    });
+  }
+
+  if (config.buffering) {
+    configureBuffering(config.buffering);
+  }
+
+  if (config.redaction) {
+    configureRedaction(config.redaction);
+  }
+
+  if (config.consent) {
+    configureConsent(config.consent);
+  }
+
+  if (config.routes) {
+    configureRoutes(config.routes);
+  }
+
+  if (config.session) {
+    configureSession(config.session);
+  }
+
+  if (config.visitor) {
+    configureVisitor(config.visitor);
+  }
+
+  if (config.budget) {
+    configureBudget(config.budget);
+  }
+
+  // Check events against their defineEvent() schemas while debugging
+  if (config.debug) {
+    setEventValidation(true);
+  }
+
+  // Same resource as the trace provider when created from the same config
+  const resource = getSessionResource(config);
 
   // Configure exporter headers
   const headers: Record<string, string> = {};
@@ -71,23 +175,43 @@ export function createSessionLogProvider(config: LogProviderConfig): LoggerProvi
   }
 
   // Create OTLP log exporter
-  const exporter = new OTLPLogExporter({
+  let baseExporter: LogRecordExporter = new OTLPLogExporter({
     url: logsEndpoint,
     headers,
   });
 
-  // Use SimpleLogRecordProcessor for immediate export
-  // This ensures logs are sent before page unload
-  const logRecordProcessor = new SimpleLogRecordProcessor(exporter);
-
-  // Verify processor has onEmit
-  if (config.debug) {
-    console.log('[SessionReplay] Processor has onEmit:', typeof (logRecordProcessor as any).onEmit);
-    console.log('[SessionReplay] Exporter type:', exporter.constructor.name);
+  // Keep failed batches in IndexedDB and replay them when back online
+  if (config.offline?.enabled && OfflineLogQueue.isSupported()) {
+    const queue = new OfflineLogQueue(logsEndpoint, headers, config.offline);
+    baseExporter = new PersistentLogExporter(baseExporter, queue);
+    queue.start();
   }
 
+  // Wrap so unload-time flushes survive the page
+  const unloadExporter = config.beaconOnUnload === false
+    ? null
+    : new UnloadSafeLogExporter(baseExporter, { url: logsEndpoint, headers });
+  const exporter = unloadExporter ?? baseExporter;
+
+  // Batch records so each click isn't its own request; the page-hide
+  // flush below keeps the unload guarantee immediate export used to give
+  const batchConfig = config.batch ?? {};
+  const processorConfig: BatchLogRecordProcessorBrowserConfig = {
+    maxQueueSize: batchConfig.maxQueueSize ?? 100,
+    maxExportBatchSize: batchConfig.maxBatchSize ?? 10,
+    scheduledDelayMillis: batchConfig.scheduledDelayMs ?? 500,
+    exportTimeoutMillis: batchConfig.exportTimeoutMs ?? 30000,
+    // Flushing on hide is handled below so it works with every SDK build
+    disableAutoFlushOnDocumentHide: true,
+  };
+  const logRecordProcessor = new BatchLogRecordProcessor(exporter, processorConfig);
+
   if (config.debug) {
-    console.log('[SessionReplay] Using SimpleLogRecordProcessor for immediate export');
+    console.log('[SessionReplay] Using BatchLogRecordProcessor', {
+      maxQueueSize: batchConfig.maxQueueSize ?? 100,
+      maxBatchSize: batchConfig.maxBatchSize ?? 10,
+      scheduledDelayMs: batchConfig.scheduledDelayMs ?? 500,
+    });
   }
 
   // Create provider with processor
@@ -106,24 +230,45 @@ export function createSessionLogProvider(config: LogProviderConfig): LoggerProvi
   // Store instance for shutdown
   loggerProviderInstance = provider;
 
-  // Flush on page unload to ensure logs are sent
+  // Flush when the page is hidden or unloaded so queued logs aren't lost.
+  // The processor exports synchronously inside forceFlush, so toggling the
+  // exporter around it routes exactly this flush through beacon/keepalive.
+  const flushForUnload = () => {
+    // Release held errors and suppression summaries so they leave with the batch
+    flushEventBudget();
+    unloadExporter?.setUnloading(true);
+    const flushed = provider.forceFlush();
+    unloadExporter?.setUnloading(false);
+    flushed.catch(() => {});
+  };
+
+  unloadFlush = flushForUnload;
+  removeUnloadListeners?.();
   if (typeof window !== 'undefined') {
-    window.addEventListener('visibilitychange', () => {
+    const visibilityHandler = () => {
       if (document.visibilityState === 'hidden') {
-        // Force flush when page is hidden
-        provider.forceFlush().catch(() => {});
+        flushForUnload();
+      } else {
+        unloadExporter?.resetUnloadBudget();
       }
-    });
+    };
+    const pagehideHandler = () => {
+      flushForUnload();
+    };
 
-    window.addEventListener('beforeunload', () => {
-      provider.forceFlush().catch(() => {});
-    });
+    window.addEventListener('visibilitychange', visibilityHandler);
+    window.addEventListener('pagehide', pagehideHandler);
+    removeUnloadListeners = () => {
+      window.removeEventListener('visibilitychange', visibilityHandler);
+      window.removeEventListener('pagehide', pagehideHandler);
+    };
   }
 
   if (config.debug) {
     console.log('[SessionReplay] Log provider initialized', {
       serviceName: config.serviceName,
       endpoint: logsEndpoint,
+      sessionSampled: isSessionSampled(),
     });
   }
 
@@ -134,22 +279,28 @@ export function createSessionLogProvider(config: LogProviderConfig): LoggerProvi
  * Shuts down the log provider and flushes any pending log records.
  */
 export async function shutdownLogProvider(): Promise<void> {
+  removeUnloadListeners?.();
+  removeUnloadListeners = null;
+  unloadFlush = null;
+  flushEventBudget();
   if (loggerProviderInstance) {
     await loggerProviderInstance.shutdown();
     loggerProviderInstance = null;
+    // Unregister so a later createSessionLogProvider can register again
+    logs.disable();
   }
 }
 
 /**
- * Gets a logger instance for emitting log records.
- *
- * @param name - Logger name, defaults to 'session-replay'
- * @param version - Logger version
- * @returns Logger instance
+ * Sends queued records through beacon/keepalive right away. Call it after
+ * emitting events from a pagehide listener: the provider's own pagehide
+ * flush may already have run.
  */
-export function getLogger(name = 'session-replay', version = '0.0.1') {
-  return logs.getLogger(name, version);
+export function flushLogsForUnload(): void {
+  unloadFlush?.();
 }
 
+export { getLogger } from './logger';
+
 // Re-export SeverityNumber for convenience
 export { SeverityNumber };
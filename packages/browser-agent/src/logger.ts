@@ -0,0 +1,18 @@
+/**
+ * Logger access
+ * Kept out of log-provider.ts so that the modules it configures can emit
+ * records without importing it back.
+ */
+
+import { logs } from '@opentelemetry/api-logs';
+
+/**
+ * Gets a logger instance for emitting log records.
+ *
+ * @param name - Logger name, defaults to 'session-replay'
+ * @param version - Logger version
+ * @returns Logger instance
+ */
+export function getLogger(name = 'session-replay', version = '0.0.1') {
+  return logs.getLogger(name, version);
+}
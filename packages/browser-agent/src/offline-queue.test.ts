@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  LoggerProvider,
+  SimpleLogRecordProcessor,
+  type LogRecordExporter,
+  type ReadableLogRecord,
+} from '@opentelemetry/sdk-logs';
+import { OfflineLogQueue, PersistentLogExporter } from './offline-queue';
+
+const URL = 'http://collector/v1/logs';
+const EMITTED_AT = Date.now();
+
+/**
+ * Produces real ReadableLogRecords by running them through an SDK provider
+ */
+function createRecords(attributes: Array<Record<string, number>>): ReadableLogRecord[] {
+  const records: ReadableLogRecord[] = [];
+  const capture: LogRecordExporter = {
+    export: (logs, done) => {
+      records.push(...logs);
+      done({ code: 0 });
+    },
+    shutdown: () => Promise.resolve(),
+  };
+  const provider = new LoggerProvider({ processors: [new SimpleLogRecordProcessor(capture)] });
+  const logger = provider.getLogger('test');
+  for (const attrs of attributes) {
+    logger.emit({ body: 'user.click', timestamp: EMITTED_AT, attributes: attrs });
+  }
+  return records;
+}
+
+describe('OfflineLogQueue', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let queue: OfflineLogQueue;
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    fetchMock = vi.fn(() => Promise.resolve({ ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    queue?.stop();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should save payloads', async () => {
+    queue = new OfflineLogQueue(URL);
+
+    await queue.enqueue('{"resourceLogs":[]}');
+
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('should send saved payloads on flush and remove them', async () => {
+    queue = new OfflineLogQueue(URL, { Authorization: 'ApiKey secret' });
+    await queue.enqueue('first');
+    await queue.enqueue('second');
+
+    await queue.flush();
+
+    expect(fetchMock.mock.calls.map((call) => call[1].body)).toEqual(['first', 'second']);
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('ApiKey secret');
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should keep payloads when sending fails', async () => {
+    fetchMock.mockResolvedValue({ ok: false });
+    queue = new OfflineLogQueue(URL);
+    await queue.enqueue('first');
+
+    await queue.flush();
+
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('should drop payloads older than the TTL', async () => {
+    queue = new OfflineLogQueue(URL, {}, { ttlMs: 1000 });
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now);
+    await queue.enqueue('stale');
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + 2000);
+    await queue.flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should drop the oldest payloads over the size cap', async () => {
+    queue = new OfflineLogQueue(URL, {}, { maxBytes: 10 });
+
+    await queue.enqueue('aaaaaa');
+    await queue.enqueue('bbbbbb');
+    await queue.flush();
+
+    expect(fetchMock.mock.calls.map((call) => call[1].body)).toEqual(['bbbbbb']);
+  });
+
+  it('should replay payloads saved by a previous page on start', async () => {
+    await new OfflineLogQueue(URL).enqueue('from-last-page');
+
+    queue = new OfflineLogQueue(URL);
+    queue.start();
+
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+  });
+
+  it('should retry with backoff until sending succeeds', async () => {
+    fetchMock
+      .mockResolvedValueOnce({ ok: false })
+      .mockResolvedValueOnce({ ok: false })
+      .mockResolvedValue({ ok: true });
+    queue = new OfflineLogQueue(URL, {}, { baseRetryDelayMs: 5 });
+    await queue.enqueue('payload');
+
+    queue.start();
+
+    await vi.waitFor(async () => expect(await queue.size()).toBe(0));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry when the browser comes back online', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false });
+    queue = new OfflineLogQueue(URL, {}, { baseRetryDelayMs: 60000 });
+    await queue.enqueue('payload');
+    queue.start();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    window.dispatchEvent(new Event('online'));
+
+    await vi.waitFor(async () => expect(await queue.size()).toBe(0));
+  });
+
+  it('should count the size cap in UTF-8 bytes', async () => {
+    queue = new OfflineLogQueue(URL, {}, { maxBytes: 10 });
+
+    await queue.enqueue('éééé');
+    await queue.enqueue('üüüü');
+    await queue.flush();
+
+    expect(fetchMock.mock.calls.map((call) => call[1].body)).toEqual(['üüüü']);
+  });
+
+  it('should drop payloads the endpoint rejects', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 400 });
+    queue = new OfflineLogQueue(URL);
+    await queue.enqueue('invalid');
+    await queue.enqueue('valid');
+
+    await queue.flush();
+
+    expect(fetchMock.mock.calls.map((call) => call[1].body)).toEqual(['invalid', 'valid']);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should keep payloads when the endpoint is rate limiting', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 429 });
+    queue = new OfflineLogQueue(URL);
+    await queue.enqueue('first');
+
+    await queue.flush();
+
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('should send each payload once when several tabs flush', async () => {
+    fetchMock.mockImplementation(
+      () => new Promise((resolve) => setTimeout(() => resolve({ ok: true }), 5))
+    );
+    queue = new OfflineLogQueue(URL);
+    await queue.enqueue('first');
+    await queue.enqueue('second');
+
+    await Promise.all([queue.flush(), new OfflineLogQueue(URL).flush()]);
+
+    expect(fetchMock.mock.calls.map((call) => call[1].body).sort()).toEqual(['first', 'second']);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should send payloads claimed by a tab that closed once the claim expires', async () => {
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now);
+    // The closed tab's request never settles
+    fetchMock.mockReturnValueOnce(new Promise(() => {}));
+    queue = new OfflineLogQueue(URL);
+    await queue.enqueue('payload');
+    void new OfflineLogQueue(URL).flush();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    await queue.flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + 2 * 60 * 1000);
+    await queue.flush();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should back off instead of rejecting when IndexedDB fails', async () => {
+    vi.stubGlobal('indexedDB', {
+      open: () => {
+        throw new DOMException('blocked', 'SecurityError');
+      },
+    });
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+    queue = new OfflineLogQueue(URL);
+    queue.start();
+
+    await expect(queue.flush()).resolves.toBeUndefined();
+    expect(setTimeoutSpy).toHaveBeenCalled();
+  });
+});
+
+describe('PersistentLogExporter', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve({ ok: true })));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should not save batches the exporter delivers', async () => {
+    const queue = new OfflineLogQueue(URL);
+    const exporter = new PersistentLogExporter(
+      { export: (_logs, done) => done({ code: 0 }), shutdown: () => Promise.resolve() },
+      queue
+    );
+
+    exporter.export(createRecords([{ 'session.sequence': 0 }]), () => {});
+
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should save failed batches with their timestamps and sequence numbers', async () => {
+    const queue = new OfflineLogQueue(URL);
+    const exporter = new PersistentLogExporter(
+      { export: (_logs, done) => done({ code: 1 }), shutdown: () => Promise.resolve() },
+      queue
+    );
+
+    exporter.export(createRecords([{ 'session.sequence': 7 }, { 'session.sequence': 8 }]), () => {});
+    await vi.waitFor(async () => expect(await queue.size()).toBe(1));
+    await queue.flush();
+
+    const fetchMock = fetch as unknown as ReturnType<typeof vi.fn>;
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    const logRecords = body.resourceLogs[0].scopeLogs[0].logRecords;
+    expect(logRecords.map((r: { attributes: Array<{ value: { intValue: number } }> }) =>
+      r.attributes[0].value.intValue
+    )).toEqual([7, 8]);
+    expect(String(logRecords[0].timeUnixNano)).toBe(`${EMITTED_AT}000000`);
+  });
+});
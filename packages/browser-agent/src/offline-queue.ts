@@ -0,0 +1,374 @@
+/**
+ * Offline persistence queue
+ *
+ * When an OTLP export fails (offline, endpoint down, captive portal) the
+ * batch is serialized to OTLP JSON and saved to IndexedDB. Saved batches are
+ * replayed when the browser comes back online or on the next page load,
+ * with exponential backoff between failed attempts. Because the stored
+ * payload is the original OTLP request, timestamps and session.sequence are
+ * preserved exactly.
+ *
+ * Every open tab replays the same store, so a tab claims a batch before
+ * sending it. The claim expires, so a batch claimed by a tab that closed
+ * mid-send is picked up again later. Batches the endpoint rejects outright
+ * (4xx other than 408 and 429) are dropped instead of retried.
+ */
+
+import { ExportResultCode, type ExportResult } from '@opentelemetry/core';
+import type { LogRecordExporter, ReadableLogRecord } from '@opentelemetry/sdk-logs';
+import { JsonLogsSerializer } from '@opentelemetry/otlp-transformer';
+
+const DB_NAME = 'session_replay';
+const DB_VERSION = 1;
+const STORE_NAME = 'offline_logs';
+
+/**
+ * Configuration for the offline queue
+ */
+export interface OfflineQueueConfig {
+  /** Enable persisting failed exports (default: false) */
+  enabled?: boolean;
+  /** Max total payload bytes kept, oldest dropped first (default: 5MB) */
+  maxBytes?: number;
+  /** Drop batches older than this in ms (default: 24 hours) */
+  ttlMs?: number;
+  /** First retry delay in ms, doubled per failure (default: 1000) */
+  baseRetryDelayMs?: number;
+  /** Upper bound on the retry delay in ms (default: 300000) */
+  maxRetryDelayMs?: number;
+}
+
+interface QueuedBatch {
+  id?: number;
+  payload: string;
+  bytes: number;
+  createdAt: number;
+  /** Another tab is sending the batch until this time */
+  claimedUntil?: number;
+}
+
+/** Outcome of sending one saved batch */
+type SendResult = 'sent' | 'retry' | 'rejected';
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BASE_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+/** How long a claim keeps other tabs from sending a batch */
+const CLAIM_TTL_MS = 60 * 1000;
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Durable queue of serialized OTLP log requests
+ */
+export class OfflineLogQueue {
+  private config: Required<Omit<OfflineQueueConfig, 'enabled'>> & {
+    url: string;
+    headers: Record<string, string>;
+  };
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryAttempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private onlineHandler: (() => void) | null = null;
+
+  constructor(
+    url: string,
+    headers: Record<string, string> = {},
+    config: OfflineQueueConfig = {}
+  ) {
+    this.config = {
+      url,
+      headers,
+      maxBytes: config.maxBytes ?? DEFAULT_MAX_BYTES,
+      ttlMs: config.ttlMs ?? DEFAULT_TTL_MS,
+      baseRetryDelayMs: config.baseRetryDelayMs ?? DEFAULT_BASE_RETRY_DELAY_MS,
+      maxRetryDelayMs: config.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS,
+    };
+  }
+
+  /**
+   * Whether IndexedDB is available in this environment
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Starts retrying on `online` events and replays anything saved by a
+   * previous page
+   */
+  start(): void {
+    if (typeof window !== 'undefined' && !this.onlineHandler) {
+      this.onlineHandler = () => {
+        this.retryAttempt = 0;
+        void this.flush();
+      };
+      window.addEventListener('online', this.onlineHandler);
+    }
+    void this.flush();
+  }
+
+  /**
+   * Stops listening and cancels any scheduled retry. Saved batches stay
+   * in IndexedDB for the next page load.
+   */
+  stop(): void {
+    if (this.onlineHandler) {
+      window.removeEventListener('online', this.onlineHandler);
+      this.onlineHandler = null;
+    }
+    this.clearRetryTimer();
+  }
+
+  /**
+   * Saves a serialized OTLP request, then enforces the TTL and size cap
+   */
+  async enqueue(payload: string): Promise<void> {
+    const db = await this.openDb();
+    const batch: QueuedBatch = {
+      payload,
+      bytes: new TextEncoder().encode(payload).byteLength,
+      createdAt: Date.now(),
+    };
+    await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).add(batch));
+    await this.prune();
+    this.scheduleRetry();
+  }
+
+  /**
+   * Number of batches currently saved
+   */
+  async size(): Promise<number> {
+    const db = await this.openDb();
+    return promisify(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).count());
+  }
+
+  /**
+   * Sends saved batches oldest first, stopping at the first failure and
+   * scheduling a retry with backoff. Never rejects: storage errors are
+   * retried with backoff as well.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushQueued()
+        .catch(() => this.backOff())
+        .finally(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  private async flushQueued(): Promise<void> {
+    this.clearRetryTimer();
+    await this.prune();
+
+    const batches = await this.getAll();
+    for (const { id } of batches) {
+      const batch = await this.claim(id!);
+      // Another tab is sending it
+      if (!batch) continue;
+
+      const result = await this.send(batch.payload);
+      if (result === 'retry') {
+        await this.release(batch);
+        this.backOff();
+        return;
+      }
+      await this.delete(batch.id!);
+    }
+    this.retryAttempt = 0;
+  }
+
+  /**
+   * Posts one saved payload. 408 and 429 are worth retrying; any other
+   * 4xx would be rejected again.
+   */
+  private async send(payload: string): Promise<SendResult> {
+    if (typeof fetch !== 'function') return 'retry';
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return 'retry';
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: payload,
+      });
+      if (response.ok) return 'sent';
+      const { status } = response;
+      return status >= 400 && status < 500 && status !== 408 && status !== 429 ? 'rejected' : 'retry';
+    } catch {
+      return 'retry';
+    }
+  }
+
+  /**
+   * Marks a batch as being sent by this tab, resolving to null when it is
+   * gone or claimed by another tab. Reading and marking in one readwrite
+   * transaction keeps two tabs from claiming the same batch.
+   */
+  private async claim(id: number): Promise<QueuedBatch | null> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      let claimed: QueuedBatch | null = null;
+
+      const request = store.get(id) as IDBRequest<QueuedBatch | undefined>;
+      request.onsuccess = () => {
+        const batch = request.result;
+        const now = Date.now();
+        if (!batch || (batch.claimedUntil ?? 0) > now) return;
+        claimed = { ...batch, claimedUntil: now + CLAIM_TTL_MS };
+        store.put(claimed);
+      };
+      transaction.oncomplete = () => resolve(claimed);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Gives up this tab's claim so the batch can be retried
+   */
+  private async release(batch: QueuedBatch): Promise<void> {
+    const db = await this.openDb();
+    await promisify(
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put({ ...batch, claimedUntil: 0 })
+    );
+  }
+
+  /**
+   * Deletes expired batches, then the oldest until under the size cap
+   */
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.config.ttlMs;
+    const batches = await this.getAll();
+    let totalBytes = batches.reduce((sum, batch) => sum + batch.bytes, 0);
+
+    for (const batch of batches) {
+      if (batch.createdAt < cutoff || totalBytes > this.config.maxBytes) {
+        await this.delete(batch.id!);
+        totalBytes -= batch.bytes;
+      }
+    }
+  }
+
+  private backOff(): void {
+    this.retryAttempt++;
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer || !this.onlineHandler) return;
+
+    const delay = Math.min(
+      this.config.baseRetryDelayMs * 2 ** this.retryAttempt,
+      this.config.maxRetryDelayMs
+    );
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async getAll(): Promise<QueuedBatch[]> {
+    const db = await this.openDb();
+    return promisify(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<QueuedBatch[]>
+    );
+  }
+
+  private async delete(id: number): Promise<void> {
+    const db = await this.openDb();
+    await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id));
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Try opening again next time, e.g. after a transient failure
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+/**
+ * Log exporter that saves batches the wrapped exporter fails to deliver
+ */
+export class PersistentLogExporter implements LogRecordExporter {
+  private delegate: LogRecordExporter & { forceFlush?(): Promise<void> };
+  private queue: OfflineLogQueue;
+
+  constructor(
+    delegate: LogRecordExporter & { forceFlush?(): Promise<void> },
+    queue: OfflineLogQueue
+  ) {
+    this.delegate = delegate;
+    this.queue = queue;
+  }
+
+  export(logs: ReadableLogRecord[], resultCallback: (result: ExportResult) => void): void {
+    // Don't burn a request (and its retries) when the browser knows it's offline
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.persist(logs);
+      resultCallback({ code: ExportResultCode.SUCCESS });
+      return;
+    }
+
+    this.delegate.export(logs, (result) => {
+      if (result.code !== ExportResultCode.SUCCESS) {
+        this.persist(logs);
+      }
+      resultCallback(result);
+    });
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.delegate.forceFlush?.();
+  }
+
+  shutdown(): Promise<void> {
+    this.queue.stop();
+    return this.delegate.shutdown();
+  }
+
+  /**
+   * Saves records to the offline queue for a later retry
+   */
+  persist(logs: ReadableLogRecord[]): void {
+    const payload = JsonLogsSerializer.serializeRequest(logs);
+    if (!payload) return;
+
+    this.queue.enqueue(new TextDecoder().decode(payload)).catch(() => {
+      // Storage unavailable or over quota: the batch is lost as before
+    });
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import { observe, use, type SessionEventRecord } from './pipeline';
+import { emitSessionEvent } from './events';
+
+function emitClick(name = 'user.click'): void {
+  emitSessionEvent({ name, attributes: { 'event.category': 'user.interaction' } });
+}
+
+describe('event middleware', () => {
+  const removers: Array<() => void> = [];
+
+  beforeEach(() => {
+    emitted.length = 0;
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    removers.splice(0).forEach((remove) => remove());
+    vi.restoreAllMocks();
+  });
+
+  it('should see the full record', () => {
+    const seen: SessionEventRecord[] = [];
+    removers.push(use((record, next) => {
+      seen.push(record);
+      next(record);
+    }));
+
+    emitClick();
+
+    expect(seen[0].name).toBe('user.click');
+    expect(seen[0].attributes['session.id']).toBeDefined();
+    expect(emitted).toHaveLength(1);
+  });
+
+  it('should enrich records', () => {
+    removers.push(use((record, next) => {
+      next({ ...record, attributes: { ...record.attributes, 'app.region': 'eu' } });
+    }));
+
+    emitClick();
+
+    expect(emitted[0].attributes?.['app.region']).toBe('eu');
+  });
+
+  it('should drop records when next is not called', () => {
+    removers.push(use((record, next) => {
+      if (record.name !== 'debug.noise') next(record);
+    }));
+
+    emitClick('debug.noise');
+    emitClick();
+
+    expect(emitted.map((record) => record.body)).toEqual(['user.click']);
+  });
+
+  it('should run in the order added', () => {
+    const order: string[] = [];
+    removers.push(
+      use((record, next) => {
+        order.push('first');
+        next(record);
+      }),
+      use((record, next) => {
+        order.push('second');
+        next(record);
+      })
+    );
+
+    emitClick();
+
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  it('should redact after middleware runs', () => {
+    removers.push(use((record, next) => {
+      next({ ...record, attributes: { ...record.attributes, 'user.note': 'mail jane@example.com' } });
+    }));
+
+    emitClick();
+
+    expect(emitted[0].attributes?.['user.note']).toBe('mail [REDACTED]');
+  });
+
+  it('should skip middleware that throws', () => {
+    removers.push(use(() => {
+      throw new Error('enricher bug');
+    }));
+
+    emitClick();
+
+    expect(emitted).toHaveLength(1);
+  });
+
+  it('should stop running once removed', () => {
+    const remove = use(() => {});
+    remove();
+
+    emitClick();
+
+    expect(emitted).toHaveLength(1);
+  });
+});
+
+describe('event observers', () => {
+  const removers: Array<() => void> = [];
+
+  beforeEach(() => {
+    emitted.length = 0;
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    removers.splice(0).forEach((remove) => remove());
+    vi.restoreAllMocks();
+  });
+
+  it('should see records after middleware and redaction', () => {
+    const seen: SessionEventRecord[] = [];
+    removers.push(use((record, next) => {
+      next({ ...record, attributes: { ...record.attributes, 'user.note': 'mail jane@example.com' } });
+    }));
+    removers.push(observe((record) => seen.push(record)));
+
+    emitClick();
+
+    expect(seen[0].name).toBe('user.click');
+    expect(seen[0].attributes['user.note']).toBe('mail [REDACTED]');
+  });
+
+  it('should not see dropped records', () => {
+    const seen: SessionEventRecord[] = [];
+    removers.push(use(() => {}));
+    removers.push(observe((record) => seen.push(record)));
+
+    emitClick();
+
+    expect(seen).toHaveLength(0);
+  });
+
+  it('should skip observers that throw', () => {
+    removers.push(observe(() => {
+      throw new Error('observer bug');
+    }));
+
+    emitClick();
+
+    expect(emitted).toHaveLength(1);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Event middleware
+ *
+ * An ordered chain run on every session event once its attributes are
+ * built, before redaction and export. Middleware can enrich or rewrite the
+ * record and pass it on with next(), or drop it by not calling next().
+ * Observers see each record as it leaves the agent, after redaction.
+ */
+
+import type { SeverityNumber } from '@opentelemetry/api-logs';
+
+/**
+ * A session event on its way to the logger
+ */
+export interface SessionEventRecord {
+  /** Event name (becomes the log body) */
+  name: string;
+  /** When the event happened (epoch ms) */
+  timestamp: number;
+  severityNumber: SeverityNumber;
+  /** Full attribute map, including session and page context */
+  attributes: Record<string, string | number | boolean>;
+}
+
+/**
+ * Receives each record and calls next() with it (or a replacement) to
+ * continue, or returns without calling next() to drop it
+ */
+export type EventMiddleware = (
+  record: SessionEventRecord,
+  next: (record: SessionEventRecord) => void
+) => void;
+
+/**
+ * Receives each record as it is exported, after redaction. Observers
+ * can't change or drop records.
+ */
+export type EventObserver = (record: SessionEventRecord) => void;
+
+const middlewares: EventMiddleware[] = [];
+const observers = new Set<EventObserver>();
+
+/**
+ * Appends middleware to the chain. Middleware runs in the order added.
+ *
+ * @returns Function that removes the middleware
+ */
+export function use(middleware: EventMiddleware): () => void {
+  middlewares.push(middleware);
+  return () => {
+    const index = middlewares.indexOf(middleware);
+    if (index !== -1) {
+      middlewares.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Adds an observer of redacted records
+ *
+ * @returns Function that removes the observer
+ */
+export function observe(observer: EventObserver): () => void {
+  observers.add(observer);
+  return () => {
+    observers.delete(observer);
+  };
+}
+
+/**
+ * Removes all middleware and observers
+ */
+export function clearMiddleware(): void {
+  middlewares.length = 0;
+  observers.clear();
+}
+
+/**
+ * Hands a redacted record to every observer. An observer that throws is
+ * skipped so it can't break export.
+ */
+export function notifyObservers(record: SessionEventRecord): void {
+  for (const observer of observers) {
+    try {
+      observer(record);
+    } catch (error) {
+      console.debug('[SessionReplay] Observer failed:', error);
+    }
+  }
+}
+
+/**
+ * Passes a record through the chain and hands whatever comes out to done.
+ * Middleware that throws before calling next() is skipped, so a faulty
+ * enricher can't silently drop events.
+ */
+export function runMiddleware(
+  record: SessionEventRecord,
+  done: (record: SessionEventRecord) => void
+): void {
+  const chain = [...middlewares];
+
+  const step = (index: number, current: SessionEventRecord): void => {
+    const middleware = chain[index];
+    if (!middleware) {
+      done(current);
+      return;
+    }
+
+    let continued = false;
+    const next = (result: SessionEventRecord): void => {
+      if (continued) return;
+      continued = true;
+      step(index + 1, result);
+    };
+
+    try {
+      middleware(current, next);
+    } catch (error) {
+      console.debug('[SessionReplay] Middleware failed:', error);
+      next(current);
+    }
+  };
+
+  step(0, record);
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('./events', () => ({
+  emitSessionEvent: vi.fn(),
+}));
+
+vi.mock('./pipeline', () => ({
+  use: vi.fn(() => vi.fn()),
+}));
+
+import { createPluginHost, type SessionReplayAgent, type SessionReplayPlugin } from './plugins';
+import { emitSessionEvent } from './events';
+import { use } from './pipeline';
+import { configureConsent, setConsent } from './consent';
+
+function createToggleable() {
+  return { enable: vi.fn(), disable: vi.fn() };
+}
+
+describe('plugin host', () => {
+  let paused: boolean;
+
+  function createHost() {
+    return createPluginHost({ window, document, isPaused: () => paused });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    paused = false;
+  });
+
+  afterEach(() => {
+    configureConsent({});
+  });
+
+  it('should call setup with the agent', () => {
+    let agent: SessionReplayAgent | undefined;
+    createHost().install({ name: 'probe', setup: (a) => (agent = a) });
+
+    agent!.emit({ name: 'custom.event', attributes: { 'event.category': 'user.interaction' } });
+
+    expect(agent!.document).toBe(document);
+    expect(emitSessionEvent).toHaveBeenCalledWith(expect.objectContaining({ name: 'custom.event' }));
+  });
+
+  it('should enable gated instrumentations', () => {
+    const instrumentation = createToggleable();
+    createHost().install({
+      name: 'detector',
+      setup: (agent) => agent.gate(instrumentation, 'user.interaction'),
+    });
+
+    expect(instrumentation.enable).toHaveBeenCalled();
+  });
+
+  it('should follow consent', () => {
+    configureConsent({ enabled: true, initialState: 'essential' });
+    const errors = createToggleable();
+    const clicks = createToggleable();
+    const host = createHost();
+    host.install({
+      name: 'detectors',
+      setup: (agent) => {
+        agent.gate(errors, 'user.error');
+        agent.gate(clicks, 'user.interaction');
+      },
+    });
+
+    expect(errors.enable).toHaveBeenCalled();
+    expect(clicks.enable).not.toHaveBeenCalled();
+
+    setConsent('analytics');
+    host.sync();
+    expect(clicks.enable).toHaveBeenCalled();
+  });
+
+  it('should only pause pausable instrumentations', () => {
+    const clicks = createToggleable();
+    const navigation = createToggleable();
+    const host = createHost();
+    host.install({
+      name: 'detectors',
+      setup: (agent) => {
+        agent.gate(clicks, 'user.interaction');
+        agent.gate(navigation, 'user.navigation', { pausable: false });
+      },
+    });
+    vi.clearAllMocks();
+
+    paused = true;
+    host.sync();
+
+    expect(clicks.disable).toHaveBeenCalled();
+    expect(navigation.disable).not.toHaveBeenCalled();
+  });
+
+  it('should remove middleware and disable instrumentations on teardown', () => {
+    const instrumentation = createToggleable();
+    const teardown = vi.fn();
+    const host = createHost();
+    host.install({
+      name: 'enricher',
+      setup: (agent) => {
+        agent.use((record, next) => next(record));
+        agent.gate(instrumentation, 'user.interaction');
+      },
+      teardown,
+    });
+    const removeMiddleware = vi.mocked(use).mock.results[0].value;
+
+    host.teardown();
+
+    expect(removeMiddleware).toHaveBeenCalled();
+    expect(instrumentation.disable).toHaveBeenCalled();
+    expect(teardown).toHaveBeenCalled();
+  });
+
+  it('should tear plugins down in reverse order', () => {
+    const order: string[] = [];
+    const plugin = (name: string): SessionReplayPlugin => ({
+      name,
+      setup: () => {},
+      teardown: () => order.push(name),
+    });
+    const host = createHost();
+    host.install(plugin('first'));
+    host.install(plugin('second'));
+
+    host.teardown();
+
+    expect(order).toEqual(['second', 'first']);
+  });
+
+  it('should uninstall a single plugin', () => {
+    const order: string[] = [];
+    const plugin = (name: string): SessionReplayPlugin => ({
+      name,
+      setup: () => {},
+      teardown: () => order.push(name),
+    });
+    const host = createHost();
+    const first = plugin('first');
+    host.install(first);
+    host.install(plugin('second'));
+
+    host.uninstall(first);
+    host.uninstall(first);
+    host.teardown();
+
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  it('should clean up after a plugin that fails to set up', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const instrumentation = createToggleable();
+    const teardown = vi.fn();
+    const host = createHost();
+
+    host.install({
+      name: 'broken',
+      setup: (agent) => {
+        agent.gate(instrumentation, 'user.interaction');
+        throw new Error('missing dependency');
+      },
+      teardown,
+    });
+    host.teardown();
+
+    expect(instrumentation.disable).toHaveBeenCalled();
+    expect(teardown).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+});
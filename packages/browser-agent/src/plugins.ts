@@ -0,0 +1,166 @@
+/**
+ * Plugin interface
+ *
+ * Plugins add detectors, enrichers and filters without changing the
+ * emitter. setup() receives the agent to emit events, add middleware and
+ * register instrumentations; the host keeps those instrumentations in step
+ * with consent and pause/resume, and undoes everything on teardown.
+ */
+
+import { emitSessionEvent, type EmitEventOptions, type EventCategory } from './events';
+import { observe, use, type EventMiddleware, type EventObserver } from './pipeline';
+import { hasConsentFor, isHoldingEvents } from './consent';
+import { ClickHub } from './semantic/clicks';
+
+/**
+ * Shape shared by every instrumentation
+ */
+export interface Toggleable {
+  enable(): void;
+  disable(): void;
+}
+
+/**
+ * What a plugin can do during setup
+ */
+export interface SessionReplayAgent {
+  readonly window: Window;
+  readonly document: Document;
+  /** The one document click listener, shared by every click consumer */
+  readonly clickHub: ClickHub;
+  /** Emits a session event through the middleware chain, returning its session.sequence */
+  emit(options: EmitEventOptions): number | undefined;
+  /** Adds middleware, removed again when the plugin is torn down */
+  use(middleware: EventMiddleware): void;
+  /** Sees every record after redaction, removed again when the plugin is torn down */
+  observe(observer: EventObserver): void;
+  /**
+   * Runs an instrumentation only while its category has consent (or events
+   * are being held) and, when pausable, capture isn't paused
+   */
+  gate(instance: Toggleable, category: EventCategory, options?: { pausable?: boolean }): void;
+  /** Whether capture is currently paused */
+  isPaused(): boolean;
+}
+
+/**
+ * A unit of instrumentation installed by initSessionReplay
+ */
+export interface SessionReplayPlugin {
+  /** Identifies the plugin in debug output */
+  readonly name: string;
+  setup(agent: SessionReplayAgent): void;
+  teardown?(): void;
+}
+
+/**
+ * Installs plugins and applies consent and pause state to them
+ */
+export interface PluginHost {
+  install(plugin: SessionReplayPlugin): void;
+  /** Tears one plugin down, e.g. to install it again with other options */
+  uninstall(plugin: SessionReplayPlugin): void;
+  /** Re-applies consent and pause state to every gated instrumentation */
+  sync(): void;
+  /** Tears plugins down in reverse install order */
+  teardown(): void;
+}
+
+/** An instrumentation with the event category its consent depends on */
+interface GatedInstrumentation {
+  instance: Toggleable;
+  category: EventCategory;
+  pausable: boolean;
+}
+
+interface InstalledPlugin {
+  plugin: SessionReplayPlugin;
+  gated: GatedInstrumentation[];
+  removers: Array<() => void>;
+}
+
+/**
+ * Creates a plugin host for the given window
+ *
+ * @param options - Browser globals and the pause state to honor
+ */
+export function createPluginHost(options: {
+  window: Window;
+  document: Document;
+  isPaused: () => boolean;
+}): PluginHost {
+  const installed: InstalledPlugin[] = [];
+  const clickHub = new ClickHub({ document: options.document });
+
+  const syncOne = ({ instance, category, pausable }: GatedInstrumentation): void => {
+    const allowed = hasConsentFor(category) || isHoldingEvents();
+    if (allowed && !(pausable && options.isPaused())) {
+      instance.enable();
+    } else {
+      instance.disable();
+    }
+  };
+
+  const cleanUp = (entry: InstalledPlugin): void => {
+    entry.removers.forEach((remove) => remove());
+    entry.gated.forEach(({ instance }) => instance.disable());
+  };
+
+  const remove = (entry: InstalledPlugin): void => {
+    cleanUp(entry);
+    try {
+      entry.plugin.teardown?.();
+    } catch (error) {
+      console.warn(`[SessionReplay] Plugin ${entry.plugin.name} failed to tear down:`, error);
+    }
+  };
+
+  return {
+    install(plugin) {
+      const entry: InstalledPlugin = { plugin, gated: [], removers: [] };
+      const agent: SessionReplayAgent = {
+        window: options.window,
+        document: options.document,
+        clickHub,
+        emit: emitSessionEvent,
+        use(middleware) {
+          entry.removers.push(use(middleware));
+        },
+        observe(observer) {
+          entry.removers.push(observe(observer));
+        },
+        gate(instance, category, gateOptions = {}) {
+          const gated = { instance, category, pausable: gateOptions.pausable ?? true };
+          entry.gated.push(gated);
+          syncOne(gated);
+        },
+        isPaused: options.isPaused,
+      };
+
+      try {
+        plugin.setup(agent);
+        installed.push(entry);
+      } catch (error) {
+        console.warn(`[SessionReplay] Plugin ${plugin.name} failed to set up:`, error);
+        cleanUp(entry);
+      }
+    },
+
+    uninstall(plugin) {
+      const index = installed.findIndex((entry) => entry.plugin === plugin);
+      if (index !== -1) {
+        remove(installed.splice(index, 1)[0]);
+      }
+    },
+
+    sync() {
+      for (const entry of installed) {
+        entry.gated.forEach(syncOne);
+      }
+    },
+
+    teardown() {
+      installed.splice(0).reverse().forEach(remove);
+    },
+  };
+}
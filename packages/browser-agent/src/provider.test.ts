@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import { trace } from '@opentelemetry/api';
 import { createSessionReplayProvider, shutdownProvider } from './provider';
+import { configureSampling } from './sampling';
 import type { SessionReplayConfig } from './types';
 
 describe('SessionReplayProvider', () => {
@@ -11,6 +12,7 @@ describe('SessionReplayProvider', () => {
 
   afterEach(async () => {
     await shutdownProvider();
+    configureSampling({});
     // Reset the global tracer provider
     vi.restoreAllMocks();
   });
@@ -44,6 +46,14 @@ describe('SessionReplayProvider', () => {
       expect(() => createSessionReplayProvider(config)).not.toThrow();
     });
 
+    it('should not record spans when the session is not sampled', () => {
+      const provider = createSessionReplayProvider({ ...defaultConfig, sampleRate: 0 });
+
+      const span = provider.getTracer('session-replay').startSpan('test-span');
+      expect(span.isRecording()).toBe(false);
+      span.end();
+    });
+
     it('should configure batch processor with custom settings', () => {
       const config: SessionReplayConfig = {
         ...defaultConfig,
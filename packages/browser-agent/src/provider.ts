@@ -2,9 +2,10 @@ import { trace } from '@opentelemetry/api';
 import { WebTracerProvider } from '@opentelemetry/sdk-trace-web';
 import { BatchSpanProcessor } from '@opentelemetry/sdk-trace-base';
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
-import { resourceFromAttributes } from '@opentelemetry/resources';
-import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
 import type { SessionReplayConfig } from './types';
+import { configureSampling, isSessionSampled, SessionSampler } from './sampling';
+import { configureConsent } from './consent';
+import { getSessionResource } from './resource';
 
 let providerInstance: WebTracerProvider | null = null;
 
@@ -17,10 +18,19 @@ let providerInstance: WebTracerProvider | null = null;
 export function createSessionReplayProvider(
   config: SessionReplayConfig
 ): WebTracerProvider {
-  // Create resource with service name
-  const resource = resourceFromAttributes({
-    [ATTR_SERVICE_NAME]: config.serviceName,
-  });
+  if (config.sampleRate !== undefined || config.categorySampleRates) {
+    configureSampling({
+      sampleRate: config.sampleRate,
+      categorySampleRates: config.categorySampleRates,
+    });
+  }
+
+  if (config.consent) {
+    configureConsent(config.consent);
+  }
+
+  // Shared with the log provider
+  const resource = getSessionResource(config);
 
   // Configure exporter headers
   const headers: Record<string, string> = {};
@@ -43,9 +53,10 @@ export function createSessionReplayProvider(
     exportTimeoutMillis: batchConfig.exportTimeoutMs ?? 30000,
   });
 
-  // Create provider
+  // Create provider (spans follow the session sampling decision)
   const provider = new WebTracerProvider({
     resource,
+    sampler: new SessionSampler(),
     spanProcessors: [spanProcessor],
   });
 
@@ -60,6 +71,7 @@ export function createSessionReplayProvider(
       serviceName: config.serviceName,
       endpoint: config.endpoint,
       sampleRate: config.sampleRate ?? 1.0,
+      sessionSampled: isSessionSampled(),
     });
   }
 
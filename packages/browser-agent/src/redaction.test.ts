@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import {
+  configureRedaction,
+  hashValue,
+  redactAttributes,
+  redactText,
+  redactUrl,
+} from './redaction';
+import { emitErrorEvent } from './events';
+import { flushEventBudget } from './budget';
+import { clearUser, setSessionUser } from './session';
+
+describe('redaction', () => {
+  afterEach(() => {
+    configureRedaction({});
+  });
+
+  describe('redactText', () => {
+    it('should mask email addresses', () => {
+      expect(redactText('Contact jane.doe@example.com for help')).toBe('Contact [REDACTED] for help');
+    });
+
+    it('should mask card numbers that pass the Luhn check', () => {
+      expect(redactText('Card 4111 1111 1111 1111 declined')).toBe('Card [REDACTED] declined');
+      expect(redactText('Card 4111-1111-1111-1111')).toBe('Card [REDACTED]');
+    });
+
+    it('should keep long numbers that are not card numbers', () => {
+      expect(redactText('Order 1234567890123')).toBe('Order 1234567890123');
+    });
+
+    it('should mask phone numbers', () => {
+      expect(redactText('Call +1 555 123 4567')).toBe('Call [REDACTED]');
+      expect(redactText('Call (555) 123-4567 today')).toBe('Call [REDACTED] today');
+    });
+
+    it('should mask JWTs', () => {
+      expect(redactText('Bearer eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl')).toBe('Bearer [REDACTED]');
+    });
+
+    it('should skip disabled detectors', () => {
+      const text = 'jane@example.com';
+
+      expect(redactText(text, { detectors: { emails: false } })).toBe(text);
+    });
+  });
+
+  describe('redactUrl', () => {
+    it('should mask token-like query parameters', () => {
+      expect(redactUrl('https://shop.test/reset?token=abc123&step=2')).toBe(
+        'https://shop.test/reset?token=[REDACTED]&step=2'
+      );
+    });
+
+    it('should mask tokens in fragment parameters', () => {
+      expect(redactUrl('https://shop.test/callback#access_token=abc&state=x')).toBe(
+        'https://shop.test/callback#access_token=[REDACTED]&state=x'
+      );
+    });
+
+    it('should leave plain hash routes alone', () => {
+      expect(redactUrl('https://shop.test/#/cart')).toBe('https://shop.test/#/cart');
+    });
+
+    it('should mask every parameter not on the allow-list', () => {
+      const url = 'https://shop.test/search?q=shoes&utm_source=ads&email=a%40b.com';
+
+      expect(redactUrl(url, { allowedQueryParams: ['utm_source'] })).toBe(
+        'https://shop.test/search?q=[REDACTED]&utm_source=ads&email=[REDACTED]'
+      );
+    });
+
+    it('should honor custom token parameters', () => {
+      expect(redactUrl('https://shop.test/?invite=xyz', { tokenParams: ['invite'] })).toBe(
+        'https://shop.test/?invite=[REDACTED]'
+      );
+    });
+  });
+
+  describe('redactAttributes', () => {
+    it('should apply per-key rules', () => {
+      const result = redactAttributes(
+        { 'user.email': 'jane@example.com', 'user.name': 'Jane', 'target.data.ssn': '123' },
+        { rules: { 'user.email': 'hash', 'user.name': 'mask', 'target.data.*': 'drop' } }
+      );
+
+      expect(result).toEqual({
+        'user.email': hashValue('jane@example.com'),
+        'user.name': '[REDACTED]',
+      });
+    });
+
+    it('should prefer exact rules over prefix rules', () => {
+      const result = redactAttributes(
+        { 'target.data.plan': 'pro' },
+        { rules: { 'target.data.*': 'drop', 'target.data.plan': 'mask' } }
+      );
+
+      expect(result).toEqual({ 'target.data.plan': '[REDACTED]' });
+    });
+
+    it('should redact URLs in URL attributes', () => {
+      const result = redactAttributes({ 'page.url': 'https://shop.test/?token=abc' });
+
+      expect(result['page.url']).toBe('https://shop.test/?token=[REDACTED]');
+    });
+
+    it('should keep numeric ids in URL paths and routes', () => {
+      const result = redactAttributes({
+        'page.url': 'https://shop.test/orders/2024-1234-5678?contact=555-123-4567',
+        'page.route': '/orders/2024-1234-5678',
+      });
+
+      expect(result).toEqual({
+        'page.url': 'https://shop.test/orders/2024-1234-5678?contact=[REDACTED]',
+        'page.route': '/orders/2024-1234-5678',
+      });
+    });
+
+    it('should still mask emails in URL paths', () => {
+      const result = redactAttributes({ 'page.url': 'https://shop.test/users/jane@example.com' });
+
+      expect(result['page.url']).toBe('https://shop.test/users/[REDACTED]');
+    });
+
+    it('should not scan session and trace attributes', () => {
+      const attributes = { 'session.id': '4111-1111-1111-1111', 'session.sequence': 3 };
+
+      expect(redactAttributes(attributes)).toEqual(attributes);
+    });
+
+    it('should pass attributes through when disabled', () => {
+      const attributes = { 'error.message': 'jane@example.com' };
+
+      expect(redactAttributes(attributes, { enabled: false })).toBe(attributes);
+    });
+
+    it('should use the configured mask and hash salt', () => {
+      const result = redactAttributes(
+        { 'error.message': 'jane@example.com', 'user.id': 'u1' },
+        { mask: '***', hashSalt: 'pepper', rules: { 'user.id': 'hash' } }
+      );
+
+      expect(result['error.message']).toBe('***');
+      expect(result['user.id']).toBe(hashValue('u1', 'pepper'));
+      expect(result['user.id']).not.toBe(hashValue('u1'));
+    });
+  });
+
+  describe('emitSessionEvent', () => {
+    beforeEach(() => {
+      emitted.length = 0;
+      sessionStorage.clear();
+      vi.spyOn(console, 'debug').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      clearUser();
+      vi.restoreAllMocks();
+    });
+
+    it('should redact records before they are emitted', () => {
+      configureRedaction({ rules: { 'user.email': 'drop' } });
+      setSessionUser({ id: 'u1', email: 'jane@example.com' });
+
+      emitErrorEvent('Payment failed for jane@example.com');
+      flushEventBudget();
+
+      const attributes = emitted[0].attributes!;
+      expect(attributes['error.message']).toBe('Payment failed for [REDACTED]');
+      expect(attributes).not.toHaveProperty('user.email');
+      expect(attributes['user.id']).toBe('u1');
+    });
+  });
+});
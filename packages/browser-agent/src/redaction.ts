@@ -0,0 +1,303 @@
+/**
+ * Attribute redaction pipeline
+ *
+ * Every session event passes through redactAttributes() before it reaches
+ * the logger. Per-key rules run first (mask, hash or drop), then URL
+ * attributes have sensitive query parameters masked, then the built-in
+ * detectors scrub emails, card numbers, phone numbers and URL tokens from
+ * every remaining string value. Numeric ids in URL paths and routes look
+ * like phone numbers, so phone numbers are only detected in their query
+ * and fragment.
+ */
+
+/**
+ * What to do with a matching attribute
+ * - mask: replace the value with the mask string
+ * - hash: replace the value with a stable pseudonymous hash
+ * - drop: remove the attribute
+ */
+export type RedactionAction = 'mask' | 'hash' | 'drop';
+
+/**
+ * Built-in detectors applied to string values
+ */
+export interface RedactionDetectors {
+  /** Email addresses (default: true) */
+  emails?: boolean;
+  /** Card numbers passing the Luhn check (default: true) */
+  cardNumbers?: boolean;
+  /** Phone numbers (default: true) */
+  phoneNumbers?: boolean;
+  /** Token-like query parameters and JWTs in URLs (default: true) */
+  urlTokens?: boolean;
+}
+
+/**
+ * Redaction configuration
+ */
+export interface RedactionConfig {
+  /** Enable redaction (default: true) */
+  enabled?: boolean;
+  /** Built-in detectors to run; all are on by default */
+  detectors?: RedactionDetectors;
+  /**
+   * Per-attribute rules, e.g. `{ 'user.email': 'hash', 'target.data.*': 'drop' }`.
+   * A trailing `*` matches any key with that prefix.
+   */
+  rules?: Record<string, RedactionAction>;
+  /**
+   * Allow-list mode for query parameters: when set, values of every other
+   * parameter are masked in URL attributes
+   */
+  allowedQueryParams?: string[];
+  /** Extra query parameter names treated as tokens by the urlTokens detector */
+  tokenParams?: string[];
+  /** Attributes holding URLs (default: page.url, navigation.url, navigation.from_url, navigation.referrer, error.filename) */
+  urlAttributes?: string[];
+  /** Replacement text for masked values (default: '[REDACTED]') */
+  mask?: string;
+  /** Salt mixed into hashed values so they can't be matched across deployments */
+  hashSalt?: string;
+}
+
+const DEFAULT_MASK = '[REDACTED]';
+
+const DEFAULT_URL_ATTRIBUTES = [
+  'page.url',
+  'navigation.url',
+  'navigation.from_url',
+  'navigation.referrer',
+  'error.filename',
+];
+
+const DEFAULT_TOKEN_PARAMS = [
+  'token',
+  'access_token',
+  'id_token',
+  'refresh_token',
+  'auth',
+  'code',
+  'key',
+  'api_key',
+  'apikey',
+  'password',
+  'secret',
+  'session',
+  'sessionid',
+  'sig',
+  'signature',
+  'jwt',
+];
+
+/** Route templates, scanned like URL paths */
+const PATH_ATTRIBUTES = ['page.route', 'navigation.route'];
+
+/** Session and trace bookkeeping the backend relies on; never scanned by detectors */
+const PROTECTED_PREFIXES = ['session.', 'trace.', 'span.', 'event.'];
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const PHONE_PATTERN =
+  /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)\s?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b|\+\d{8,15}\b/g;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+let redactionConfig: RedactionConfig = {};
+
+/**
+ * Sets the active redaction configuration
+ */
+export function configureRedaction(config: RedactionConfig): void {
+  redactionConfig = { ...config };
+}
+
+/**
+ * Stable, non-reversible pseudonym for a value (FNV-1a based, not
+ * cryptographic - it hides values from casual reading, not from brute force)
+ */
+export function hashValue(value: string, salt = ''): string {
+  const input = salt + value;
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 0x01000193);
+    h2 = Math.imul(h2 ^ code, 0x5bd1e995);
+  }
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Luhn checksum, used to tell card numbers apart from other long numbers
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Scrubs emails, card numbers and phone numbers from free text
+ */
+export function redactText(text: string, config: RedactionConfig = redactionConfig): string {
+  const detectors = config.detectors ?? {};
+  const mask = config.mask ?? DEFAULT_MASK;
+  let result = text;
+
+  if (detectors.emails !== false) {
+    result = result.replace(EMAIL_PATTERN, mask);
+  }
+  if (detectors.cardNumbers !== false) {
+    result = result.replace(CARD_PATTERN, (match) =>
+      passesLuhn(match.replace(/\D/g, '')) ? mask : match
+    );
+  }
+  if (detectors.phoneNumbers !== false) {
+    result = result.replace(PHONE_PATTERN, mask);
+  }
+  if (detectors.urlTokens !== false) {
+    result = result.replace(JWT_PATTERN, mask);
+  }
+  return result;
+}
+
+/**
+ * Masks sensitive query (and fragment) parameters in a URL. With
+ * allowedQueryParams set, every parameter not on the list is masked.
+ */
+export function redactUrl(url: string, config: RedactionConfig = redactionConfig): string {
+  const mask = config.mask ?? DEFAULT_MASK;
+  const allowed = config.allowedQueryParams?.map((name) => name.toLowerCase());
+  const checkTokens = config.detectors?.urlTokens !== false;
+  const tokenParams = [...DEFAULT_TOKEN_PARAMS, ...(config.tokenParams ?? [])].map((name) =>
+    name.toLowerCase()
+  );
+
+  const shouldMask = (name: string): boolean => {
+    const lower = name.toLowerCase();
+    if (allowed) return !allowed.includes(lower);
+    return checkTokens && tokenParams.includes(lower);
+  };
+
+  // Rewrite pairs by hand so untouched parameters keep their exact encoding
+  const redactParams = (params: string): string =>
+    params
+      .split('&')
+      .map((pair) => {
+        const separator = pair.indexOf('=');
+        if (separator === -1) return pair;
+        const name = decodeComponent(pair.slice(0, separator));
+        return shouldMask(name) ? `${pair.slice(0, separator)}=${mask}` : pair;
+      })
+      .join('&');
+
+  const hashIndex = url.indexOf('#');
+  let base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  let fragment = hashIndex === -1 ? null : url.slice(hashIndex + 1);
+
+  const queryIndex = base.indexOf('?');
+  if (queryIndex !== -1) {
+    base = `${base.slice(0, queryIndex)}?${redactParams(base.slice(queryIndex + 1))}`;
+  }
+
+  // OAuth implicit flows put tokens in fragment parameters
+  if (fragment !== null && fragment.includes('=')) {
+    fragment = redactParams(fragment);
+  }
+
+  return fragment === null ? base : `${base}#${fragment}`;
+}
+
+/**
+ * Runs the detectors over a URL, skipping the phone number detector in
+ * the path
+ */
+function redactUrlText(url: string, config: RedactionConfig): string {
+  const pathEnd = url.search(/[?#]/);
+  const path = pathEnd === -1 ? url : url.slice(0, pathEnd);
+  const rest = pathEnd === -1 ? '' : url.slice(pathEnd);
+  return redactText(path, withoutPhoneNumbers(config)) + redactText(rest, config);
+}
+
+function withoutPhoneNumbers(config: RedactionConfig): RedactionConfig {
+  return { ...config, detectors: { ...config.detectors, phoneNumbers: false } };
+}
+
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Finds the rule for an attribute key, exact matches winning over prefixes
+ */
+function findRule(key: string, rules: Record<string, RedactionAction>): RedactionAction | undefined {
+  if (rules[key]) return rules[key];
+
+  let match: { prefix: string; action: RedactionAction } | undefined;
+  for (const [pattern, action] of Object.entries(rules)) {
+    if (!pattern.endsWith('*')) continue;
+    const prefix = pattern.slice(0, -1);
+    if (key.startsWith(prefix) && (!match || prefix.length > match.prefix.length)) {
+      match = { prefix, action };
+    }
+  }
+  return match?.action;
+}
+
+/**
+ * Applies rules and detectors to a record's attributes, returning a new object
+ */
+export function redactAttributes(
+  attributes: Record<string, string | number | boolean>,
+  config: RedactionConfig = redactionConfig
+): Record<string, string | number | boolean> {
+  if (config.enabled === false) {
+    return attributes;
+  }
+
+  const rules = config.rules ?? {};
+  const urlAttributes = config.urlAttributes ?? DEFAULT_URL_ATTRIBUTES;
+  const result: Record<string, string | number | boolean> = {};
+
+  for (const [key, value] of Object.entries(attributes)) {
+    const rule = findRule(key, rules);
+    if (rule === 'drop') {
+      continue;
+    }
+    if (rule === 'mask') {
+      result[key] = config.mask ?? DEFAULT_MASK;
+      continue;
+    }
+    if (rule === 'hash') {
+      result[key] = hashValue(String(value), config.hashSalt);
+      continue;
+    }
+
+    if (typeof value !== 'string' || PROTECTED_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+      result[key] = value;
+      continue;
+    }
+
+    if (urlAttributes.includes(key)) {
+      result[key] = redactUrlText(redactUrl(value, config), config);
+    } else if (PATH_ATTRIBUTES.includes(key)) {
+      result[key] = redactText(value, withoutPhoneNumbers(config));
+    } else {
+      result[key] = redactText(value, config);
+    }
+  }
+
+  return result;
+}
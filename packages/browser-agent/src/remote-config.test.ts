@@ -0,0 +1,319 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RemoteConfigClient,
+  applyRemoteConfig,
+  validateRemoteConfig,
+  type RemoteConfig,
+} from './remote-config';
+
+const URL = 'https://config.example.com/session-replay.json';
+
+function respond(body: unknown) {
+  return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+}
+
+function encodeBase64(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+async function sign(config: RemoteConfig, key: CryptoKey) {
+  const payload = JSON.stringify(config);
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    new TextEncoder().encode(payload)
+  );
+  return { payload, signature: encodeBase64(signature) };
+}
+
+describe('remote config', () => {
+  describe('validateRemoteConfig', () => {
+    it('should accept a complete document', () => {
+      expect(
+        validateRemoteConfig({
+          version: 3,
+          instrumentations: {
+            rageClicks: { clickThreshold: 4, timeWindowMs: 800 },
+            deadClicks: false,
+            thrashing: { minDirectionChanges: 6 },
+            forms: { hesitationThresholdMs: 15000 },
+          },
+          sampling: { sampleRate: 0.5, categorySampleRates: { 'user.error': 1 } },
+          redaction: { rules: { 'user.email': 'hash' }, tokenParams: ['otp'] },
+        })
+      ).toEqual([]);
+    });
+
+    it('should require an integer version', () => {
+      expect(validateRemoteConfig({})).toEqual(['version should be a non-negative integer']);
+      expect(validateRemoteConfig({ version: '2' })).toHaveLength(1);
+      expect(validateRemoteConfig({ version: 1.5 })).toHaveLength(1);
+    });
+
+    it('should report wrong types and out-of-range values', () => {
+      expect(
+        validateRemoteConfig({
+          version: 1,
+          instrumentations: { rageClicks: { clickThreshold: '4' }, thrashing: { timeWindowMs: -1 } },
+          sampling: { sampleRate: 2 },
+          redaction: { rules: { 'user.email': 'keep' } },
+        })
+      ).toEqual([
+        'instrumentations.rageClicks.clickThreshold should be a positive number',
+        'instrumentations.thrashing.timeWindowMs should be a positive number',
+        'sampling.sampleRate should be a number from 0 to 1',
+        'redaction.rules.user.email should be one of mask, hash, drop',
+      ]);
+    });
+
+    it('should reject unknown keys', () => {
+      expect(
+        validateRemoteConfig({
+          version: 1,
+          instrumentations: { rageClicks: { onRageClick: 'alert(1)' }, navigation: false },
+          redaction: { enabled: false },
+        })
+      ).toEqual([
+        'unknown key instrumentations.navigation',
+        'unknown key instrumentations.rageClicks.onRageClick',
+        'unknown key redaction.enabled',
+      ]);
+    });
+  });
+
+  describe('applyRemoteConfig', () => {
+    it('should return the local config without a remote one', () => {
+      const local = { sampleRate: 0.2 };
+      expect(applyRemoteConfig(local, null)).toBe(local);
+    });
+
+    it('should merge thresholds over local options', () => {
+      const onRageClick = vi.fn();
+      const merged = applyRemoteConfig(
+        { instrumentations: { rageClicks: { onRageClick, timeWindowMs: 500 }, thrashing: false } },
+        { version: 1, instrumentations: { rageClicks: { clickThreshold: 5 }, thrashing: true, deadClicks: false } }
+      );
+
+      expect(merged.instrumentations).toEqual({
+        rageClicks: { onRageClick, timeWindowMs: 500, clickThreshold: 5 },
+        thrashing: true,
+        deadClicks: false,
+      });
+    });
+
+    it('should keep local options when enabled remotely', () => {
+      const options = { clickThreshold: 4 };
+      const merged = applyRemoteConfig(
+        { instrumentations: { rageClicks: options } },
+        { version: 1, instrumentations: { rageClicks: true } }
+      );
+
+      expect(merged.instrumentations?.rageClicks).toBe(options);
+    });
+
+    it('should override sampling rates', () => {
+      const merged = applyRemoteConfig(
+        { sampleRate: 1, categorySampleRates: { 'user.error': 1, 'user.interaction': 0.5 } },
+        { version: 1, sampling: { sampleRate: 0.1, categorySampleRates: { 'user.interaction': 0.2 } } }
+      );
+
+      expect(merged.sampleRate).toBe(0.1);
+      expect(merged.categorySampleRates).toEqual({ 'user.error': 1, 'user.interaction': 0.2 });
+    });
+
+    it('should add redaction rules to the local ones', () => {
+      const merged = applyRemoteConfig(
+        { redaction: { mask: '***', rules: { 'user.email': 'hash' }, tokenParams: ['otp'] } },
+        { version: 1, redaction: { rules: { 'user.phone': 'drop' }, tokenParams: ['pin'] } }
+      );
+
+      expect(merged.redaction).toEqual({
+        mask: '***',
+        rules: { 'user.email': 'hash', 'user.phone': 'drop' },
+        tokenParams: ['otp', 'pin'],
+      });
+    });
+  });
+
+  describe('RemoteConfigClient', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+    let client: RemoteConfigClient | null;
+
+    beforeEach(() => {
+      localStorage.clear();
+      fetchMock = vi.fn(() => respond({ version: 1 }));
+      vi.stubGlobal('fetch', fetchMock);
+      client = null;
+    });
+
+    afterEach(() => {
+      client?.stop();
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('should fetch, apply and cache a valid document', async () => {
+      client = new RemoteConfigClient({ url: URL });
+      const onUpdate = vi.fn();
+      fetchMock.mockReturnValue(respond({ version: 2, sampling: { sampleRate: 0.5 } }));
+
+      client.start(onUpdate);
+      await vi.waitFor(() => expect(onUpdate).toHaveBeenCalledTimes(1));
+
+      expect(onUpdate).toHaveBeenCalledWith({ version: 2, sampling: { sampleRate: 0.5 } });
+      expect(fetchMock.mock.calls[0][0]).toBe(URL);
+      expect(new RemoteConfigClient({ url: URL }).loadCached()?.version).toBe(2);
+    });
+
+    it('should ignore an expired or foreign cache', async () => {
+      client = new RemoteConfigClient({ url: URL, maxCacheAgeMs: 1000 });
+      await client.refresh();
+
+      vi.useFakeTimers({ now: Date.now() + 2000 });
+
+      expect(new RemoteConfigClient({ url: URL, maxCacheAgeMs: 1000 }).loadCached()).toBeNull();
+      expect(new RemoteConfigClient({ url: 'https://other.example.com/config.json' }).loadCached()).toBeNull();
+    });
+
+    it('should keep the current config when a document is invalid', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      client = new RemoteConfigClient({ url: URL });
+      await client.refresh();
+
+      fetchMock.mockReturnValue(respond({ version: 2, sampling: { sampleRate: 5 } }));
+
+      expect(await client.refresh()).toEqual({ version: 1 });
+      expect(warn).toHaveBeenCalledWith(
+        '[SessionReplay] Ignoring remote config:',
+        'sampling.sampleRate should be a number from 0 to 1'
+      );
+    });
+
+    it('should keep the current config when offline', async () => {
+      client = new RemoteConfigClient({ url: URL });
+      await client.refresh();
+
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+      expect(await client.refresh()).toEqual({ version: 1 });
+
+      fetchMock.mockResolvedValue({ ok: false, json: () => Promise.resolve({}) });
+      expect(await client.refresh()).toEqual({ version: 1 });
+    });
+
+    it('should only apply newer versions', async () => {
+      client = new RemoteConfigClient({ url: URL });
+      const onUpdate = vi.fn();
+      fetchMock.mockReturnValue(respond({ version: 5 }));
+      client.start(onUpdate);
+      await vi.waitFor(() => expect(onUpdate).toHaveBeenCalledTimes(1));
+
+      fetchMock.mockReturnValue(respond({ version: 5, sampling: { sampleRate: 0 } }));
+      await client.refresh();
+      fetchMock.mockReturnValue(respond({ version: 4 }));
+      await client.refresh();
+
+      expect(onUpdate).toHaveBeenCalledTimes(1);
+      expect(client.current).toEqual({ version: 5 });
+    });
+
+    it('should report an onUpdate that throws', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const error = new Error('reinstall failed');
+      client = new RemoteConfigClient({ url: URL });
+
+      client.start(() => {
+        throw error;
+      });
+
+      await vi.waitFor(() =>
+        expect(warn).toHaveBeenCalledWith('[SessionReplay] Applying remote config failed:', error)
+      );
+    });
+
+    it('should refresh periodically', async () => {
+      vi.useFakeTimers();
+      client = new RemoteConfigClient({ url: URL, refreshIntervalMs: 60000 });
+      client.start(vi.fn());
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      client.stop();
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    describe('with a verification key', () => {
+      let keys: CryptoKeyPair;
+      let verificationKey: JsonWebKey;
+
+      beforeEach(async () => {
+        keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+        verificationKey = await crypto.subtle.exportKey('jwk', keys.publicKey);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+      });
+
+      it('should accept a signed document', async () => {
+        fetchMock.mockReturnValue(respond(await sign({ version: 2 }, keys.privateKey)));
+        client = new RemoteConfigClient({ url: URL, verificationKey });
+
+        expect(await client.refresh()).toEqual({ version: 2 });
+      });
+
+      it('should reject a tampered document', async () => {
+        const signed = await sign({ version: 2, sampling: { sampleRate: 0.5 } }, keys.privateKey);
+        signed.payload = JSON.stringify({ version: 2, sampling: { sampleRate: 0 } });
+        fetchMock.mockReturnValue(respond(signed));
+        client = new RemoteConfigClient({ url: URL, verificationKey });
+
+        expect(await client.refresh()).toBeNull();
+        expect(localStorage.length).toBe(0);
+      });
+
+      it('should verify the cached document again on load', async () => {
+        fetchMock.mockReturnValue(respond(await sign({ version: 2 }, keys.privateKey)));
+        await new RemoteConfigClient({ url: URL, verificationKey }).refresh();
+        fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+        client = new RemoteConfigClient({ url: URL, verificationKey });
+        const onUpdate = vi.fn();
+
+        expect(client.loadCached()).toBeNull();
+        client.start(onUpdate);
+
+        await vi.waitFor(() => expect(onUpdate).toHaveBeenCalledWith({ version: 2 }));
+      });
+
+      it('should ignore a tampered cache', async () => {
+        fetchMock.mockReturnValue(respond(await sign({ version: 2, sampling: { sampleRate: 0.5 } }, keys.privateKey)));
+        await new RemoteConfigClient({ url: URL, verificationKey }).refresh();
+        const cached = JSON.parse(localStorage.getItem('session_replay_remote_config')!);
+        cached.config.payload = JSON.stringify({ version: 2, sampling: { sampleRate: 0 } });
+        localStorage.setItem('session_replay_remote_config', JSON.stringify(cached));
+        fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+        client = new RemoteConfigClient({ url: URL, verificationKey });
+        const onUpdate = vi.fn();
+
+        client.start(onUpdate);
+
+        await vi.waitFor(() =>
+          expect(console.warn).toHaveBeenCalledWith(
+            '[SessionReplay] Ignoring remote config: missing or invalid signature'
+          )
+        );
+        expect(onUpdate).not.toHaveBeenCalled();
+      });
+
+      it('should reject an unsigned document', async () => {
+        fetchMock.mockReturnValue(respond({ version: 2 }));
+        client = new RemoteConfigClient({ url: URL, verificationKey });
+
+        expect(await client.refresh()).toBeNull();
+        expect(console.warn).toHaveBeenCalledWith(
+          '[SessionReplay] Ignoring remote config: missing or invalid signature'
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * Remote configuration
+ *
+ * Detector switches and thresholds, sampling rates and extra redaction rules
+ * can be served as a versioned JSON document, so tuning them doesn't need a
+ * redeploy. A fetched document is only used when it matches the schema
+ * below (and, with a verification key, carries a valid ECDSA signature) and
+ * its version is newer than the one in use; anything else is ignored and the
+ * local configuration stays in effect.
+ *
+ * The last accepted document is cached in localStorage and applied
+ * synchronously on the next page load, before instrumentations start, then
+ * refreshed in the background. The cache is written only after the
+ * document passed verification. With a verification key the signed
+ * document is cached as served and its signature checked again on load;
+ * that check is asynchronous, so a signed cache applies once start() runs.
+ */
+
+import type { EventCategory } from './events';
+import type { InstrumentationsConfig } from './init';
+import type { RedactionAction, RedactionConfig } from './redaction';
+
+const CACHE_STORAGE_KEY = 'session_replay_remote_config';
+const DEFAULT_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_CACHE_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where to fetch the remote configuration and how to trust it
+ */
+export interface RemoteConfigOptions {
+  /** URL of the config document */
+  url: string;
+  /** Re-fetch interval in ms; 0 fetches once at startup (default: 300000) */
+  refreshIntervalMs?: number;
+  /** Fetch timeout in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Cached documents older than this are ignored on load (default: 24 hours) */
+  maxCacheAgeMs?: number;
+  /**
+   * ECDSA P-256 public key as a JWK. When set, only signed documents
+   * (`{ payload, signature }`) are accepted.
+   */
+  verificationKey?: JsonWebKey;
+}
+
+/**
+ * Instrumentations the remote configuration can switch and tune. `true`
+ * enables, `false` disables and an object enables with those thresholds.
+ */
+export interface RemoteInstrumentationsConfig {
+  rageClicks?: boolean | { clickThreshold?: number; timeWindowMs?: number };
+  deadClicks?: boolean | { checkParents?: boolean };
+  thrashing?: boolean | { minDirectionChanges?: number; timeWindowMs?: number };
+  forms?: boolean | { hesitationThresholdMs?: number };
+}
+
+/**
+ * The remote configuration document
+ */
+export interface RemoteConfig {
+  /** Increases with every published change; documents with a lower or equal version are ignored */
+  version: number;
+  instrumentations?: RemoteInstrumentationsConfig;
+  sampling?: {
+    sampleRate?: number;
+    categorySampleRates?: Partial<Record<EventCategory, number>>;
+  };
+  /** Added to the local rules; redaction can't be turned off remotely */
+  redaction?: {
+    rules?: Record<string, RedactionAction>;
+    tokenParams?: string[];
+  };
+}
+
+/**
+ * The parts of the local configuration the remote configuration overrides
+ */
+export interface RemoteConfigurable {
+  instrumentations?: InstrumentationsConfig;
+  sampleRate?: number;
+  categorySampleRates?: Partial<Record<EventCategory, number>>;
+  redaction?: RedactionConfig;
+}
+
+interface CachedConfig {
+  url: string;
+  fetchedAt: number;
+  /** The document as served: the config, or its signed envelope */
+  config: unknown;
+}
+
+/** Allowed options per remotely controlled instrumentation, with their types */
+const INSTRUMENTATION_OPTIONS: Record<keyof RemoteInstrumentationsConfig, Record<string, 'number' | 'boolean'>> = {
+  rageClicks: { clickThreshold: 'number', timeWindowMs: 'number' },
+  deadClicks: { checkParents: 'boolean' },
+  thrashing: { minDirectionChanges: 'number', timeWindowMs: 'number' },
+  forms: { hesitationThresholdMs: 'number' },
+};
+
+const REDACTION_ACTIONS: RedactionAction[] = ['mask', 'hash', 'drop'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRate(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+/**
+ * Reports keys outside the schema
+ */
+function checkKeys(value: Record<string, unknown>, allowed: string[], path: string, problems: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      problems.push(`unknown key ${path}${key}`);
+    }
+  }
+}
+
+/**
+ * Checks a document against the remote configuration schema. Unknown keys
+ * are rejected so a typo doesn't silently leave the default in place.
+ *
+ * @returns One message per problem; empty when the document is valid
+ */
+export function validateRemoteConfig(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['config should be an object'];
+  }
+
+  const problems: string[] = [];
+  checkKeys(value, ['version', 'instrumentations', 'sampling', 'redaction'], '', problems);
+
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 0) {
+    problems.push('version should be a non-negative integer');
+  }
+
+  if (value.instrumentations !== undefined) {
+    if (!isObject(value.instrumentations)) {
+      problems.push('instrumentations should be an object');
+    } else {
+      const instrumentations = value.instrumentations;
+      checkKeys(instrumentations, Object.keys(INSTRUMENTATION_OPTIONS), 'instrumentations.', problems);
+      for (const [name, types] of Object.entries(INSTRUMENTATION_OPTIONS)) {
+        const setting = instrumentations[name];
+        if (setting === undefined || typeof setting === 'boolean') continue;
+        if (!isObject(setting)) {
+          problems.push(`instrumentations.${name} should be a boolean or an object`);
+          continue;
+        }
+        checkKeys(setting, Object.keys(types), `instrumentations.${name}.`, problems);
+        for (const [option, type] of Object.entries(types)) {
+          const optionValue = setting[option];
+          if (optionValue === undefined) continue;
+          if (typeof optionValue !== type || (type === 'number' && !((optionValue as number) > 0))) {
+            problems.push(`instrumentations.${name}.${option} should be a ${type === 'number' ? 'positive number' : type}`);
+          }
+        }
+      }
+    }
+  }
+
+  if (value.sampling !== undefined) {
+    if (!isObject(value.sampling)) {
+      problems.push('sampling should be an object');
+    } else {
+      const sampling = value.sampling;
+      checkKeys(sampling, ['sampleRate', 'categorySampleRates'], 'sampling.', problems);
+      if (sampling.sampleRate !== undefined && !isRate(sampling.sampleRate)) {
+        problems.push('sampling.sampleRate should be a number from 0 to 1');
+      }
+      if (sampling.categorySampleRates !== undefined) {
+        if (!isObject(sampling.categorySampleRates)) {
+          problems.push('sampling.categorySampleRates should be an object');
+        } else {
+          for (const [category, rate] of Object.entries(sampling.categorySampleRates)) {
+            if (!isRate(rate)) {
+              problems.push(`sampling.categorySampleRates.${category} should be a number from 0 to 1`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  if (value.redaction !== undefined) {
+    if (!isObject(value.redaction)) {
+      problems.push('redaction should be an object');
+    } else {
+      const redaction = value.redaction;
+      checkKeys(redaction, ['rules', 'tokenParams'], 'redaction.', problems);
+      if (redaction.rules !== undefined) {
+        if (!isObject(redaction.rules)) {
+          problems.push('redaction.rules should be an object');
+        } else {
+          for (const [key, action] of Object.entries(redaction.rules)) {
+            if (!REDACTION_ACTIONS.includes(action as RedactionAction)) {
+              problems.push(`redaction.rules.${key} should be one of ${REDACTION_ACTIONS.join(', ')}`);
+            }
+          }
+        }
+      }
+      if (
+        redaction.tokenParams !== undefined &&
+        !(Array.isArray(redaction.tokenParams) && redaction.tokenParams.every((param) => typeof param === 'string'))
+      ) {
+        problems.push('redaction.tokenParams should be an array of strings');
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Overrides the local configuration with a remote one. Instrumentation
+ * options are merged over the local ones, so local callbacks are kept.
+ *
+ * @returns A copy of the local configuration; the local one when remote is null
+ */
+export function applyRemoteConfig<T extends RemoteConfigurable>(local: T, remote: RemoteConfig | null): T {
+  if (!remote) {
+    return local;
+  }
+
+  const merged: T = { ...local };
+
+  if (remote.instrumentations) {
+    const instrumentations: Record<string, unknown> = { ...local.instrumentations };
+    for (const [name, setting] of Object.entries(remote.instrumentations)) {
+      const current = instrumentations[name];
+      if (typeof setting === 'boolean') {
+        instrumentations[name] = setting && typeof current === 'object' ? current : setting;
+      } else {
+        instrumentations[name] = { ...(typeof current === 'object' ? current : {}), ...setting };
+      }
+    }
+    merged.instrumentations = instrumentations as InstrumentationsConfig;
+  }
+
+  if (remote.sampling) {
+    if (remote.sampling.sampleRate !== undefined) {
+      merged.sampleRate = remote.sampling.sampleRate;
+    }
+    if (remote.sampling.categorySampleRates) {
+      merged.categorySampleRates = { ...local.categorySampleRates, ...remote.sampling.categorySampleRates };
+    }
+  }
+
+  if (remote.redaction) {
+    merged.redaction = {
+      ...local.redaction,
+      rules: { ...local.redaction?.rules, ...remote.redaction.rules },
+      tokenParams: [...(local.redaction?.tokenParams ?? []), ...(remote.redaction.tokenParams ?? [])],
+    };
+  }
+
+  return merged;
+}
+
+function decodeBase64(value: string): BufferSource {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Checks a signed document's ECDSA P-256 / SHA-256 signature
+ *
+ * @returns The signed payload text, or null when the signature doesn't match
+ */
+export async function verifyRemoteConfig(document: unknown, key: JsonWebKey): Promise<string | null> {
+  if (!isObject(document) || typeof document.payload !== 'string' || typeof document.signature !== 'string') {
+    return null;
+  }
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return null;
+  }
+
+  try {
+    const publicKey = await crypto.subtle.importKey('jwk', key, { name: 'ECDSA', namedCurve: 'P-256' }, false, [
+      'verify',
+    ]);
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      publicKey,
+      decodeBase64(document.signature),
+      new TextEncoder().encode(document.payload)
+    );
+    return valid ? document.payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetches, verifies and caches the remote configuration
+ */
+export class RemoteConfigClient {
+  private options: Required<Omit<RemoteConfigOptions, 'verificationKey'>> &
+    Pick<RemoteConfigOptions, 'verificationKey'>;
+  private config: RemoteConfig | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private onUpdate: ((config: RemoteConfig) => void) | null = null;
+
+  constructor(options: RemoteConfigOptions) {
+    this.options = {
+      url: options.url,
+      refreshIntervalMs: options.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      maxCacheAgeMs: options.maxCacheAgeMs ?? DEFAULT_MAX_CACHE_AGE_MS,
+      verificationKey: options.verificationKey,
+    };
+  }
+
+  /**
+   * The configuration in use, if any
+   */
+  get current(): RemoteConfig | null {
+    return this.config;
+  }
+
+  /**
+   * Loads the cached configuration for this URL, ignoring expired or
+   * malformed entries. A signed cache can't be verified synchronously, so
+   * with a verification key this loads nothing and start() applies it.
+   */
+  loadCached(): RemoteConfig | null {
+    if (this.options.verificationKey) {
+      return this.config;
+    }
+
+    const cached = this.readCache();
+    if (cached && validateRemoteConfig(cached.config).length === 0) {
+      this.config = cached.config as RemoteConfig;
+    }
+    return this.config;
+  }
+
+  /**
+   * Applies a verified signed cache, then fetches now and every
+   * refreshIntervalMs, calling onUpdate for each newer configuration. An
+   * onUpdate that throws is reported and doesn't stop later refreshes.
+   */
+  start(onUpdate: (config: RemoteConfig) => void): void {
+    this.stop();
+    this.onUpdate = onUpdate;
+    void this.report(async () => {
+      if (this.options.verificationKey) {
+        await this.loadVerifiedCache();
+      }
+      await this.refresh();
+    });
+    if (this.options.refreshIntervalMs > 0) {
+      this.timer = setInterval(() => void this.report(() => this.refresh()), this.options.refreshIntervalMs);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.onUpdate = null;
+  }
+
+  /**
+   * Fetches the configuration once. Network errors and rejected documents
+   * leave the current configuration in place.
+   *
+   * @returns The configuration in use afterwards
+   */
+  async refresh(): Promise<RemoteConfig | null> {
+    const document = await this.fetchDocument();
+    const config = document === null ? null : await this.open(document);
+    if (!config || (this.config && config.version < this.config.version)) {
+      return this.config;
+    }
+
+    // Refresh the cache timestamp even when the version is unchanged
+    this.persist(document);
+    this.update(config);
+    return this.config;
+  }
+
+  /**
+   * Verifies and applies the cached signed document, unless a newer
+   * configuration is already in use
+   */
+  private async loadVerifiedCache(): Promise<void> {
+    const cached = this.readCache();
+    const config = cached ? await this.open(cached.config) : null;
+    if (config && (!this.config || config.version > this.config.version)) {
+      this.update(config);
+    }
+  }
+
+  private update(config: RemoteConfig): void {
+    if (this.config?.version !== config.version) {
+      this.config = config;
+      this.onUpdate?.(config);
+    }
+  }
+
+  /**
+   * Runs a refresh, warning instead of rejecting when it throws (e.g. in
+   * onUpdate)
+   */
+  private async report(task: () => Promise<void | RemoteConfig | null>): Promise<void> {
+    try {
+      await task();
+    } catch (error) {
+      console.warn('[SessionReplay] Applying remote config failed:', error);
+    }
+  }
+
+  /**
+   * Unwraps a document's signed payload when a verification key is set,
+   * then checks it against the schema
+   *
+   * @returns The configuration, or null when the document is rejected
+   */
+  private async open(document: unknown): Promise<RemoteConfig | null> {
+    let value = document;
+    if (this.options.verificationKey) {
+      const payload = await verifyRemoteConfig(document, this.options.verificationKey);
+      if (payload === null) {
+        console.warn('[SessionReplay] Ignoring remote config: missing or invalid signature');
+        return null;
+      }
+      try {
+        value = JSON.parse(payload) as unknown;
+      } catch {
+        return null;
+      }
+    }
+
+    const problems = validateRemoteConfig(value);
+    if (problems.length > 0) {
+      console.warn('[SessionReplay] Ignoring remote config:', problems.join('; '));
+      return null;
+    }
+    return value as RemoteConfig;
+  }
+
+  /**
+   * Fetches the document as served
+   */
+  private async fetchDocument(): Promise<unknown> {
+    if (typeof fetch === 'undefined') return null;
+
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+    const timeout = setTimeout(() => controller?.abort(), this.options.timeoutMs);
+    try {
+      const response = await fetch(this.options.url, {
+        credentials: 'omit',
+        cache: 'no-cache',
+        signal: controller?.signal,
+      });
+      if (!response.ok) return null;
+      return (await response.json()) as unknown;
+    } catch {
+      // Offline, timed out or not JSON: keep the current configuration
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Reads the cache entry for this URL, ignoring expired and foreign ones
+   */
+  private readCache(): CachedConfig | null {
+    try {
+      if (typeof localStorage === 'undefined') return null;
+      const stored = localStorage.getItem(CACHE_STORAGE_KEY);
+      if (!stored) return null;
+
+      const cached = JSON.parse(stored) as CachedConfig;
+      if (cached.url === this.options.url && Date.now() - cached.fetchedAt < this.options.maxCacheAgeMs) {
+        return cached;
+      }
+    } catch {
+      // Ignore storage errors
+    }
+    return null;
+  }
+
+  private persist(document: unknown): void {
+    try {
+      if (typeof localStorage === 'undefined') return;
+      const cached: CachedConfig = { url: this.options.url, fetchedAt: Date.now(), config: document };
+      localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cached));
+    } catch {
+      // Ignore storage errors (quota exceeded, private mode, etc.)
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createSessionResource, detectBrowserAttributes, getSessionResource } from './resource';
+
+/** Overrides navigator properties for one test */
+function stubNavigator(values: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(values)) {
+    vi.spyOn(navigator, key as keyof Navigator, 'get').mockReturnValue(value as never);
+  }
+}
+
+describe('resource', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete (navigator as { userAgentData?: unknown }).userAgentData;
+    delete (navigator as { connection?: unknown }).connection;
+  });
+
+  describe('detectBrowserAttributes', () => {
+    it('should read user agent client hints', () => {
+      Object.defineProperty(navigator, 'userAgentData', {
+        configurable: true,
+        value: {
+          brands: [
+            { brand: 'Chromium', version: '126' },
+            { brand: 'Google Chrome', version: '126' },
+          ],
+          mobile: true,
+          platform: 'Android',
+        },
+      });
+
+      expect(detectBrowserAttributes()).toMatchObject({
+        'browser.brands': ['Chromium 126', 'Google Chrome 126'],
+        'browser.platform': 'Android',
+        'browser.mobile': true,
+      });
+    });
+
+    it('should fall back to the user agent without client hints', () => {
+      stubNavigator({
+        userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) Mobile/15E148 Safari/604.1',
+        platform: 'iPhone',
+        language: 'fr-CA',
+      });
+
+      const attributes = detectBrowserAttributes();
+
+      expect(attributes).toMatchObject({
+        'browser.platform': 'iPhone',
+        'browser.mobile': true,
+        'browser.language': 'fr-CA',
+        'user_agent.original': expect.stringContaining('iPhone'),
+      });
+      expect(attributes).not.toHaveProperty('browser.brands');
+    });
+
+    it('should record the viewport and pixel ratio', () => {
+      vi.spyOn(window, 'innerWidth', 'get').mockReturnValue(390);
+      vi.spyOn(window, 'innerHeight', 'get').mockReturnValue(844);
+      vi.spyOn(window, 'devicePixelRatio', 'get').mockReturnValue(3);
+
+      expect(detectBrowserAttributes()).toMatchObject({
+        'browser.viewport.width': 390,
+        'browser.viewport.height': 844,
+        'browser.device_pixel_ratio': 3,
+      });
+    });
+
+    it('should map the connection type', () => {
+      Object.defineProperty(navigator, 'connection', {
+        configurable: true,
+        value: { type: 'cellular', effectiveType: '3g' },
+      });
+
+      expect(detectBrowserAttributes()).toMatchObject({
+        'network.connection.type': 'cell',
+        'network.connection.effective_type': '3g',
+      });
+    });
+
+    it('should leave the connection out when unknown', () => {
+      expect(detectBrowserAttributes()).not.toHaveProperty('network.connection.type');
+    });
+  });
+
+  describe('createSessionResource', () => {
+    it('should add the release and environment', () => {
+      const resource = createSessionResource({
+        serviceName: 'shop',
+        serviceVersion: '2.4.1',
+        deploymentEnvironment: 'staging',
+      });
+
+      expect(resource.attributes).toMatchObject({
+        'service.name': 'shop',
+        'service.version': '2.4.1',
+        'deployment.environment.name': 'staging',
+        'deployment.environment': 'staging',
+        'browser.language': navigator.language,
+      });
+    });
+
+    it('should let configured attributes override detected ones', () => {
+      const resource = createSessionResource({
+        serviceName: 'shop',
+        resourceAttributes: { 'service.namespace': 'web', 'browser.language': 'en', 'service.name': 'other' },
+      });
+
+      expect(resource.attributes).toMatchObject({
+        'service.namespace': 'web',
+        'browser.language': 'en',
+        'service.name': 'shop',
+      });
+    });
+
+    it('should skip browser context when turned off', () => {
+      const resource = createSessionResource({ serviceName: 'shop', browserContext: false });
+
+      expect(resource.attributes).toEqual({ 'service.name': 'shop' });
+    });
+  });
+
+  describe('getSessionResource', () => {
+    it('should share one resource for the same configuration', () => {
+      const config = { serviceName: 'shop', serviceVersion: '2.4.1' };
+
+      expect(getSessionResource({ ...config })).toBe(getSessionResource({ ...config }));
+    });
+
+    it('should build a new resource when the configuration changes', () => {
+      const first = getSessionResource({ serviceName: 'shop', serviceVersion: '2.4.1' });
+      const second = getSessionResource({ serviceName: 'shop', serviceVersion: '2.5.0' });
+
+      expect(second).not.toBe(first);
+      expect(second.attributes['service.version']).toBe('2.5.0');
+    });
+  });
+});
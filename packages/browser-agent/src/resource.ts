@@ -0,0 +1,141 @@
+/**
+ * OTLP resource
+ *
+ * Describes what produced the telemetry: the service, its release and
+ * environment, and the browser and device it ran in, following the OTel
+ * browser semantic conventions. The trace and log providers share one
+ * resource, so spans and log records split the same way by release,
+ * environment or mobile versus desktop.
+ */
+
+import type { AttributeValue } from '@opentelemetry/api';
+import { resourceFromAttributes, type Resource } from '@opentelemetry/resources';
+import {
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+  ATTR_USER_AGENT_ORIGINAL,
+} from '@opentelemetry/semantic-conventions';
+
+/**
+ * Resource configuration
+ */
+export interface ResourceConfig {
+  serviceName: string;
+  /** Release of the frontend, e.g. a semver or commit SHA */
+  serviceVersion?: string;
+  /** e.g. 'production', 'staging' */
+  deploymentEnvironment?: string;
+  /** Extra resource attributes, e.g. `{ 'service.namespace': 'shop' }` */
+  resourceAttributes?: Record<string, AttributeValue>;
+  /** Add browser, viewport and connection attributes (default: true) */
+  browserContext?: boolean;
+}
+
+/** navigator.userAgentData (User-Agent Client Hints, Chromium only) */
+interface NavigatorUAData {
+  brands?: Array<{ brand: string; version: string }>;
+  mobile?: boolean;
+  platform?: string;
+}
+
+/** navigator.connection (Network Information API) */
+interface NetworkInformation {
+  type?: string;
+  effectiveType?: string;
+}
+
+/** Maps NetworkInformation.type to network.connection.type values */
+const CONNECTION_TYPES: Record<string, string> = {
+  wifi: 'wifi',
+  ethernet: 'wired',
+  cellular: 'cell',
+  none: 'unavailable',
+};
+
+let sharedResource: { key: string; resource: Resource } | null = null;
+
+/**
+ * Reads browser and device context from the window. Values that change
+ * during the page (viewport, connection) are as of the call.
+ */
+export function detectBrowserAttributes(win: Window = window): Record<string, AttributeValue> {
+  const nav = win.navigator as Navigator & {
+    userAgentData?: NavigatorUAData;
+    connection?: NetworkInformation;
+  };
+  const uaData = nav.userAgentData;
+  const attributes: Record<string, AttributeValue> = {};
+
+  if (uaData?.brands?.length) {
+    attributes['browser.brands'] = uaData.brands.map(({ brand, version }) => `${brand} ${version}`);
+  }
+  const platform = uaData?.platform || nav.platform;
+  if (platform) {
+    attributes['browser.platform'] = platform;
+  }
+  // Without client hints, fall back to the "Mobi" user agent token
+  attributes['browser.mobile'] = uaData?.mobile ?? /Mobi/i.test(nav.userAgent);
+  if (nav.language) {
+    attributes['browser.language'] = nav.language;
+  }
+  if (nav.userAgent) {
+    attributes[ATTR_USER_AGENT_ORIGINAL] = nav.userAgent;
+  }
+
+  attributes['browser.viewport.width'] = win.innerWidth;
+  attributes['browser.viewport.height'] = win.innerHeight;
+  attributes['browser.device_pixel_ratio'] = win.devicePixelRatio || 1;
+
+  const connection = nav.connection;
+  if (connection?.type) {
+    attributes['network.connection.type'] = CONNECTION_TYPES[connection.type] ?? 'unknown';
+  }
+  if (connection?.effectiveType) {
+    attributes['network.connection.effective_type'] = connection.effectiveType;
+  }
+
+  return attributes;
+}
+
+/**
+ * Builds the resource. Configured attributes win over detected ones, and
+ * the service and environment fields win over both.
+ */
+export function createSessionResource(config: ResourceConfig): Resource {
+  const detected =
+    config.browserContext !== false && typeof window !== 'undefined' ? detectBrowserAttributes() : {};
+
+  const attributes: Record<string, AttributeValue> = {
+    ...detected,
+    ...config.resourceAttributes,
+    [ATTR_SERVICE_NAME]: config.serviceName,
+  };
+  if (config.serviceVersion) {
+    attributes[ATTR_SERVICE_VERSION] = config.serviceVersion;
+  }
+  if (config.deploymentEnvironment) {
+    // The older key is still what some Elastic versions map to service.environment
+    attributes['deployment.environment.name'] = config.deploymentEnvironment;
+    attributes['deployment.environment'] = config.deploymentEnvironment;
+  }
+
+  return resourceFromAttributes(attributes);
+}
+
+/**
+ * Returns the resource for a configuration, reusing the last one built
+ * from the same configuration so both providers export the same resource
+ */
+export function getSessionResource(config: ResourceConfig): Resource {
+  const key = JSON.stringify([
+    config.serviceName,
+    config.serviceVersion,
+    config.deploymentEnvironment,
+    config.resourceAttributes,
+    config.browserContext,
+  ]);
+  if (sharedResource?.key !== key) {
+    sharedResource = { key, resource: createSessionResource(config) };
+  }
+  return sharedResource.resource;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { NavigationTracker } from '../semantic/navigation';
+import { createNextRouterTracker, getNextRoute } from './next';
+
+describe('getNextRoute', () => {
+  it('should template dynamic segments', () => {
+    expect(getNextRoute('/shop/shoes/42', { category: 'shoes', id: '42' })).toBe('/shop/:category/:id');
+  });
+
+  it('should template catch-all segments', () => {
+    expect(getNextRoute('/docs/guides/setup', { slug: ['guides', 'setup'] })).toBe('/docs/*');
+  });
+
+  it('should match encoded segments', () => {
+    expect(getNextRoute('/search/red%20shoes', { query: 'red shoes' })).toBe('/search/:query');
+  });
+
+  it('should keep static routes', () => {
+    expect(getNextRoute('/checkout/shipping')).toBe('/checkout/shipping');
+  });
+});
+
+describe('createNextRouterTracker', () => {
+  let recordNavigation: ReturnType<typeof vi.fn>;
+  let mockWindow: Window;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    recordNavigation = vi.fn();
+    mockWindow = {
+      location: { href: 'http://localhost/orders/42' },
+      document: { title: 'Order 42' },
+      requestAnimationFrame: (callback: FrameRequestCallback) => setTimeout(callback, 16),
+    } as unknown as Window;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should time the route change from the transition start', () => {
+    const router = createNextRouterTracker({ recordNavigation } as unknown as NavigationTracker, mockWindow);
+
+    const startedAt = Date.now();
+    router.onRouterTransitionStart('/orders/42', 'push');
+    vi.advanceTimersByTime(300);
+    router.recordRoute('/orders/42', { orderId: '42' });
+    vi.runAllTimers();
+
+    expect(recordNavigation).toHaveBeenCalledWith('http://localhost/orders/42', 'Order 42', {
+      route: '/orders/:orderId',
+      startedAt,
+    });
+  });
+
+  it('should record without a start on the landing page', () => {
+    const router = createNextRouterTracker({ recordNavigation } as unknown as NavigationTracker, mockWindow);
+
+    router.recordRoute('/orders/42', { orderId: '42' });
+    vi.runAllTimers();
+
+    expect(recordNavigation.mock.calls[0][2].startedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Next.js app router adapter
+ *
+ * The app router has no route change events, so the adapter has two
+ * halves: onRouterTransitionStart, exported from instrumentation-client.ts,
+ * marks the navigation start, and recordRoute, called from an effect on
+ * usePathname() and useParams() in a client component, records the route
+ * change once it has rendered. The template is rebuilt from the params,
+ * since Next.js doesn't expose the matched segment names. Next.js routes
+ * have no names.
+ */
+
+import type { NavigationTracker } from '../semantic/navigation';
+import { recordRouteChange } from './shared';
+
+/** Route params as returned by useParams() */
+export type NextRouteParams = Record<string, string | string[] | undefined>;
+
+/**
+ * The two halves of the Next.js adapter
+ */
+export interface NextRouterTracker {
+  /** Export from instrumentation-client.ts as onRouterTransitionStart */
+  onRouterTransitionStart(url: string, navigationType: 'push' | 'replace' | 'traverse'): void;
+  /** Call when the pathname changes, with usePathname() and useParams() */
+  recordRoute(pathname: string, params?: NextRouteParams): void;
+}
+
+/**
+ * Rebuilds the route template from a pathname and its params: dynamic
+ * segments become `:name` and a catch-all becomes `*`. A static segment
+ * with the same text as a param value is templated as well.
+ */
+export function getNextRoute(pathname: string, params: NextRouteParams = {}): string {
+  const segments = pathname.split('/').filter(Boolean).map(safeDecode);
+  const entries = Object.entries(params);
+  const route: string[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    const catchAll = entries.find(
+      ([, value]) =>
+        Array.isArray(value) && value.length > 0 && value.every((part, j) => segments[i + j] === part)
+    );
+    if (catchAll) {
+      route.push('*');
+      i += (catchAll[1] as string[]).length - 1;
+      continue;
+    }
+    const param = entries.find(([, value]) => value === segments[i]);
+    route.push(param ? `:${param[0]}` : segments[i]);
+  }
+
+  return `/${route.join('/')}`;
+}
+
+/**
+ * Creates the Next.js app router adapter
+ *
+ * @param tracker - The navigation tracker, e.g. `handle.instrumentations.navigation`
+ * @param win - Window object (injectable for testing)
+ */
+export function createNextRouterTracker(
+  tracker: NavigationTracker,
+  win: Window = window
+): NextRouterTracker {
+  let startedAt: number | undefined;
+
+  return {
+    onRouterTransitionStart() {
+      startedAt = Date.now();
+    },
+    recordRoute(pathname, params) {
+      const navigationStart = startedAt;
+      startedAt = undefined;
+      recordRouteChange(tracker, { route: getNextRoute(pathname, params), startedAt: navigationStart }, win);
+    },
+  };
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { NavigationTracker } from '../semantic/navigation';
+import {
+  getReactRouterRoute,
+  trackReactRouter,
+  type ReactDataRouter,
+  type ReactDataRouterState,
+  type ReactRouterMatch,
+} from './react-router';
+
+const ORDER_MATCHES: ReactRouterMatch[] = [
+  { route: { id: '0', path: '/' } },
+  { route: { id: '0-1', path: 'orders' } },
+  { route: { id: 'order', path: ':orderId' } },
+];
+
+describe('getReactRouterRoute', () => {
+  it('should join nested route paths', () => {
+    expect(getReactRouterRoute(ORDER_MATCHES).route).toBe('/orders/:orderId');
+  });
+
+  it('should restart at absolute paths and skip pathless routes', () => {
+    const matches: ReactRouterMatch[] = [
+      { route: { path: '/admin' } },
+      { route: { id: 'layout' } },
+      { route: { path: '/settings/*' } },
+    ];
+
+    expect(getReactRouterRoute(matches).route).toBe('/settings/*');
+  });
+
+  it('should name the route from its handle or id', () => {
+    expect(getReactRouterRoute(ORDER_MATCHES).name).toBe('order');
+    expect(
+      getReactRouterRoute([...ORDER_MATCHES, { route: { id: '0-1-0-0', handle: { name: 'order-items' } } }]).name
+    ).toBe('order-items');
+  });
+
+  it('should not use generated ids as names', () => {
+    expect(getReactRouterRoute(ORDER_MATCHES.slice(0, 2)).name).toBeUndefined();
+  });
+});
+
+describe('trackReactRouter', () => {
+  let recordNavigation: ReturnType<typeof vi.fn>;
+  let listener: (state: ReactDataRouterState) => void;
+  let router: ReactDataRouter;
+  let mockWindow: Window;
+
+  function state(location: object, navigation: 'idle' | 'loading', matches = ORDER_MATCHES): ReactDataRouterState {
+    return { location, navigation: { state: navigation }, matches };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    recordNavigation = vi.fn();
+    mockWindow = {
+      location: { href: 'http://localhost/orders/42' },
+      document: { title: 'Order 42' },
+      requestAnimationFrame: (callback: FrameRequestCallback) => setTimeout(callback, 16),
+    } as unknown as Window;
+    router = {
+      state: state({ pathname: '/orders/42' }, 'idle'),
+      subscribe: vi.fn((fn) => {
+        listener = fn;
+        return vi.fn();
+      }),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function track(): () => void {
+    return trackReactRouter({ recordNavigation } as unknown as NavigationTracker, router, mockWindow);
+  }
+
+  it('should adopt the landing page template', () => {
+    track();
+    vi.runAllTimers();
+
+    expect(recordNavigation).toHaveBeenCalledWith('http://localhost/orders/42', 'Order 42', {
+      route: '/orders/:orderId',
+      name: 'order',
+    });
+  });
+
+  it('should record a navigation once rendered, timed from loading', () => {
+    track();
+    vi.runAllTimers();
+    recordNavigation.mockClear();
+
+    const location = { pathname: '/orders/43' };
+    const startedAt = Date.now();
+    listener(state(router.state.location, 'loading'));
+    vi.advanceTimersByTime(200);
+    (mockWindow.location as { href: string }).href = 'http://localhost/orders/43';
+    listener(state(location, 'idle'));
+    expect(recordNavigation).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+
+    expect(recordNavigation).toHaveBeenCalledWith('http://localhost/orders/43', 'Order 42', {
+      route: '/orders/:orderId',
+      name: 'order',
+      startedAt,
+    });
+  });
+
+  it('should ignore navigations that end without a new location', () => {
+    track();
+    vi.runAllTimers();
+    recordNavigation.mockClear();
+
+    listener(state(router.state.location, 'loading'));
+    listener(state(router.state.location, 'idle'));
+    vi.runAllTimers();
+
+    expect(recordNavigation).not.toHaveBeenCalled();
+  });
+
+  it('should unsubscribe when stopped', () => {
+    const stop = track();
+
+    stop();
+
+    expect(vi.mocked(router.subscribe).mock.results[0].value).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * React Router adapter
+ *
+ * Data routers (createBrowserRouter) are tracked by subscribing to the
+ * router: a navigation starts when it leaves the idle state, or when the
+ * location changes for routes without loaders, and is recorded once the
+ * new route has rendered. Apps using <BrowserRouter> call
+ * recordRouteChange() from an effect on useLocation(), passing
+ * getReactRouterRoute(matchRoutes(routes, location)).
+ */
+
+import type { NavigationTracker, RouteInfo } from '../semantic/navigation';
+import { recordRouteChange } from './shared';
+
+/**
+ * A route match, from router.state.matches or matchRoutes()
+ */
+export interface ReactRouterMatch {
+  route: {
+    id?: string;
+    path?: string;
+    /** `{ name: 'order-detail' }` names the route */
+    handle?: unknown;
+  };
+}
+
+/**
+ * The parts of a React Router data router the adapter uses
+ */
+export interface ReactDataRouter {
+  state: ReactDataRouterState;
+  subscribe(listener: (state: ReactDataRouterState) => void): () => void;
+}
+
+export interface ReactDataRouterState {
+  location: object;
+  navigation: { state: 'idle' | 'loading' | 'submitting' };
+  matches: ReactRouterMatch[];
+}
+
+/** Ids React Router generates for routes without one, e.g. '0-2-1' */
+const GENERATED_ROUTE_ID = /^\d+(-\d+)*$/;
+
+/**
+ * Builds the route template and name from the matched routes. Nested
+ * relative paths are joined; the name is the deepest `handle.name`, or
+ * else the deepest route id that isn't generated.
+ */
+export function getReactRouterRoute(matches: ReactRouterMatch[]): RouteInfo {
+  let path = '';
+  let name: string | undefined;
+
+  for (const { route } of matches) {
+    if (route.path) {
+      path = route.path.startsWith('/') ? route.path : `${path}/${route.path}`;
+    }
+    const handleName = (route.handle as { name?: unknown } | undefined)?.name;
+    if (typeof handleName === 'string') {
+      name = handleName;
+    } else if (route.id && !GENERATED_ROUTE_ID.test(route.id)) {
+      name = route.id;
+    }
+  }
+
+  const route = `/${path.split('/').filter(Boolean).join('/')}`;
+  return { route, name };
+}
+
+/**
+ * Records route changes of a data router
+ *
+ * @param tracker - The navigation tracker, e.g. `handle.instrumentations.navigation`
+ * @param router - The router returned by createBrowserRouter()
+ * @param win - Window object (injectable for testing)
+ * @returns A function that stops tracking
+ */
+export function trackReactRouter(
+  tracker: NavigationTracker,
+  router: ReactDataRouter,
+  win: Window = window
+): () => void {
+  let location = router.state.location;
+  let startedAt: number | undefined;
+
+  // The landing page is already recorded; this only adopts its template
+  recordRouteChange(tracker, getReactRouterRoute(router.state.matches), win);
+
+  return router.subscribe((state) => {
+    if (state.navigation.state !== 'idle') {
+      startedAt ??= Date.now();
+      return;
+    }
+    const navigationStart = startedAt ?? Date.now();
+    startedAt = undefined;
+    // Revalidations and cancelled navigations end without a new location
+    if (state.location === location) return;
+
+    location = state.location;
+    recordRouteChange(tracker, { ...getReactRouterRoute(state.matches), startedAt: navigationStart }, win);
+  });
+}
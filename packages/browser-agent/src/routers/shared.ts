@@ -0,0 +1,40 @@
+/**
+ * Router adapter helpers
+ *
+ * Adapters hand the route template, name and navigation start the router
+ * knows to NavigationTracker.recordNavigation(). They are typed against
+ * the parts of each router they use, so the agent doesn't depend on any
+ * framework.
+ */
+
+import type { NavigationTracker, RouteInfo } from '../semantic/navigation';
+
+/**
+ * Records a route change to the current URL once the new route has
+ * rendered, i.e. after the next paint. The title is read then, since
+ * routers and pages usually set it while rendering.
+ *
+ * @param tracker - The navigation tracker, e.g. `handle.instrumentations.navigation`
+ * @param routeInfo - Route template, name and navigation start
+ * @param win - Window object (injectable for testing)
+ */
+export function recordRouteChange(
+  tracker: NavigationTracker,
+  routeInfo: RouteInfo,
+  win: Window = window
+): void {
+  const url = win.location.href;
+  afterNextPaint(win, () => tracker.recordNavigation(url, win.document.title, routeInfo));
+}
+
+/**
+ * Runs the callback after the next frame has been painted
+ */
+function afterNextPaint(win: Window, callback: () => void): void {
+  if (typeof win.requestAnimationFrame !== 'function') {
+    setTimeout(callback, 0);
+    return;
+  }
+  // rAF runs before the paint; the task queued from it runs after
+  win.requestAnimationFrame(() => setTimeout(callback, 0));
+}
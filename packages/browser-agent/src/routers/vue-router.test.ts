@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { NavigationTracker } from '../semantic/navigation';
+import { trackVueRouter, type VueRouteLocation, type VueRouter } from './vue-router';
+
+describe('trackVueRouter', () => {
+  let recordNavigation: ReturnType<typeof vi.fn>;
+  let guard: (to: VueRouteLocation, from: VueRouteLocation) => void;
+  let hook: (to: VueRouteLocation, from: VueRouteLocation, failure?: unknown) => void;
+  let router: VueRouter;
+  let mockWindow: Window;
+
+  const home: VueRouteLocation = { name: 'home', matched: [{ path: '/' }] };
+  const order: VueRouteLocation = {
+    name: 'order-detail',
+    matched: [{ path: '/orders' }, { path: '/orders/:orderId' }],
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    recordNavigation = vi.fn();
+    mockWindow = {
+      location: { href: 'http://localhost/orders/42' },
+      document: { title: 'Order 42' },
+      requestAnimationFrame: (callback: FrameRequestCallback) => setTimeout(callback, 16),
+    } as unknown as Window;
+    router = {
+      beforeEach: vi.fn((fn) => {
+        guard = fn;
+        return vi.fn();
+      }),
+      afterEach: vi.fn((fn) => {
+        hook = fn;
+        return vi.fn();
+      }),
+    };
+    trackVueRouter({ recordNavigation } as unknown as NavigationTracker, router, mockWindow);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record the matched route once rendered', () => {
+    const startedAt = Date.now();
+    guard(order, home);
+    vi.advanceTimersByTime(120);
+    hook(order, home);
+    expect(recordNavigation).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+
+    expect(recordNavigation).toHaveBeenCalledWith('http://localhost/orders/42', 'Order 42', {
+      route: '/orders/:orderId',
+      name: 'order-detail',
+      startedAt,
+    });
+  });
+
+  it('should time redirects from the first navigation', () => {
+    const startedAt = Date.now();
+    guard(home, order);
+    vi.advanceTimersByTime(50);
+    guard(order, home);
+    hook(order, home);
+    vi.runAllTimers();
+
+    expect(recordNavigation.mock.calls[0][2].startedAt).toBe(startedAt);
+  });
+
+  it('should skip failed navigations', () => {
+    guard(order, home);
+    hook(order, home, new Error('aborted'));
+    vi.runAllTimers();
+
+    expect(recordNavigation).not.toHaveBeenCalled();
+  });
+
+  it('should leave out symbol names', () => {
+    hook({ ...order, name: Symbol('order') }, home);
+    vi.runAllTimers();
+
+    expect(recordNavigation.mock.calls[0][2].name).toBeUndefined();
+  });
+});
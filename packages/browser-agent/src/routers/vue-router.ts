@@ -0,0 +1,70 @@
+/**
+ * Vue Router adapter
+ *
+ * A beforeEach guard marks the navigation start and afterEach records the
+ * route change once the new route has rendered. Redirects keep the start
+ * of the first navigation; aborted and failed navigations are skipped.
+ */
+
+import type { NavigationTracker } from '../semantic/navigation';
+import { recordRouteChange } from './shared';
+
+/**
+ * The parts of a vue-router route location the adapter uses
+ */
+export interface VueRouteLocation {
+  name?: string | symbol | null;
+  /** Matched route records, the deepest last */
+  matched: Array<{ path: string }>;
+}
+
+/**
+ * The parts of a vue-router router the adapter uses
+ */
+export interface VueRouter {
+  beforeEach(guard: (to: VueRouteLocation, from: VueRouteLocation) => void): () => void;
+  afterEach(
+    hook: (to: VueRouteLocation, from: VueRouteLocation, failure?: unknown) => void
+  ): () => void;
+}
+
+/**
+ * Records route changes of a vue-router router. Install it before
+ * app.use(router) so the landing page's template is picked up as well.
+ *
+ * @param tracker - The navigation tracker, e.g. `handle.instrumentations.navigation`
+ * @param router - The router returned by createRouter()
+ * @param win - Window object (injectable for testing)
+ * @returns A function that stops tracking
+ */
+export function trackVueRouter(
+  tracker: NavigationTracker,
+  router: VueRouter,
+  win: Window = window
+): () => void {
+  let startedAt: number | undefined;
+
+  const removeGuard = router.beforeEach(() => {
+    startedAt ??= Date.now();
+  });
+  const removeHook = router.afterEach((to, _from, failure) => {
+    const navigationStart = startedAt;
+    startedAt = undefined;
+    if (failure) return;
+
+    recordRouteChange(
+      tracker,
+      {
+        route: to.matched[to.matched.length - 1]?.path,
+        name: typeof to.name === 'string' ? to.name : undefined,
+        startedAt: navigationStart,
+      },
+      win
+    );
+  });
+
+  return () => {
+    removeGuard();
+    removeHook();
+  };
+}
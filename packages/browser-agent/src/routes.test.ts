@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import { configureRoutes, getRoute, setCurrentRoute } from './routes';
+import { emitSessionEvent } from './events';
+
+describe('getRoute', () => {
+  afterEach(() => {
+    configureRoutes({});
+    setCurrentRoute(null);
+  });
+
+  describe('heuristics', () => {
+    it('should replace numeric IDs', () => {
+      expect(getRoute('https://shop.test/products/123')).toBe('/products/:id');
+      expect(getRoute('https://shop.test/products/456')).toBe('/products/:id');
+    });
+
+    it('should replace UUIDs', () => {
+      expect(getRoute('https://shop.test/orders/b7f0c1e2-3a4b-4c5d-8e9f-0123456789ab/items')).toBe(
+        '/orders/:uuid/items'
+      );
+    });
+
+    it('should replace hashes and opaque tokens', () => {
+      expect(getRoute('/builds/9f86d081884c7d659a2feaa0c55ad015')).toBe('/builds/:hash');
+      expect(getRoute('/invite/aB3dE5fG7hJ9kL1mN3pQ5r')).toBe('/invite/:hash');
+    });
+
+    it('should keep readable segments', () => {
+      expect(getRoute('https://shop.test/checkout/shipping-address')).toBe('/checkout/shipping-address');
+    });
+
+    it('should ignore query strings, fragments and trailing slashes', () => {
+      expect(getRoute('https://shop.test/products/42/?ref=home#reviews')).toBe('/products/:id');
+    });
+
+    it('should use the fragment path for hash-routed apps', () => {
+      expect(getRoute('https://shop.test/#/products/42?tab=1')).toBe('/products/:id');
+    });
+
+    it('should return / for the root', () => {
+      expect(getRoute('https://shop.test/')).toBe('/');
+    });
+
+    it('should be skipped when turned off', () => {
+      configureRoutes({ heuristics: false });
+
+      expect(getRoute('/products/123')).toBe('/products/123');
+    });
+  });
+
+  describe('patterns', () => {
+    it('should prefer a matching pattern', () => {
+      configureRoutes({ patterns: ['/products/:sku'] });
+
+      expect(getRoute('/products/blue-shirt')).toBe('/products/:sku');
+    });
+
+    it('should match a trailing wildcard', () => {
+      configureRoutes({ patterns: ['/docs/*'] });
+
+      expect(getRoute('/docs/guides/setup/1')).toBe('/docs/*');
+    });
+
+    it('should try patterns in order', () => {
+      configureRoutes({ patterns: ['/products/new', '/products/:sku'] });
+
+      expect(getRoute('/products/new')).toBe('/products/new');
+      expect(getRoute('/products/shirt')).toBe('/products/:sku');
+    });
+
+    it('should fall back to heuristics when no pattern matches', () => {
+      configureRoutes({ patterns: ['/products/:sku'] });
+
+      expect(getRoute('/users/7/settings')).toBe('/users/:id/settings');
+    });
+
+    it('should not match patterns of a different length', () => {
+      configureRoutes({ patterns: ['/products/:sku'] });
+
+      expect(getRoute('/products/shirt/reviews')).toBe('/products/shirt/reviews');
+    });
+  });
+
+  describe('current route', () => {
+    it('should prefer the template the router matched', () => {
+      configureRoutes({ patterns: ['/orders/:id'] });
+      setCurrentRoute({ url: 'https://shop.test/orders/42?tab=items', route: '/orders/:orderId' });
+
+      expect(getRoute('https://shop.test/orders/42#summary')).toBe('/orders/:orderId');
+    });
+
+    it('should only apply to the same path', () => {
+      setCurrentRoute({ url: '/orders/42', route: '/orders/:orderId' });
+
+      expect(getRoute('/orders/43')).toBe('/orders/:id');
+    });
+
+    it('should be forgotten when cleared', () => {
+      setCurrentRoute({ url: '/orders/42', route: '/orders/:orderId' });
+      setCurrentRoute(null);
+
+      expect(getRoute('/orders/42')).toBe('/orders/:id');
+    });
+  });
+});
+
+describe('page.route', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+    vi.restoreAllMocks();
+  });
+
+  it('should be added to every session event', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    window.history.replaceState(null, '', '/products/123?ref=home');
+
+    emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+
+    expect(emitted[0].attributes?.['page.route']).toBe('/products/:id');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Route templating
+ *
+ * Turns raw URLs into route templates (`/products/123` -> `/products/:id`)
+ * so dashboards can aggregate on page.route instead of one row per href.
+ * User-defined patterns are tried first, then per-segment heuristics
+ * replace UUIDs, numeric IDs and hashes.
+ */
+
+/**
+ * Route templating configuration
+ */
+export interface RouteConfig {
+  /**
+   * Route patterns tried in order, e.g. `['/products/:sku', '/docs/*']`.
+   * `:name` matches one path segment, a trailing `*` matches the rest.
+   */
+  patterns?: string[];
+  /** Replace UUID, numeric and hash segments when no pattern matches (default: true) */
+  heuristics?: boolean;
+}
+
+const UUID_SEGMENT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const NUMERIC_SEGMENT = /^\d+$/;
+/** Hex digests and object IDs (16+ hex chars) */
+const HEX_HASH_SEGMENT = /^[0-9a-f]{16,}$/i;
+/** Opaque tokens: 20+ URL-safe chars mixing letters and digits */
+const TOKEN_SEGMENT = /^(?=.*\d)(?=.*[a-z])[\w-]{20,}$/i;
+
+let routeConfig: RouteConfig = {};
+
+/** Template a router adapter reported for the current page */
+let currentRoute: { path: string; route: string } | null = null;
+
+/**
+ * Sets the active route configuration
+ */
+export function configureRoutes(config: RouteConfig): void {
+  routeConfig = { ...config };
+}
+
+/**
+ * Sets the route template the router matched for a URL, which wins over
+ * patterns and heuristics for that path until the next route change.
+ * Pass null to forget it.
+ */
+export function setCurrentRoute(current: { url: string; route: string } | null): void {
+  currentRoute = current ? { path: getPath(current.url), route: current.route } : null;
+}
+
+/**
+ * Extracts the path to template from a URL. Hash-routed apps
+ * (`/#/products/1`) use the path in the fragment.
+ */
+function getPath(url: string): string {
+  let pathname: string;
+  let hash: string;
+  try {
+    const parsed = new URL(url, 'http://localhost');
+    pathname = parsed.pathname;
+    hash = parsed.hash;
+  } catch {
+    return url.split(/[?#]/)[0] || '/';
+  }
+
+  if ((pathname === '/' || pathname === '') && hash.startsWith('#/')) {
+    return hash.slice(1).split('?')[0];
+  }
+  return pathname;
+}
+
+function splitSegments(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+/**
+ * Matches path segments against a pattern
+ */
+function matchesPattern(segments: string[], pattern: string): boolean {
+  const patternSegments = splitSegments(pattern);
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const expected = patternSegments[i];
+    if (expected === '*' && i === patternSegments.length - 1) {
+      return segments.length >= i;
+    }
+    if (i >= segments.length) {
+      return false;
+    }
+    if (!expected.startsWith(':') && expected !== segments[i]) {
+      return false;
+    }
+  }
+  return segments.length === patternSegments.length;
+}
+
+/**
+ * Replaces an ID-like segment with a placeholder
+ */
+function templateSegment(segment: string): string {
+  if (UUID_SEGMENT.test(segment)) return ':uuid';
+  if (NUMERIC_SEGMENT.test(segment)) return ':id';
+  if (HEX_HASH_SEGMENT.test(segment) || TOKEN_SEGMENT.test(segment)) return ':hash';
+  return segment;
+}
+
+/**
+ * Returns the route template for a URL
+ *
+ * @param url - Absolute or relative URL
+ * @returns Route such as `/products/:id`
+ */
+export function getRoute(url: string): string {
+  const path = getPath(url);
+  if (currentRoute?.path === path) {
+    return currentRoute.route;
+  }
+  const segments = splitSegments(path);
+
+  for (const pattern of routeConfig.patterns ?? []) {
+    if (matchesPattern(segments, pattern)) {
+      return `/${splitSegments(pattern).join('/')}`;
+    }
+  }
+
+  if (routeConfig.heuristics === false) {
+    return `/${segments.join('/')}`;
+  }
+  return `/${segments.map(templateSegment).join('/')}`;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  configureSampling,
+  getSessionSamplePosition,
+  isSessionSampled,
+  shouldSampleEvent,
+} from './sampling';
+import { getSessionId, resetSession } from './session';
+
+describe('session sampling', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+    resetSession();
+  });
+
+  afterEach(() => {
+    configureSampling({});
+  });
+
+  describe('getSessionSamplePosition', () => {
+    it('should be deterministic for a session ID', () => {
+      const id = 'b7f0c1e2-3a4b-4c5d-8e9f-0123456789ab';
+
+      expect(getSessionSamplePosition(id)).toBe(getSessionSamplePosition(id));
+    });
+
+    it('should return values in [0, 1)', () => {
+      for (let i = 0; i < 100; i++) {
+        const position = getSessionSamplePosition(`session-${i}`);
+        expect(position).toBeGreaterThanOrEqual(0);
+        expect(position).toBeLessThan(1);
+      }
+    });
+
+    it('should spread sessions roughly evenly', () => {
+      let below = 0;
+      for (let i = 0; i < 1000; i++) {
+        if (getSessionSamplePosition(`session-${i}`) < 0.5) below++;
+      }
+
+      expect(below).toBeGreaterThan(400);
+      expect(below).toBeLessThan(600);
+    });
+  });
+
+  describe('isSessionSampled', () => {
+    it('should sample every session by default', () => {
+      expect(isSessionSampled()).toBe(true);
+    });
+
+    it('should sample no session at rate 0', () => {
+      configureSampling({ sampleRate: 0 });
+
+      expect(isSessionSampled()).toBe(false);
+    });
+
+    it('should match the position of the current session ID', () => {
+      const position = getSessionSamplePosition(getSessionId());
+
+      configureSampling({ sampleRate: position + 0.0001 });
+      expect(isSessionSampled()).toBe(true);
+
+      configureSampling({ sampleRate: position });
+      expect(isSessionSampled()).toBe(false);
+    });
+
+    it('should keep the same decision for the life of the session', () => {
+      configureSampling({ sampleRate: 0.5 });
+      const first = isSessionSampled();
+
+      for (let i = 0; i < 10; i++) {
+        expect(isSessionSampled()).toBe(first);
+      }
+    });
+  });
+
+  describe('shouldSampleEvent', () => {
+    it('should follow the session decision without overrides', () => {
+      configureSampling({ sampleRate: 0 });
+
+      expect(shouldSampleEvent('user.interaction')).toBe(false);
+    });
+
+    it('should keep overridden categories from unsampled sessions', () => {
+      configureSampling({ sampleRate: 0, categorySampleRates: { 'user.error': 1 } });
+
+      expect(shouldSampleEvent('user.error')).toBe(true);
+      expect(shouldSampleEvent('user.interaction')).toBe(false);
+    });
+
+    it('should drop overridden categories from sampled sessions', () => {
+      configureSampling({ sampleRate: 1, categorySampleRates: { 'user.navigation': 0 } });
+
+      expect(shouldSampleEvent('user.navigation')).toBe(false);
+      expect(shouldSampleEvent('user.interaction')).toBe(true);
+    });
+
+    it('should handle events without a category', () => {
+      configureSampling({ sampleRate: 1 });
+
+      expect(shouldSampleEvent(undefined)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Session-level head sampling
+ *
+ * The sampling decision is derived from a hash of the session ID, so a
+ * session is either sampled or not for its whole life (including reloads,
+ * since the session ID survives them) without storing any extra state.
+ */
+
+import type { Attributes, Context, Link, SpanKind } from '@opentelemetry/api';
+import { SamplingDecision, type Sampler, type SamplingResult } from '@opentelemetry/sdk-trace-base';
+import type { EventCategory } from './events';
+import { getSessionId } from './session';
+import { hasSpanConsent } from './consent';
+
+/**
+ * Sampling configuration
+ */
+export interface SamplingConfig {
+  /** Fraction of sessions to keep, 0-1 (default: 1.0) */
+  sampleRate?: number;
+  /**
+   * Per-category rates overriding sampleRate, e.g. `{ 'user.error': 1 }`
+   * to keep errors from every session
+   */
+  categorySampleRates?: Partial<Record<EventCategory, number>>;
+}
+
+let samplingConfig: SamplingConfig = {};
+
+/**
+ * Sets the active sampling configuration
+ */
+export function configureSampling(config: SamplingConfig): void {
+  samplingConfig = { ...config };
+}
+
+/**
+ * Maps a session ID to a stable position in [0, 1) using FNV-1a
+ */
+export function getSessionSamplePosition(sessionId: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < sessionId.length; i++) {
+    hash ^= sessionId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Clamps a rate to 0-1, treating undefined as 1
+ */
+function normalizeRate(rate: number | undefined): number {
+  if (rate === undefined || Number.isNaN(rate)) {
+    return 1;
+  }
+  return Math.min(Math.max(rate, 0), 1);
+}
+
+/**
+ * Whether the current session is sampled at the base sample rate
+ */
+export function isSessionSampled(): boolean {
+  return getSessionSamplePosition(getSessionId()) < normalizeRate(samplingConfig.sampleRate);
+}
+
+/**
+ * Whether an event of the given category should be exported for the
+ * current session, taking per-category overrides into account
+ */
+export function shouldSampleEvent(category: EventCategory | undefined): boolean {
+  const override = category ? samplingConfig.categorySampleRates?.[category] : undefined;
+  if (override === undefined) {
+    return isSessionSampled();
+  }
+  return getSessionSamplePosition(getSessionId()) < normalizeRate(override);
+}
+
+/**
+ * Trace sampler that follows the session sampling and consent decisions, so
+ * spans and logs are kept or dropped together
+ */
+export class SessionSampler implements Sampler {
+  shouldSample(
+    _context: Context,
+    _traceId: string,
+    _spanName: string,
+    _spanKind: SpanKind,
+    _attributes: Attributes,
+    _links: Link[]
+  ): SamplingResult {
+    // Without consent, don't record (or create a session for) spans at all
+    if (!hasSpanConsent()) {
+      return { decision: SamplingDecision.NOT_RECORD };
+    }
+
+    const sampled = isSessionSampled();
+    return {
+      decision: sampled ? SamplingDecision.RECORD_AND_SAMPLED : SamplingDecision.NOT_RECORD,
+      attributes: { 'session.sampled': sampled },
+    };
+  }
+
+  toString(): string {
+    return `SessionSampler{sampleRate=${normalizeRate(samplingConfig.sampleRate)}}`;
+  }
+}
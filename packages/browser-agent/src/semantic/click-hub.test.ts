@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('../logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import { ClickHub, ClickInstrumentation, type ClickContext } from './clicks';
+import { RageClickDetector } from '../frustration/rage-click';
+import { DeadClickDetector } from '../frustration/dead-click';
+import { resetSession } from '../session';
+
+function render(html: string): void {
+  document.body.innerHTML = html;
+}
+
+function query(selector: string): HTMLElement {
+  return document.querySelector(selector) as HTMLElement;
+}
+
+function find(name: string) {
+  return emitted.find((record) => record.body === name);
+}
+
+describe('ClickHub', () => {
+  let hub: ClickHub;
+  let cleanups: Array<() => void>;
+
+  /** Subscribes for the rest of the test */
+  function subscribe(...args: Parameters<ClickHub['subscribe']>): void {
+    cleanups.push(hub.subscribe(...args));
+  }
+
+  /** Enables the instrumentations, disabled again after the test */
+  function enable(...instances: Array<{ enable(): void; disable(): void }>): void {
+    for (const instance of instances) {
+      instance.enable();
+      cleanups.push(() => instance.disable());
+    }
+  }
+
+  beforeEach(() => {
+    emitted.length = 0;
+    sessionStorage.clear();
+    resetSession();
+    hub = new ClickHub({ document });
+    cleanups = [];
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    cleanups.forEach((cleanup) => cleanup());
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should listen once for all consumers', () => {
+    const addListener = vi.spyOn(document, 'addEventListener');
+    const removeListener = vi.spyOn(document, 'removeEventListener');
+
+    const removers = [hub.subscribe(vi.fn()), hub.subscribe(vi.fn()), hub.subscribe(vi.fn())];
+    expect(addListener).toHaveBeenCalledTimes(1);
+
+    removers.forEach((remove) => remove());
+    expect(removeListener).toHaveBeenCalledTimes(1);
+    expect(hub.size).toBe(0);
+  });
+
+  it('should share one target between consumers', () => {
+    render('<button id="b">Pay</button>');
+    const clicks: ClickContext[] = [];
+    subscribe((click) => clicks.push(click));
+    subscribe((click) => clicks.push(click));
+
+    query('#b').click();
+
+    expect(clicks[0].target).toBe(clicks[1].target);
+    expect(clicks[0].target.semanticName).toBe('Pay');
+  });
+
+  it('should compute the cursor once', () => {
+    render('<p id="p" style="cursor: pointer">Total</p>');
+    const getComputedStyle = vi.spyOn(window, 'getComputedStyle');
+    const results: boolean[] = [];
+    subscribe((click) => results.push(click.looksClickable()));
+    subscribe((click) => results.push(click.looksClickable()));
+
+    query('#p').click();
+
+    expect(results).toEqual([true, true]);
+    expect(getComputedStyle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run recorders before detectors', () => {
+    render('<button id="b">Pay</button>');
+    const order: string[] = [];
+    subscribe(() => order.push('detector'));
+    subscribe(() => order.push('recorder'), 'recorder');
+
+    query('#b').click();
+
+    expect(order).toEqual(['recorder', 'detector']);
+  });
+
+  it('should skip ignored elements', () => {
+    render('<div data-sr-ignore><button id="b">Secret</button></div>');
+    const consumer = vi.fn();
+    subscribe(consumer);
+
+    query('#b').click();
+
+    expect(consumer).not.toHaveBeenCalled();
+  });
+
+  it('should keep dispatching when a consumer throws', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    render('<button id="b">Pay</button>');
+    const consumer = vi.fn();
+    subscribe(() => {
+      throw new Error('boom');
+    });
+    subscribe(consumer);
+
+    query('#b').click();
+
+    expect(consumer).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with the built-in consumers', () => {
+    it('should reference the user.click sequence from rage clicks', () => {
+      render('<button id="b">Pay</button>');
+      // Detector subscribed first: the recorder still runs before it
+      const rage = new RageClickDetector({ document, hub });
+      const clicks = new ClickInstrumentation({ document, hub });
+      enable(rage, clicks);
+
+      for (let i = 0; i < 3; i++) {
+        query('#b').click();
+      }
+
+      const lastClick = emitted.filter((record) => record.body === 'user.click')[2];
+      expect(find('user.frustration.rage_click')?.attributes?.['frustration.click_sequence']).toBe(
+        lastClick.attributes?.['session.sequence']
+      );
+    });
+
+    it('should reference the user.click sequence from dead clicks', () => {
+      render('<p id="p">Total</p>');
+      const clicks = new ClickInstrumentation({ document, hub });
+      const dead = new DeadClickDetector({ document, hub });
+      enable(clicks, dead);
+
+      query('#p').click();
+
+      expect(find('user.frustration.dead_click')?.attributes?.['frustration.click_sequence']).toBe(
+        find('user.click')?.attributes?.['session.sequence']
+      );
+    });
+
+    it('should leave the sequence out without click instrumentation', () => {
+      render('<p id="p">Total</p>');
+      const dead = new DeadClickDetector({ document, hub });
+      enable(dead);
+
+      query('#p').click();
+
+      expect(find('user.frustration.dead_click')?.attributes).not.toHaveProperty('frustration.click_sequence');
+    });
+
+    it('should not compute the cursor for interactive elements', () => {
+      render('<button id="b">Pay</button>');
+      const getComputedStyle = vi.spyOn(window, 'getComputedStyle');
+      const dead = new DeadClickDetector({ document, hub });
+      enable(dead);
+
+      query('#b').click();
+
+      expect(getComputedStyle).not.toHaveBeenCalled();
+    });
+
+    it('should stop receiving clicks once disabled', () => {
+      const clicks = new ClickInstrumentation({ document, hub });
+      const dead = new DeadClickDetector({ document, hub });
+      clicks.enable();
+      dead.enable();
+
+      clicks.disable();
+      dead.disable();
+
+      expect(hub.size).toBe(0);
+    });
+  });
+});
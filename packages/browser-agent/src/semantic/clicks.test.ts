@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { JSDOM } from 'jsdom';
 import { ClickInstrumentation, getSemanticName, getDataAttributes, getReactComponentName } from './clicks';
 import { createSessionReplayProvider, shutdownProvider } from '../provider';
@@ -1,5 +1,6 @@
 import type { ClickTarget } from '../types';
 import { emitSessionEvent, type SessionEventAttributes } from '../events';
+import { getPrivacyName, isIgnoredElement, isMaskedElement, PRIVACY_ATTRIBUTE_PREFIX } from './privacy';
 
 const MAX_SEMANTIC_NAME_LENGTH = 50;
 
@@ -9,17 +10,28 @@ const MAX_SEMANTIC_NAME_LENGTH = 50;
 export interface ClickInstrumentationConfig {
   /** Document to attach listeners to */
   document: Document;
+  /** Shared click listener (default: a hub of its own) */
+  hub?: ClickHub;
   /** Whether to capture coordinates (default: false for privacy) */
   captureCoordinates?: boolean;
   /** Elements to ignore (CSS selector) */
   ignoreSelector?: string;
+  /** Callback after each captured click (optional) */
+  onClick?: (target: ClickTarget, event: MouseEvent) => void;
 }
 
 /**
  * Extracts a semantic name from an element.
- * Priority: aria-label > innerText/textContent > title > alt > placeholder > tag name
+ * Priority: data-sr-name / data-sr-mask (nearest, up the ancestor chain) >
+ * aria-label > innerText/textContent > title > alt > placeholder > tag name
  */
 export function getSemanticName(element: Element): string {
+  // Privacy markers win so masked content never reaches any event
+  const privacyName = getPrivacyName(element);
+  if (privacyName !== null) {
+    return truncate(privacyName);
+  }
+
   // Check aria-label first (most semantic)
   const ariaLabel = element.getAttribute('aria-label');
   if (ariaLabel) {
@@ -72,7 +84,7 @@ function truncate(text: string, maxLength = MAX_SEMANTIC_NAME_LENGTH): string {
 }
 
 /**
- * Extracts data-* attributes from an element
+ * Extracts data-* attributes from an element (except data-sr-* privacy markers)
  */
 export function getDataAttributes(element: Element): Record<string, string> {
   const result: Record<string, string> = {};
@@ -81,7 +93,7 @@ export function getDataAttributes(element: Element): Record<string, string> {
   const attrs = element.attributes;
   for (let i = 0; i < attrs.length; i++) {
     const attr = attrs[i];
-    if (attr.name.startsWith('data-')) {
+    if (attr.name.startsWith('data-') && !attr.name.startsWith(PRIVACY_ATTRIBUTE_PREFIX)) {
       // Convert data-product-id to product-id (remove 'data-' prefix)
       const key = attr.name.substring(5);
       result[key] = attr.value;
@@ -121,7 +133,9 @@ export function getReactComponentName(element: Element): string | undefined {
 }
 
 /**
- * Builds a ClickTarget from a DOM element
+ * Builds a ClickTarget from a DOM element. Masked elements only get their
+ * placeholder name and tag: IDs, classes, data attributes and component
+ * names can carry the same personal data as the text.
  */
 export function buildClickTarget(element: Element): ClickTarget {
   const target: ClickTarget = {
@@ -129,6 +143,10 @@ export function buildClickTarget(element: Element): ClickTarget {
     element: element.tagName.toLowerCase(),
   };
 
+  if (isMaskedElement(element)) {
+    return target;
+  }
+
   // Add ID if present
   if (element.id) {
     target.id = element.id;
@@ -157,53 +175,182 @@ export function buildClickTarget(element: Element): ClickTarget {
   return target;
 }
 
+/**
+ * A click as seen by every consumer
+ */
+export interface ClickContext {
+  /** The clicked element */
+  readonly element: Element;
+  readonly event: MouseEvent;
+  /** Semantic target, built on first access and shared */
+  readonly target: ClickTarget;
+  /** Whether the element has a pointer cursor (computed on first call) */
+  looksClickable(): boolean;
+  /** session.sequence of the user.click recorded for this click, if any */
+  sequence?: number;
+}
+
+/**
+ * Receives each click that isn't inside a data-sr-ignore block
+ */
+export type ClickConsumer = (click: ClickContext) => void;
+
+/**
+ * Recorders (user.click) see each click before detectors, so detectors
+ * can reference the recorded sequence
+ */
+export type ClickConsumerRole = 'recorder' | 'detector';
+
+interface Subscription {
+  consumer: ClickConsumer;
+  role: ClickConsumerRole;
+}
+
+/**
+ * Builds the context for a click, deferring the expensive parts until a
+ * consumer asks for them
+ */
+function createClickContext(element: Element, event: MouseEvent): ClickContext {
+  let target: ClickTarget | undefined;
+  let looksClickable: boolean | undefined;
+
+  return {
+    element,
+    event,
+    get target() {
+      target ??= buildClickTarget(element);
+      return target;
+    },
+    looksClickable() {
+      if (looksClickable === undefined) {
+        const view = element.ownerDocument.defaultView;
+        looksClickable = view ? view.getComputedStyle(element).cursor === 'pointer' : false;
+      }
+      return looksClickable;
+    },
+  };
+}
+
+/**
+ * Delegated click listener shared by every click consumer. The ClickTarget
+ * and computed cursor are worked out at most once per click, however many
+ * detectors look at it. The document listener is attached while there is
+ * at least one consumer.
+ */
+export class ClickHub {
+  private subscriptions: Subscription[] = [];
+  private clickHandler: ((event: MouseEvent) => void) | null = null;
+
+  constructor(private config: { document: Document }) {}
+
+  /**
+   * Adds a consumer
+   *
+   * @param consumer - Called for every click
+   * @param role - Recorders run before detectors; otherwise in subscription order
+   * @returns Function that removes the consumer
+   */
+  subscribe(consumer: ClickConsumer, role: ClickConsumerRole = 'detector'): () => void {
+    const subscription = { consumer, role };
+    if (role === 'recorder') {
+      const firstDetector = this.subscriptions.findIndex((existing) => existing.role === 'detector');
+      const index = firstDetector === -1 ? this.subscriptions.length : firstDetector;
+      this.subscriptions.splice(index, 0, subscription);
+    } else {
+      this.subscriptions.push(subscription);
+    }
+    this.listen();
+
+    return () => {
+      const position = this.subscriptions.indexOf(subscription);
+      if (position !== -1) {
+        this.subscriptions.splice(position, 1);
+      }
+      if (this.subscriptions.length === 0) {
+        this.stopListening();
+      }
+    };
+  }
+
+  /**
+   * Number of consumers
+   */
+  get size(): number {
+    return this.subscriptions.length;
+  }
+
+  private listen(): void {
+    if (this.clickHandler) return;
+
+    this.clickHandler = this.handleClick.bind(this);
+    this.config.document.addEventListener('click', this.clickHandler, { capture: true });
+  }
+
+  private stopListening(): void {
+    if (!this.clickHandler) return;
+
+    this.config.document.removeEventListener('click', this.clickHandler, { capture: true });
+    this.clickHandler = null;
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const element = event.target;
+    if (!(element instanceof Element) || isIgnoredElement(element)) return;
+
+    const click = createClickContext(element, event);
+    // Copy so consumers can unsubscribe while the click is dispatched
+    for (const { consumer } of [...this.subscriptions]) {
+      try {
+        consumer(click);
+      } catch (error) {
+        console.warn('[SessionReplay] Click consumer failed:', error);
+      }
+    }
+  }
+}
+
 /**
  * Instrumentation for capturing semantic click events
  */
 export class ClickInstrumentation {
   private config: ClickInstrumentationConfig;
-  private enabled = false;
-  private clickHandler: ((event: MouseEvent) => void) | null = null;
+  private hub: ClickHub;
+  private unsubscribe: (() => void) | null = null;
 
   constructor(config: ClickInstrumentationConfig) {
     this.config = config;
+    this.hub = config.hub ?? new ClickHub({ document: config.document });
   }
 
   /**
    * Enables click instrumentation
    */
   enable(): void {
-    if (this.enabled) return;
+    if (this.unsubscribe) return;
 
-    this.clickHandler = this.handleClick.bind(this);
-    this.config.document.addEventListener('click', this.clickHandler, { capture: true });
-    this.enabled = true;
+    this.unsubscribe = this.hub.subscribe((click) => this.handleClick(click), 'recorder');
   }
 
   /**
    * Disables click instrumentation
    */
   disable(): void {
-    if (!this.enabled || !this.clickHandler) return;
-
-    this.config.document.removeEventListener('click', this.clickHandler, { capture: true });
-    this.clickHandler = null;
-    this.enabled = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
   }
 
   /**
-   * Handles a click event
+   * Records user.click and stores its sequence on the click for detectors
    */
-  private handleClick(event: MouseEvent): void {
-    const target = event.target;
-    if (!(target instanceof Element)) return;
+  private handleClick(click: ClickContext): void {
+    const { element, event } = click;
 
-    // Check ignore selector
-    if (this.config.ignoreSelector && target.matches(this.config.ignoreSelector)) {
+    // Check ignore selector (data-sr-ignore is handled by the hub)
+    if (this.config.ignoreSelector && element.matches(this.config.ignoreSelector)) {
       return;
     }
 
-    const clickTarget = buildClickTarget(target);
+    const clickTarget = click.target;
 
     // Build attributes for the event
     const attributes: Partial<SessionEventAttributes> = {
@@ -238,9 +385,14 @@ export class ClickInstrumentation {
     }
 
     // Emit the click event as a log record
-    emitSessionEvent({
+    click.sequence = emitSessionEvent({
       name: 'user.click',
       attributes,
     });
+
+    // Call callback if provided
+    if (this.config.onClick) {
+      this.config.onClick(clickTarget, event);
+    }
   }
 }
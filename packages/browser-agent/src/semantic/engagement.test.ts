@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EngagementTracker, type EngagementEvent, type EngagementTrackerConfig } from './engagement';
+
+describe('EngagementTracker', () => {
+  let tracker: EngagementTracker;
+  let events: EngagementEvent[];
+  let visibility: DocumentVisibilityState;
+
+  function track(config: Partial<EngagementTrackerConfig> = {}): EngagementTracker {
+    tracker = new EngagementTracker({
+      onEngagement: (event) => events.push(event),
+      window,
+      idleTimeoutMs: 5000,
+      ...config,
+    });
+    tracker.enable();
+    return tracker;
+  }
+
+  function setVisibility(state: DocumentVisibilityState): void {
+    visibility = state;
+    document.dispatchEvent(new Event('visibilitychange'));
+  }
+
+  function pageTransition(type: 'pagehide' | 'pageshow', persisted: boolean): void {
+    window.dispatchEvent(Object.assign(new Event(type), { persisted }));
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    events = [];
+    visibility = 'visible';
+    vi.spyOn(document, 'visibilityState', 'get').mockImplementation(() => visibility);
+  });
+
+  afterEach(() => {
+    tracker.disable();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('active and idle time', () => {
+    it('should count time after input as active until the idle timeout', () => {
+      track();
+
+      vi.advanceTimersByTime(8000);
+
+      expect(tracker.getEngagement()).toEqual({ activeMs: 5000, idleMs: 3000, hiddenMs: 0 });
+    });
+
+    it('should extend active time with each input', () => {
+      track();
+
+      vi.advanceTimersByTime(4000);
+      window.dispatchEvent(new Event('keydown'));
+      vi.advanceTimersByTime(4000);
+      document.body.dispatchEvent(new Event('scroll'));
+      vi.advanceTimersByTime(10000);
+
+      expect(tracker.getEngagement()).toEqual({ activeMs: 13000, idleMs: 5000, hiddenMs: 0 });
+    });
+
+    it('should become active again after idling', () => {
+      track();
+
+      vi.advanceTimersByTime(20000);
+      window.dispatchEvent(new Event('pointerdown'));
+      vi.advanceTimersByTime(2000);
+
+      expect(tracker.getEngagement()).toEqual({ activeMs: 7000, idleMs: 15000, hiddenMs: 0 });
+    });
+  });
+
+  describe('visibility', () => {
+    it('should report hiding and showing the page', () => {
+      track();
+
+      vi.advanceTimersByTime(3000);
+      setVisibility('hidden');
+      vi.advanceTimersByTime(60000);
+      setVisibility('visible');
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'page_hidden', durationMs: 3000 }),
+        expect.objectContaining({ type: 'page_visible', durationMs: 60000 }),
+      ]);
+    });
+
+    it('should count background time as hidden, not idle', () => {
+      track();
+
+      setVisibility('hidden');
+      vi.advanceTimersByTime(60000);
+      setVisibility('visible');
+      vi.advanceTimersByTime(1000);
+
+      expect(tracker.getEngagement()).toEqual({ activeMs: 1000, idleMs: 0, hiddenMs: 60000 });
+    });
+
+    it('should ignore input while hidden', () => {
+      track();
+
+      setVisibility('hidden');
+      window.dispatchEvent(new Event('keydown'));
+      vi.advanceTimersByTime(60000);
+
+      expect(tracker.getEngagement().activeMs).toBe(0);
+    });
+
+    it('should not repeat an unchanged state', () => {
+      track();
+
+      setVisibility('visible');
+
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('page summaries', () => {
+    it('should summarize the page on pagehide', () => {
+      track();
+      const pageUrl = window.location.href;
+
+      vi.advanceTimersByTime(7000);
+      setVisibility('hidden');
+      vi.advanceTimersByTime(1000);
+      pageTransition('pagehide', false);
+
+      expect(events.map((event) => event.type)).toEqual(['page_hidden', 'page_engagement']);
+      expect(events[1]).toMatchObject({
+        pageUrl,
+        activeMs: 5000,
+        idleMs: 2000,
+        hiddenMs: 1000,
+        endReason: 'pagehide',
+      });
+    });
+
+    it('should report the page hidden when pagehide comes first', () => {
+      track();
+
+      pageTransition('pagehide', true);
+      setVisibility('hidden');
+
+      expect(events.map((event) => event.type)).toEqual(['page_hidden', 'page_engagement']);
+    });
+
+    it('should start a new summary on route changes', () => {
+      track();
+
+      vi.advanceTimersByTime(2000);
+      tracker.recordPageChange('http://localhost/cart', 'Cart');
+      vi.advanceTimersByTime(1000);
+      pageTransition('pagehide', false);
+
+      expect(events[0]).toMatchObject({ type: 'page_engagement', activeMs: 2000, endReason: 'route_change' });
+      expect(events[2]).toMatchObject({
+        type: 'page_engagement',
+        pageUrl: 'http://localhost/cart',
+        pageTitle: 'Cart',
+        activeMs: 1000,
+      });
+    });
+
+    it('should start over when restored from the back/forward cache', () => {
+      track();
+
+      setVisibility('hidden');
+      pageTransition('pagehide', true);
+      vi.advanceTimersByTime(30000);
+      visibility = 'visible';
+      pageTransition('pageshow', true);
+      vi.advanceTimersByTime(1000);
+      tracker.recordPageChange('http://localhost/cart', 'Cart');
+
+      expect(events.slice(2)).toEqual([
+        expect.objectContaining({ type: 'page_visible', restored: true, durationMs: 30000 }),
+        expect.objectContaining({ type: 'page_engagement', restored: true, activeMs: 1000, hiddenMs: 0 }),
+      ]);
+    });
+
+    it('should ignore pageshow for a normal load', () => {
+      track();
+
+      pageTransition('pageshow', false);
+
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('disable', () => {
+    it('should stop listening', () => {
+      track();
+      tracker.disable();
+
+      setVisibility('hidden');
+      pageTransition('pagehide', false);
+
+      expect(events).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Page Engagement Tracking
+ *
+ * Splits the time spent on each page into active, idle and hidden time.
+ * The user is active while there was input or scrolling within the idle
+ * timeout, idle while the page is visible without input, and hidden while
+ * the tab is in the background. Reports visibility changes as they happen
+ * and a per-page summary when the user leaves, either through a route
+ * change or pagehide. A page restored from the back/forward cache starts
+ * a new summary.
+ */
+
+export type EngagementEventType = 'page_visible' | 'page_hidden' | 'page_engagement';
+
+/** Why a page's engagement summary ended */
+export type EngagementEndReason = 'route_change' | 'pagehide';
+
+export interface EngagementEvent {
+  type: EngagementEventType;
+  timestamp: number;
+  /** Page the event is about */
+  pageUrl: string;
+  pageTitle: string;
+  /**
+   * page_visible: how long the page was hidden; page_hidden: how long it
+   * was visible
+   */
+  durationMs?: number;
+  /** The page came back from the back/forward cache */
+  restored?: boolean;
+  /** page_engagement: time with recent input or scrolling */
+  activeMs?: number;
+  /** page_engagement: time visible without recent input */
+  idleMs?: number;
+  /** page_engagement: time in the background */
+  hiddenMs?: number;
+  endReason?: EngagementEndReason;
+}
+
+export interface EngagementTrackerConfig {
+  /** Callback for visibility changes and page summaries */
+  onEngagement: (event: EngagementEvent) => void;
+  /** Window object (injectable for testing) */
+  window?: Window;
+  /** How long the user counts as active after input or scrolling, in ms (default: 10000) */
+  idleTimeoutMs?: number;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 10000;
+
+/** Input that makes the user active; listened for in the capture phase */
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const;
+
+export class EngagementTracker {
+  private config: EngagementTrackerConfig;
+  private win: Window;
+  private enabled = false;
+  private pageUrl = '';
+  private pageTitle = '';
+  private restored = false;
+  private hidden = false;
+  /** Between pagehide and a pageshow from the back/forward cache */
+  private left = false;
+  private activeMs = 0;
+  private idleMs = 0;
+  private hiddenMs = 0;
+  /** Time up to which active, idle and hidden time are counted */
+  private countedUntil = 0;
+  private lastActivity = 0;
+  private visibilitySince = 0;
+  private activityHandler: (() => void) | null = null;
+  private visibilityHandler: (() => void) | null = null;
+  private pagehideHandler: ((event: PageTransitionEvent) => void) | null = null;
+  private pageshowHandler: ((event: PageTransitionEvent) => void) | null = null;
+
+  constructor(config: EngagementTrackerConfig) {
+    this.config = config;
+    this.win = config.window || (typeof window !== 'undefined' ? window : null!);
+  }
+
+  /**
+   * Enable engagement tracking. The page counts as active from here.
+   */
+  enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+
+    const now = Date.now();
+    this.left = false;
+    this.hidden = this.win.document.visibilityState === 'hidden';
+    this.visibilitySince = now;
+    this.startPage(this.win.location.href, this.win.document.title, now);
+
+    this.activityHandler = () => this.recordActivity();
+    this.visibilityHandler = this.handleVisibilityChange.bind(this);
+    this.pagehideHandler = this.handlePagehide.bind(this);
+    this.pageshowHandler = this.handlePageshow.bind(this);
+
+    for (const type of ACTIVITY_EVENTS) {
+      this.win.addEventListener(type, this.activityHandler, { capture: true, passive: true });
+    }
+    this.win.document.addEventListener('visibilitychange', this.visibilityHandler);
+    this.win.addEventListener('pagehide', this.pagehideHandler);
+    this.win.addEventListener('pageshow', this.pageshowHandler);
+  }
+
+  /**
+   * Disable engagement tracking. The current page's summary is dropped.
+   */
+  disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+
+    if (this.activityHandler) {
+      for (const type of ACTIVITY_EVENTS) {
+        this.win.removeEventListener(type, this.activityHandler, { capture: true });
+      }
+      this.activityHandler = null;
+    }
+
+    if (this.visibilityHandler) {
+      this.win.document.removeEventListener('visibilitychange', this.visibilityHandler);
+      this.visibilityHandler = null;
+    }
+
+    if (this.pagehideHandler) {
+      this.win.removeEventListener('pagehide', this.pagehideHandler);
+      this.pagehideHandler = null;
+    }
+
+    if (this.pageshowHandler) {
+      this.win.removeEventListener('pageshow', this.pageshowHandler);
+      this.pageshowHandler = null;
+    }
+  }
+
+  /**
+   * Record user input (called internally or externally)
+   */
+  recordActivity(): void {
+    if (!this.enabled || this.hidden || this.left) return;
+
+    const now = Date.now();
+    this.count(now);
+    this.lastActivity = now;
+  }
+
+  /**
+   * Ends the current page's summary and starts one for the new page
+   * (call this on SPA route changes)
+   */
+  recordPageChange(url: string, title: string): void {
+    if (!this.enabled || this.left) return;
+
+    const now = Date.now();
+    this.emitSummary('route_change', now);
+    this.restored = false;
+    this.startPage(url, title, now);
+  }
+
+  /**
+   * Get the current page's engagement so far
+   */
+  getEngagement(): { activeMs: number; idleMs: number; hiddenMs: number } {
+    if (this.enabled && !this.left) {
+      this.count(Date.now());
+    }
+    return { activeMs: this.activeMs, idleMs: this.idleMs, hiddenMs: this.hiddenMs };
+  }
+
+  private startPage(url: string, title: string, now: number): void {
+    this.pageUrl = url;
+    this.pageTitle = title;
+    this.activeMs = 0;
+    this.idleMs = 0;
+    this.hiddenMs = 0;
+    this.countedUntil = now;
+    this.lastActivity = now;
+  }
+
+  /**
+   * Adds the time since the last count to the active, idle or hidden total
+   */
+  private count(now: number): void {
+    const from = this.countedUntil;
+    if (now <= from) return;
+    this.countedUntil = now;
+
+    if (this.hidden) {
+      this.hiddenMs += now - from;
+      return;
+    }
+    const activeUntil = Math.min(now, Math.max(from, this.lastActivity + this.getIdleTimeoutMs()));
+    this.activeMs += activeUntil - from;
+    this.idleMs += now - activeUntil;
+  }
+
+  private getIdleTimeoutMs(): number {
+    return this.config.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  }
+
+  private handleVisibilityChange(): void {
+    if (this.left) return;
+
+    const hidden = this.win.document.visibilityState === 'hidden';
+    if (hidden !== this.hidden) {
+      this.setHidden(hidden, Date.now());
+    }
+  }
+
+  /**
+   * Switches between visible and hidden and reports the change. Coming
+   * back to the page counts as activity.
+   */
+  private setHidden(hidden: boolean, now: number, restored = false): void {
+    this.count(now);
+    const durationMs = now - this.visibilitySince;
+    this.hidden = hidden;
+    this.visibilitySince = now;
+    if (!hidden) {
+      this.lastActivity = now;
+    }
+
+    this.config.onEngagement({
+      type: hidden ? 'page_hidden' : 'page_visible',
+      timestamp: now,
+      pageUrl: this.pageUrl,
+      pageTitle: this.pageTitle,
+      durationMs,
+      restored: restored || undefined,
+    });
+  }
+
+  private emitSummary(endReason: EngagementEndReason, now: number): void {
+    this.count(now);
+
+    this.config.onEngagement({
+      type: 'page_engagement',
+      timestamp: now,
+      pageUrl: this.pageUrl,
+      pageTitle: this.pageTitle,
+      restored: this.restored || undefined,
+      activeMs: this.activeMs,
+      idleMs: this.idleMs,
+      hiddenMs: this.hiddenMs,
+      endReason,
+    });
+  }
+
+  private handlePagehide(_event: PageTransitionEvent): void {
+    if (this.left) return;
+
+    // visibilitychange usually comes first, but not in every browser
+    const now = Date.now();
+    if (!this.hidden) {
+      this.setHidden(true, now);
+    }
+    this.emitSummary('pagehide', now);
+    this.left = true;
+  }
+
+  private handlePageshow(event: PageTransitionEvent): void {
+    if (!event.persisted || !this.left) return;
+
+    // Restored from the back/forward cache: a new visit to the page
+    const now = Date.now();
+    this.left = false;
+    this.restored = true;
+    this.startPage(this.win.location.href, this.win.document.title, now);
+    if (this.win.document.visibilityState !== 'hidden') {
+      this.setHidden(false, now, true);
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { getPrivacyName, isIgnoredElement } from './privacy';
+
 /**
  * Event for form-level actions
  */
@@ -48,8 +50,13 @@ export interface FormTrackerConfig {
   onFieldEvent: (event: FormFieldEvent) => void;
   /** Time threshold for hesitation detection in ms (default: 10000) */
   hesitationThresholdMs?: number;
+  /** Document to attach focus listeners to (default: document) */
+  document?: Document;
 }
 
+/** Tags whose focus and blur are tracked as form fields */
+const FORM_FIELD_TAGS = new Set(['INPUT', 'TEXTAREA', 'SELECT']);
+
 interface FieldState {
   focusTime: number | null;
   totalTime: number;
@@ -63,21 +70,68 @@ export class FormTracker {
   private config: Required<FormTrackerConfig>;
   private fieldStates: Map<string, FieldState> = new Map();
   private totalFormTime = 0;
+  private enabled = false;
+  private focusHandler: ((event: FocusEvent) => void) | null = null;
+  private blurHandler: ((event: FocusEvent) => void) | null = null;
 
   constructor(config: FormTrackerConfig) {
     this.config = {
       onFormEvent: config.onFormEvent,
       onFieldEvent: config.onFieldEvent,
       hesitationThresholdMs: config.hesitationThresholdMs ?? 10000,
+      document: config.document ?? (typeof document !== 'undefined' ? document : null as unknown as Document),
     };
   }
 
+  /**
+   * Enables automatic field tracking via focusin/focusout listeners
+   */
+  enable(): void {
+    if (this.enabled || !this.config.document) return;
+
+    this.focusHandler = (event: FocusEvent) => {
+      const target = event.target;
+      if (target instanceof Element && FORM_FIELD_TAGS.has(target.tagName)) {
+        this.recordFieldFocus(target);
+      }
+    };
+    this.blurHandler = (event: FocusEvent) => {
+      const target = event.target;
+      if (target instanceof Element && FORM_FIELD_TAGS.has(target.tagName)) {
+        this.recordFieldBlur(target);
+      }
+    };
+
+    this.config.document.addEventListener('focusin', this.focusHandler, { capture: true });
+    this.config.document.addEventListener('focusout', this.blurHandler, { capture: true });
+    this.enabled = true;
+  }
+
+  /**
+   * Disables automatic field tracking
+   */
+  disable(): void {
+    if (!this.enabled || !this.config.document) return;
+
+    if (this.focusHandler) {
+      this.config.document.removeEventListener('focusin', this.focusHandler, { capture: true });
+      this.focusHandler = null;
+    }
+    if (this.blurHandler) {
+      this.config.document.removeEventListener('focusout', this.blurHandler, { capture: true });
+      this.blurHandler = null;
+    }
+    this.enabled = false;
+  }
+
   /**
    * Records when a field receives focus
    */
   recordFieldFocus(element: Element): void {
-    const fieldName = this.getFieldName(element);
-    const state = this.fieldStates.get(fieldName) || {
+    if (isIgnoredElement(element)) return;
+
+    const fieldKey = this.getFieldKey(element);
+    const state = this.fieldStates.get(fieldKey) || {
       focusTime: null,
       totalTime: 0,
       interactionCount: 0,
@@ -85,15 +139,16 @@ export class FormTracker {
 
     state.focusTime = Date.now();
     state.interactionCount++;
-    this.fieldStates.set(fieldName, state);
+    this.fieldStates.set(fieldKey, state);
   }
 
   /**
    * Records when a field loses focus
    */
   recordFieldBlur(element: Element): void {
-    const fieldName = this.getFieldName(element);
-    const state = this.fieldStates.get(fieldName);
+    if (isIgnoredElement(element)) return;
+
+    const state = this.fieldStates.get(this.getFieldKey(element));
 
     if (!state || state.focusTime === null) {
       return;
@@ -112,7 +167,7 @@ export class FormTracker {
     );
 
     const event: FormFieldEvent = {
-      fieldName,
+      fieldName: this.getFieldName(element),
       fieldType: this.getFieldType(element),
       timeSpentMs,
       hesitation,
@@ -169,9 +224,9 @@ export class FormTracker {
   }
 
   /**
-   * Gets the field name from an element
+   * Gets the key field state is tracked under
    */
-  private getFieldName(element: Element): string {
+  private getFieldKey(element: Element): string {
     return (
       element.getAttribute('name') ||
       element.getAttribute('id') ||
@@ -179,6 +234,13 @@ export class FormTracker {
     );
   }
 
+  /**
+   * Gets the reported field name, honoring data-sr-name and data-sr-mask
+   */
+  private getFieldName(element: Element): string {
+    return getPrivacyName(element) ?? this.getFieldKey(element);
+  }
+
   /**
    * Gets the field type from an element
    */
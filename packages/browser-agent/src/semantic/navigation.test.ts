@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { NavigationTracker, type NavigationEvent } from './navigation';
+import { getRoute, setCurrentRoute } from '../routes';
 
 describe('NavigationTracker', () => {
   let tracker: NavigationTracker;
@@ -173,6 +174,68 @@ describe('NavigationTracker', () => {
 
       expect(events[0].pageTitle).toBe('New Page Title');
     });
+
+    it('should include route templates', () => {
+      mockWindow.location.href = 'http://localhost/products/123';
+      tracker.enable();
+      tracker.recordNavigation('http://localhost/orders/b7f0c1e2-3a4b-4c5d-8e9f-0123456789ab', 'Order');
+
+      expect(events[0].toRoute).toBe('/products/:id');
+      expect(events[1].fromRoute).toBe('/products/:id');
+      expect(events[1].toRoute).toBe('/orders/:uuid');
+    });
+  });
+
+  describe('route info', () => {
+    afterEach(() => {
+      setCurrentRoute(null);
+    });
+
+    it('should use the route template and name from the router', () => {
+      tracker.enable();
+      tracker.recordNavigation('http://localhost/orders/42', 'Order', {
+        route: '/orders/:orderId',
+        name: 'order-detail',
+      });
+      tracker.recordNavigation('http://localhost/cart', 'Cart');
+
+      expect(events[1]).toMatchObject({ toRoute: '/orders/:orderId', routeName: 'order-detail' });
+      expect(events[2].fromRoute).toBe('/orders/:orderId');
+    });
+
+    it('should report the template as the page route', () => {
+      tracker.enable();
+      tracker.recordNavigation('http://localhost/orders/42', 'Order', { route: '/orders/:orderId' });
+
+      expect(getRoute('http://localhost/orders/42?tab=items')).toBe('/orders/:orderId');
+    });
+
+    it('should adopt the template of the current page without an event', () => {
+      mockWindow.location.href = 'http://localhost/orders/42';
+      tracker.enable();
+      tracker.recordNavigation('http://localhost/orders/42', 'Order', { route: '/orders/:orderId' });
+      tracker.recordNavigation('http://localhost/cart', 'Cart');
+
+      expect(events).toHaveLength(2);
+      expect(events[1].fromRoute).toBe('/orders/:orderId');
+    });
+
+    it('should measure the transition from navigation start', () => {
+      tracker.enable();
+      const startedAt = Date.now();
+      vi.advanceTimersByTime(250);
+
+      tracker.recordNavigation('http://localhost/orders/42', 'Order', { startedAt });
+
+      expect(events[1].transitionMs).toBe(250);
+    });
+
+    it('should leave the transition out without a start', () => {
+      tracker.enable();
+      tracker.recordNavigation('http://localhost/orders/42', 'Order');
+
+      expect(events[1].transitionMs).toBeUndefined();
+    });
   });
 
   describe('getCurrentPageInfo', () => {
@@ -187,3 +250,175 @@ describe('NavigationTracker', () => {
     });
   });
 });
+
+describe('NavigationTracker automatic route changes', () => {
+  let tracker: NavigationTracker;
+  let events: NavigationEvent[];
+  const originalPushState = window.history.pushState;
+
+  function url(path: string): string {
+    return new URL(path, window.location.origin).href;
+  }
+
+  function track(config: { patchHistory?: boolean; titleSettleMs?: number } = {}): void {
+    tracker = new NavigationTracker({ window, onNavigation: (event) => events.push(event), ...config });
+    tracker.enable();
+    events = [];
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.history.replaceState(null, '', '/home');
+    document.title = 'Home';
+    events = [];
+  });
+
+  afterEach(() => {
+    tracker.disable();
+    window.history.replaceState(null, '', '/');
+    vi.useRealTimers();
+  });
+
+  describe('history patching', () => {
+    it('should not patch history unless asked to', () => {
+      track();
+
+      window.history.pushState(null, '', '/cart');
+      vi.advanceTimersByTime(1000);
+
+      expect(window.history.pushState).toBe(originalPushState);
+      expect(events).toHaveLength(0);
+    });
+
+    it('should record pushState once the title has settled', () => {
+      track({ patchHistory: true });
+
+      window.history.pushState(null, '', '/cart');
+      document.title = 'Cart';
+      expect(events).toHaveLength(0);
+
+      vi.advanceTimersByTime(100);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: 'route_change',
+        trigger: 'push_state',
+        fromUrl: url('/home'),
+        toUrl: url('/cart'),
+        pageTitle: 'Cart',
+      });
+    });
+
+    it('should wait while the title keeps changing', async () => {
+      track({ patchHistory: true });
+
+      window.history.pushState(null, '', '/cart');
+      await vi.advanceTimersByTimeAsync(80);
+      document.title = 'Loading…';
+      await vi.advanceTimersByTimeAsync(80);
+      document.title = 'Cart';
+      await vi.advanceTimersByTimeAsync(80);
+      expect(events).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(20);
+      expect(events[0].pageTitle).toBe('Cart');
+    });
+
+    it('should skip transitions to the current URL', () => {
+      track({ patchHistory: true });
+
+      window.history.replaceState({ scroll: 120 }, '', '/home');
+      window.history.pushState(null, '', '/home');
+      vi.advanceTimersByTime(1000);
+
+      expect(events).toHaveLength(0);
+    });
+
+    it('should report a redirect as one route change', () => {
+      track({ patchHistory: true });
+
+      window.history.pushState(null, '', '/account');
+      window.history.replaceState(null, '', '/login');
+      vi.advanceTimersByTime(100);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ trigger: 'replace_state', toUrl: url('/login') });
+    });
+
+    it('should drop a round trip back to the current URL', () => {
+      track({ patchHistory: true });
+
+      window.history.pushState(null, '', '/cart');
+      window.history.replaceState(null, '', '/home');
+      vi.advanceTimersByTime(1000);
+
+      expect(events).toHaveLength(0);
+    });
+
+    it('should complete a pending change from recordNavigation', () => {
+      track({ patchHistory: true });
+
+      window.history.pushState(null, '', '/cart');
+      tracker.recordNavigation(url('/cart'), 'Your cart');
+      vi.advanceTimersByTime(1000);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ trigger: 'push_state', pageTitle: 'Your cart' });
+    });
+
+    it('should time a completed change from the history update', () => {
+      track({ patchHistory: true });
+
+      window.history.pushState(null, '', '/cart');
+      vi.advanceTimersByTime(40);
+      tracker.recordNavigation(url('/cart'), 'Your cart', { route: '/cart' });
+      setCurrentRoute(null);
+
+      expect(events[0].transitionMs).toBe(40);
+    });
+
+    it('should emit a pending change before the unload', () => {
+      track({ patchHistory: true });
+
+      window.history.pushState(null, '', '/cart');
+      tracker.recordUnload();
+
+      expect(events.map((event) => event.type)).toEqual(['route_change', 'page_unload']);
+      expect(events[1].toUrl).toBe(url('/cart'));
+    });
+
+    it('should restore history on disable', () => {
+      track({ patchHistory: true });
+      expect(window.history.pushState).not.toBe(originalPushState);
+
+      tracker.disable();
+
+      expect(window.history.pushState).toBe(originalPushState);
+    });
+  });
+
+  describe('hash and back/forward navigation', () => {
+    it('should record hash changes', () => {
+      track();
+
+      window.history.replaceState(null, '', '/home#/settings');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+      vi.advanceTimersByTime(100);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ trigger: 'hashchange', toUrl: url('/home#/settings') });
+    });
+
+    it('should record back/forward as popstate', () => {
+      track();
+
+      window.history.replaceState(null, '', '/orders');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+      vi.advanceTimersByTime(100);
+
+      expect(events[0]).toMatchObject({ trigger: 'popstate', toUrl: url('/orders') });
+    });
+  });
+});
+
@@ -3,18 +3,54 @@
  *
  * Tracks page views and route changes for SPAs.
  * Captures page loads, SPA navigation (pushState/replaceState), and page unloads.
+ *
+ * Back/forward (popstate) and hash navigation are always tracked. With
+ * patchHistory, history.pushState and replaceState are wrapped so route
+ * changes are recorded without calling recordNavigation(). Automatic route
+ * changes wait for the document title to settle, since routers usually
+ * update it after rendering, and transitions to the current URL are skipped.
+ *
+ * Router adapters (see ../routers) pass the route template and name the
+ * router matched, and when the navigation started, to recordNavigation().
  */
 
+import { getRoute, setCurrentRoute } from '../routes';
+
 export type NavigationType = 'page_load' | 'route_change' | 'page_unload';
 
+/** What caused a route change; absent for recordNavigation() calls */
+export type NavigationTrigger = 'push_state' | 'replace_state' | 'popstate' | 'hashchange';
+
 export interface NavigationEvent {
   type: NavigationType;
   timestamp: number;
   toUrl: string;
+  /** Route template of toUrl (e.g. /products/:id) */
+  toRoute: string;
   pageTitle: string;
   fromUrl?: string;
+  /** Route template of fromUrl */
+  fromRoute?: string;
   referrer?: string;
   durationMs?: number;
+  trigger?: NavigationTrigger;
+  /** Route name from the router, when an adapter reported it */
+  routeName?: string;
+  /** Time from navigation start until the new route rendered */
+  transitionMs?: number;
+}
+
+/** What the router knows about a route change */
+export interface RouteInfo {
+  /** Route template, e.g. /orders/:orderId (default: templated from the URL) */
+  route?: string;
+  /** Route name or id */
+  name?: string;
+  /**
+   * When the navigation started (Date.now() ms). Defaults to the history
+   * update when patchHistory recorded one for the same URL.
+   */
+  startedAt?: number;
 }
 
 export interface NavigationTrackerConfig {
@@ -22,6 +58,25 @@ export interface NavigationTrackerConfig {
   onNavigation: (event: NavigationEvent) => void;
   /** Window object (injectable for testing) */
   window?: Window;
+  /** Wrap history.pushState and replaceState to record route changes (default: false) */
+  patchHistory?: boolean;
+  /**
+   * How long an automatic route change waits for the title to stop
+   * changing, in ms (default: 100; waits at most 1 second)
+   */
+  titleSettleMs?: number;
+}
+
+/** Upper bound on waiting for the title, however often it changes */
+const MAX_TITLE_WAIT_MS = 1000;
+const DEFAULT_TITLE_SETTLE_MS = 100;
+
+/** A route change waiting for the title to settle */
+interface PendingNavigation {
+  toUrl: string;
+  trigger: NavigationTrigger;
+  startedAt: number;
+  timer: ReturnType<typeof setTimeout>;
 }
 
 export class NavigationTracker {
@@ -30,15 +85,21 @@ export class NavigationTracker {
   private enabled = false;
   private currentUrl: string;
   private currentTitle: string;
+  private currentRoute: string;
   private pageStartTime: number;
   private popstateHandler: ((event: PopStateEvent) => void) | null = null;
   private beforeunloadHandler: ((event: BeforeUnloadEvent) => void) | null = null;
+  private hashchangeHandler: (() => void) | null = null;
+  private restoreHistory: Array<() => void> = [];
+  private titleObserver: MutationObserver | null = null;
+  private pending: PendingNavigation | null = null;
 
   constructor(config: NavigationTrackerConfig) {
     this.config = config;
     this.win = config.window || (typeof window !== 'undefined' ? window : null!);
     this.currentUrl = '';
     this.currentTitle = '';
+    this.currentRoute = '';
     this.pageStartTime = 0;
   }
 
@@ -52,6 +113,7 @@ export class NavigationTracker {
     // Initialize current page state
     this.currentUrl = this.win.location.href;
     this.currentTitle = this.win.document.title;
+    this.currentRoute = getRoute(this.currentUrl);
     this.pageStartTime = Date.now();
 
     // Emit initial page load event
@@ -59,6 +121,7 @@ export class NavigationTracker {
       type: 'page_load',
       timestamp: Date.now(),
       toUrl: this.currentUrl,
+      toRoute: this.currentRoute,
       pageTitle: this.currentTitle,
       referrer: this.win.document.referrer || undefined,
     });
@@ -66,9 +129,15 @@ export class NavigationTracker {
     // Set up event listeners
     this.popstateHandler = this.handlePopstate.bind(this);
     this.beforeunloadHandler = this.handleBeforeunload.bind(this);
+    this.hashchangeHandler = () => this.handleUrlChange('hashchange');
 
     this.win.addEventListener('popstate', this.popstateHandler);
     this.win.addEventListener('beforeunload', this.beforeunloadHandler);
+    this.win.addEventListener('hashchange', this.hashchangeHandler);
+
+    if (this.config.patchHistory) {
+      this.patchHistory();
+    }
   }
 
   /**
@@ -76,8 +145,17 @@ export class NavigationTracker {
    */
   disable(): void {
     if (!this.enabled) return;
+    this.flushPending();
     this.enabled = false;
 
+    this.restoreHistory.forEach((restore) => restore());
+    this.restoreHistory = [];
+
+    if (this.hashchangeHandler) {
+      this.win.removeEventListener('hashchange', this.hashchangeHandler);
+      this.hashchangeHandler = null;
+    }
+
     if (this.popstateHandler) {
       this.win.removeEventListener('popstate', this.popstateHandler);
       this.popstateHandler = null;
@@ -90,26 +168,68 @@ export class NavigationTracker {
   }
 
   /**
-   * Record a navigation event (call this after pushState/replaceState)
+   * Record a navigation event (call this after pushState/replaceState
+   * unless patchHistory is on). Completes a pending automatic route change
+   * to the same URL with the given title.
+   *
+   * @param routeInfo - Route template, name and start time from the router
    */
-  recordNavigation(toUrl: string, pageTitle: string): void {
+  recordNavigation(toUrl: string, pageTitle: string, routeInfo: RouteInfo = {}): void {
     if (!this.enabled) return;
 
+    const pending = this.pending;
+    if (pending?.toUrl === toUrl) {
+      this.clearPending();
+      this.emitRouteChange(toUrl, pageTitle, pending.trigger, {
+        ...routeInfo,
+        startedAt: routeInfo.startedAt ?? pending.startedAt,
+      });
+      return;
+    }
+    this.flushPending();
+    if (toUrl === this.currentUrl) {
+      // e.g. the router resolving the landing page: keep its template
+      if (routeInfo.route) {
+        this.currentRoute = routeInfo.route;
+        setCurrentRoute({ url: toUrl, route: routeInfo.route });
+      }
+      return;
+    }
+
+    this.emitRouteChange(toUrl, pageTitle, undefined, routeInfo);
+  }
+
+  private emitRouteChange(
+    toUrl: string,
+    pageTitle: string,
+    trigger?: NavigationTrigger,
+    routeInfo: RouteInfo = {}
+  ): void {
     const now = Date.now();
     const durationMs = now - this.pageStartTime;
+    const toRoute = routeInfo.route ?? getRoute(toUrl);
+
+    // Events from the new page report the router's template as page.route
+    setCurrentRoute(routeInfo.route ? { url: toUrl, route: routeInfo.route } : null);
 
     this.config.onNavigation({
       type: 'route_change',
       timestamp: now,
       fromUrl: this.currentUrl,
+      fromRoute: this.currentRoute,
       toUrl,
+      toRoute,
       pageTitle,
       durationMs,
+      trigger,
+      routeName: routeInfo.name,
+      transitionMs: routeInfo.startedAt !== undefined ? Math.max(0, now - routeInfo.startedAt) : undefined,
     });
 
     // Update state for next navigation
     this.currentUrl = toUrl;
     this.currentTitle = pageTitle;
+    this.currentRoute = toRoute;
     this.pageStartTime = now;
   }
 
@@ -118,6 +238,7 @@ export class NavigationTracker {
    */
   recordUnload(): void {
     if (!this.enabled) return;
+    this.flushPending();
 
     const now = Date.now();
     const durationMs = now - this.pageStartTime;
@@ -126,6 +247,7 @@ export class NavigationTracker {
       type: 'page_unload',
       timestamp: now,
       toUrl: this.currentUrl,
+      toRoute: this.currentRoute,
       pageTitle: this.currentTitle,
       durationMs,
     });
@@ -142,12 +264,115 @@ export class NavigationTracker {
   }
 
   private handlePopstate(_event: PopStateEvent): void {
-    // When popstate fires, the URL has already changed
+    // When popstate fires, the URL has already changed. Hash-only changes
+    // are left to the hashchange event that follows.
     const newUrl = this.win.location.href;
-    const newTitle = this.win.document.title;
+    if (stripHash(newUrl) === stripHash(this.pending?.toUrl ?? this.currentUrl)) return;
+
+    this.handleUrlChange('popstate');
+  }
+
+  /**
+   * Starts (or retargets) an automatic route change to the current URL
+   */
+  private handleUrlChange(trigger: NavigationTrigger): void {
+    if (!this.enabled) return;
 
-    if (newUrl !== this.currentUrl) {
-      this.recordNavigation(newUrl, newTitle);
+    const toUrl = this.win.location.href;
+    if (this.pending) {
+      // A redirect or a quick second navigation: report one change to
+      // the final URL, or none if it came back to where it started
+      if (toUrl === this.pending.toUrl) return;
+      this.pending.toUrl = toUrl;
+      this.pending.trigger = trigger;
+      if (toUrl === this.currentUrl) {
+        this.clearPending();
+      }
+      return;
+    }
+    if (toUrl === this.currentUrl) return;
+
+    this.pending = {
+      toUrl,
+      trigger,
+      startedAt: Date.now(),
+      timer: setTimeout(() => this.flushPending(), this.getTitleSettleMs()),
+    };
+    this.observeTitle();
+  }
+
+  /**
+   * Emits the pending route change with the current title
+   */
+  private flushPending(): void {
+    const pending = this.pending;
+    if (!pending) return;
+    this.clearPending();
+    this.emitRouteChange(pending.toUrl, this.win.document.title, pending.trigger);
+  }
+
+  private clearPending(): void {
+    if (this.pending) {
+      clearTimeout(this.pending.timer);
+      this.pending = null;
+    }
+    this.titleObserver?.disconnect();
+    this.titleObserver = null;
+  }
+
+  private getTitleSettleMs(): number {
+    return this.config.titleSettleMs ?? DEFAULT_TITLE_SETTLE_MS;
+  }
+
+  /**
+   * Restarts the pending timer whenever the title changes, up to
+   * MAX_TITLE_WAIT_MS after the navigation
+   */
+  private observeTitle(): void {
+    const Observer = (this.win as Window & { MutationObserver?: typeof MutationObserver }).MutationObserver;
+    const head = this.win.document.head;
+    if (!Observer || !head) return;
+
+    this.titleObserver = new Observer((mutations) => {
+      const pending = this.pending;
+      if (!pending) return;
+      if (!mutations.some(isTitleMutation)) return;
+
+      clearTimeout(pending.timer);
+      const remaining = pending.startedAt + MAX_TITLE_WAIT_MS - Date.now();
+      const delay = Math.max(0, Math.min(this.getTitleSettleMs(), remaining));
+      pending.timer = setTimeout(() => this.flushPending(), delay);
+    });
+    this.titleObserver.observe(head, { childList: true, subtree: true, characterData: true });
+  }
+
+  /**
+   * Wraps history.pushState and replaceState. A wrapper that something
+   * else has wrapped again is left in place (inert once disabled) rather
+   * than unwinding the other patch.
+   */
+  private patchHistory(): void {
+    const history = this.win.history;
+    const methods = [
+      ['pushState', 'push_state'],
+      ['replaceState', 'replace_state'],
+    ] as const;
+
+    for (const [method, trigger] of methods) {
+      const original = history[method];
+      if (typeof original !== 'function') continue;
+
+      const onChange = () => this.handleUrlChange(trigger);
+      const patched = function (this: History, ...args: Parameters<History['pushState']>): void {
+        original.apply(this, args);
+        onChange();
+      };
+      history[method] = patched;
+      this.restoreHistory.push(() => {
+        if (history[method] === patched) {
+          history[method] = original;
+        }
+      });
     }
   }
 
@@ -155,3 +380,17 @@ export class NavigationTracker {
     this.recordUnload();
   }
 }
+
+/** A change to <title> itself, its text, or a <title> being added */
+function isTitleMutation(mutation: MutationRecord): boolean {
+  return (
+    mutation.target.nodeName === 'TITLE' ||
+    mutation.target.parentNode?.nodeName === 'TITLE' ||
+    Array.from(mutation.addedNodes).some((node) => node.nodeName === 'TITLE')
+  );
+}
+
+function stripHash(url: string): string {
+  const index = url.indexOf('#');
+  return index === -1 ? url : url.slice(0, index);
+}
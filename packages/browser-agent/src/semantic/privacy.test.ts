@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../events', () => ({
+  emitSessionEvent: vi.fn(),
+  emitFrustrationEvent: vi.fn(),
+}));
+
+import { getPrivacyName, isIgnoredElement, isMaskedElement, MASKED_NAME } from './privacy';
+import { ClickInstrumentation, getDataAttributes, getSemanticName } from './clicks';
+import { FormTracker } from './forms';
+import { RageClickDetector } from '../frustration/rage-click';
+import { DeadClickDetector } from '../frustration/dead-click';
+import { emitSessionEvent, emitFrustrationEvent } from '../events';
+
+function render(html: string): void {
+  document.body.innerHTML = html;
+}
+
+function query(selector: string): HTMLElement {
+  return document.querySelector(selector) as HTMLElement;
+}
+
+describe('privacy markers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('isIgnoredElement', () => {
+    it('should match the element and its descendants', () => {
+      render('<div data-sr-ignore><button id="inner"><span id="label">Pay</span></button></div><button id="outer">Ok</button>');
+
+      expect(isIgnoredElement(query('#inner'))).toBe(true);
+      expect(isIgnoredElement(query('#label'))).toBe(true);
+      expect(isIgnoredElement(query('#outer'))).toBe(false);
+    });
+  });
+
+  describe('getPrivacyName', () => {
+    it('should return null without markers', () => {
+      render('<button id="b">Save</button>');
+
+      expect(getPrivacyName(query('#b'))).toBeNull();
+    });
+
+    it('should return the placeholder inside a masked block', () => {
+      render('<section data-sr-mask><button id="b">jane@example.com</button></section>');
+
+      expect(getPrivacyName(query('#b'))).toBe(MASKED_NAME);
+      expect(isMaskedElement(query('#b'))).toBe(true);
+    });
+
+    it('should use the nearest data-sr-name', () => {
+      render('<button data-sr-name="Open profile"><span id="s">Jane Doe</span></button>');
+
+      expect(getPrivacyName(query('#s'))).toBe('Open profile');
+    });
+
+    it('should let an explicit name inside a masked block win', () => {
+      render('<section data-sr-mask><button id="b" data-sr-name="Delete account">Delete jane</button></section>');
+
+      expect(getPrivacyName(query('#b'))).toBe('Delete account');
+      expect(isMaskedElement(query('#b'))).toBe(false);
+    });
+
+    it('should skip an empty data-sr-name inside a masked block', () => {
+      render('<section data-sr-mask><button id="b" data-sr-name="">Delete jane</button></section>');
+
+      expect(getPrivacyName(query('#b'))).toBe(MASKED_NAME);
+      expect(getSemanticName(query('#b'))).toBe(MASKED_NAME);
+    });
+  });
+
+  describe('getSemanticName', () => {
+    it('should not read text from masked elements', () => {
+      render('<div data-sr-mask><a id="a" aria-label="Jane Doe">Jane Doe</a></div>');
+
+      expect(getSemanticName(query('#a'))).toBe(MASKED_NAME);
+    });
+  });
+
+  describe('getDataAttributes', () => {
+    it('should leave out the markers', () => {
+      render('<button id="b" data-sr-name="Pay" data-sr-mask data-product-id="1">Pay</button>');
+
+      expect(getDataAttributes(query('#b'))).toEqual({ 'product-id': '1' });
+    });
+  });
+
+  describe('detectors', () => {
+    it('should not emit clicks inside ignored blocks', () => {
+      render('<div data-sr-ignore><button id="b">Secret</button></div>');
+      const clicks = new ClickInstrumentation({ document });
+      clicks.enable();
+
+      query('#b').click();
+      clicks.disable();
+
+      expect(emitSessionEvent).not.toHaveBeenCalled();
+    });
+
+    it('should emit masked names for clicks', () => {
+      render('<div data-sr-mask><button id="b">jane@example.com</button></div>');
+      const clicks = new ClickInstrumentation({ document });
+      clicks.enable();
+
+      query('#b').click();
+      clicks.disable();
+
+      expect(vi.mocked(emitSessionEvent).mock.calls[0][0].attributes['target.semantic_name']).toBe(MASKED_NAME);
+    });
+
+    it('should leave identifying target attributes out of masked clicks', () => {
+      render('<div data-sr-mask><button id="jane-doe" class="user-jane" data-user="jane@example.com">Jane</button></div>');
+      const clicks = new ClickInstrumentation({ document });
+      clicks.enable();
+
+      query('#jane-doe').click();
+      clicks.disable();
+
+      expect(vi.mocked(emitSessionEvent).mock.calls[0][0].attributes).toEqual({
+        'event.category': 'user.interaction',
+        'event.action': 'click',
+        'target.semantic_name': MASKED_NAME,
+        'target.element': 'button',
+      });
+    });
+
+    it('should leave the ID out of masked dead clicks', () => {
+      render('<div data-sr-mask><p id="jane-doe">Jane Doe</p></div>');
+      const detector = new DeadClickDetector({ document });
+
+      detector.recordClick(query('#jane-doe'));
+
+      expect(vi.mocked(emitFrustrationEvent).mock.calls[0][2]).not.toHaveProperty('target.id');
+    });
+
+    it('should emit masked names for rage clicks', () => {
+      render('<div data-sr-mask><button id="b">Jane Doe</button></div>');
+      const detector = new RageClickDetector({ document });
+
+      for (let i = 0; i < 3; i++) {
+        detector.recordClick(query('#b'));
+      }
+
+      expect(vi.mocked(emitFrustrationEvent).mock.calls[0][2]?.['target.semantic_name']).toBe(MASKED_NAME);
+    });
+
+    it('should not count rage clicks inside ignored blocks', () => {
+      render('<div data-sr-ignore><button id="b">Jane Doe</button></div>');
+      const onRageClick = vi.fn();
+      const detector = new RageClickDetector({ document, onRageClick });
+
+      for (let i = 0; i < 3; i++) {
+        detector.recordClick(query('#b'));
+      }
+
+      expect(onRageClick).not.toHaveBeenCalled();
+      expect(emitFrustrationEvent).not.toHaveBeenCalled();
+    });
+
+    it('should not report dead clicks inside ignored blocks', () => {
+      render('<div data-sr-ignore><p id="p">Jane Doe</p></div>');
+      const onDeadClick = vi.fn();
+      const detector = new DeadClickDetector({ document, onDeadClick });
+
+      detector.recordClick(query('#p'));
+
+      expect(onDeadClick).not.toHaveBeenCalled();
+    });
+
+    it('should use explicit names for dead clicks', () => {
+      render('<p id="p" data-sr-name="Order summary">Order for Jane Doe</p>');
+      const detector = new DeadClickDetector({ document });
+
+      detector.recordClick(query('#p'));
+
+      expect(vi.mocked(emitFrustrationEvent).mock.calls[0][2]?.['target.semantic_name']).toBe('Order summary');
+    });
+
+    it('should not track form fields inside ignored blocks', () => {
+      render('<form data-sr-ignore><input id="i" name="ssn"></form>');
+      const onFieldEvent = vi.fn();
+      const tracker = new FormTracker({ document, onFormEvent: vi.fn(), onFieldEvent });
+
+      tracker.recordFieldFocus(query('#i'));
+      tracker.recordFieldBlur(query('#i'));
+
+      expect(onFieldEvent).not.toHaveBeenCalled();
+    });
+
+    it('should report masked and explicit names for form fields', () => {
+      render(
+        '<form><div data-sr-mask><input id="a" name="jane_doe_notes"><input id="b" name="jane_doe_phone"></div>' +
+          '<input id="c" name="ssn_4455" data-sr-name="Tax ID"></form>'
+      );
+      const onFieldEvent = vi.fn();
+      const tracker = new FormTracker({ document, onFormEvent: vi.fn(), onFieldEvent });
+
+      for (const id of ['#a', '#b', '#c']) {
+        tracker.recordFieldFocus(query(id));
+        tracker.recordFieldBlur(query(id));
+      }
+
+      expect(onFieldEvent.mock.calls.map(([event]) => event.fieldName)).toEqual([MASKED_NAME, MASKED_NAME, 'Tax ID']);
+      expect(onFieldEvent.mock.calls.map(([event]) => event.interactionCount)).toEqual([1, 1, 1]);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Element-level privacy markers
+ *
+ * Declarative attributes checked up the ancestor chain by every detector:
+ * - data-sr-ignore: nothing is captured for the element or its descendants
+ * - data-sr-mask: the semantic name or field name is replaced with a
+ *   placeholder and identifying target attributes are left out
+ * - data-sr-name: explicit, safe semantic name (wins over an outer mask)
+ */
+
+export const IGNORE_ATTRIBUTE = 'data-sr-ignore';
+export const MASK_ATTRIBUTE = 'data-sr-mask';
+export const NAME_ATTRIBUTE = 'data-sr-name';
+
+/** Semantic name reported for masked elements */
+export const MASKED_NAME = '[masked]';
+
+/** Prefix of the marker attributes themselves, kept out of target.data.* */
+export const PRIVACY_ATTRIBUTE_PREFIX = 'data-sr-';
+
+/**
+ * Finds the element itself or its nearest ancestor carrying one of the
+ * attributes
+ */
+function findMarked(element: Element, attributes: string[]): Element | null {
+  let current: Element | null = element;
+  while (current) {
+    if (attributes.some((name) => current!.getAttribute(name) !== null)) {
+      return current;
+    }
+    current = current.parentElement ?? null;
+  }
+  return null;
+}
+
+/**
+ * Whether the element or an ancestor opts out of capture
+ */
+export function isIgnoredElement(element: Element): boolean {
+  return findMarked(element, [IGNORE_ATTRIBUTE]) !== null;
+}
+
+/**
+ * Resolves the privacy-safe name for an element from the nearest marker:
+ * the data-sr-name value, MASKED_NAME inside a masked block, or null when
+ * no marker applies and the name may be read from the element
+ */
+export function getPrivacyName(element: Element): string | null {
+  let current: Element | null = element;
+  while (current) {
+    // An empty data-sr-name is no name at all, so an outer mask still applies
+    const name = current.getAttribute(NAME_ATTRIBUTE)?.trim();
+    if (name) {
+      return name;
+    }
+    if (current.getAttribute(MASK_ATTRIBUTE) !== null) {
+      return MASKED_NAME;
+    }
+    current = current.parentElement ?? null;
+  }
+  return null;
+}
+
+/**
+ * Whether the element or an ancestor is masked (an explicit data-sr-name
+ * closer to the element lifts the mask)
+ */
+export function isMaskedElement(element: Element): boolean {
+  return getPrivacyName(element) === MASKED_NAME;
+}
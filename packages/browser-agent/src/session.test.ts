@@ -0,0 +1,364 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; timestamp?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import {
+  configureSession,
+  getNextSequence,
+  getPreviousSessionId,
+  getSessionExpiry,
+  getSessionId,
+  getTabId,
+  getUser,
+  isCrossTabSession,
+  resetSession,
+  rotateSession,
+  setSessionUser,
+} from './session';
+import { emitSessionEvent } from './events';
+
+const MINUTE = 60 * 1000;
+
+function emitClick(): void {
+  emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+}
+
+describe('session lifetime', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T09:00:00Z'));
+    emitted.length = 0;
+    sessionStorage.clear();
+    resetSession();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    configureSession({});
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('getSessionExpiry', () => {
+    it('should be live within the idle timeout', () => {
+      vi.advanceTimersByTime(29 * MINUTE);
+
+      expect(getSessionExpiry()).toBeNull();
+    });
+
+    it('should expire after 30 minutes without an event', () => {
+      vi.advanceTimersByTime(30 * MINUTE);
+
+      expect(getSessionExpiry()).toBe('idle');
+    });
+
+    it('should measure idle time from the last event', () => {
+      vi.advanceTimersByTime(20 * MINUTE);
+      getNextSequence();
+      vi.advanceTimersByTime(20 * MINUTE);
+
+      expect(getSessionExpiry()).toBeNull();
+    });
+
+    it('should expire at the maximum duration despite activity', () => {
+      configureSession({ maxDurationMs: 60 * MINUTE });
+
+      for (let i = 0; i < 6; i++) {
+        vi.advanceTimersByTime(10 * MINUTE);
+        getNextSequence();
+      }
+
+      expect(getSessionExpiry()).toBe('max_duration');
+    });
+
+    it('should never expire when turned off', () => {
+      configureSession({ idleTimeoutMs: Infinity, maxDurationMs: Infinity });
+      vi.advanceTimersByTime(48 * 60 * MINUTE);
+
+      expect(getSessionExpiry()).toBeNull();
+    });
+  });
+
+  describe('rotateSession', () => {
+    it('should start a new session linked to the old one', () => {
+      const oldId = getSessionId();
+
+      expect(rotateSession()).toBe(oldId);
+      expect(getSessionId()).not.toBe(oldId);
+      expect(getPreviousSessionId()).toBe(oldId);
+    });
+
+    it('should keep the user identity', () => {
+      setSessionUser({ id: 'u1', name: 'Jane' });
+
+      rotateSession();
+
+      expect(getUser()).toEqual({ id: 'u1', email: undefined, name: 'Jane' });
+    });
+  });
+
+  describe('event emission', () => {
+    it('should keep the session while events keep coming', () => {
+      emitClick();
+      vi.advanceTimersByTime(10 * MINUTE);
+      emitClick();
+
+      expect(emitted.map((record) => record.body)).toEqual(['user.click', 'user.click']);
+    });
+
+    it('should emit session.end and session.start when the session expires', () => {
+      emitClick();
+      const oldId = getSessionId();
+      const lastActivity = Date.now();
+      vi.advanceTimersByTime(45 * MINUTE);
+
+      emitClick();
+
+      expect(emitted.map((record) => record.body)).toEqual([
+        'user.click',
+        'session.end',
+        'session.start',
+        'user.click',
+      ]);
+
+      const [, end, start, click] = emitted;
+      expect(end.attributes?.['session.id']).toBe(oldId);
+      expect(end.attributes?.['session.end_reason']).toBe('idle');
+      expect(end.timestamp).toBe(lastActivity);
+      expect(start.attributes?.['session.id']).not.toBe(oldId);
+      expect(start.attributes?.['session.previous_id']).toBe(oldId);
+      expect(start.attributes?.['session.sequence']).toBe(0);
+      expect(click.attributes?.['session.id']).toBe(start.attributes?.['session.id']);
+    });
+
+    it('should report the max duration as the end reason', () => {
+      configureSession({ maxDurationMs: 30 * MINUTE });
+      emitClick();
+
+      for (let i = 0; i < 4; i++) {
+        vi.advanceTimersByTime(10 * MINUTE);
+        emitClick();
+      }
+
+      const end = emitted.find((record) => record.body === 'session.end');
+      expect(end?.attributes?.['session.end_reason']).toBe('max_duration');
+    });
+  });
+});
+
+describe('cross-tab sessions', () => {
+  type SessionModule = typeof import('./session');
+
+  /** Web Locks stand-in shared by the simulated tabs */
+  function createLockManager() {
+    const held = new Set<string>();
+    const waiters = new Map<string, Array<() => void>>();
+    return {
+      async request(
+        name: string,
+        options: { ifAvailable?: boolean },
+        callback: (lock: { name: string } | null) => unknown
+      ): Promise<unknown> {
+        await Promise.resolve();
+        if (held.has(name)) {
+          if (options.ifAvailable) return callback(null);
+          await new Promise<void>((resolve) => waiters.set(name, [...(waiters.get(name) ?? []), resolve]));
+        }
+        held.add(name);
+        try {
+          return await callback({ name });
+        } finally {
+          held.delete(name);
+          waiters.get(name)?.shift()?.();
+        }
+      },
+    };
+  }
+
+  /** Lets pending lock requests settle */
+  function settle(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  /** Loads a fresh copy of the session module, as a new tab would */
+  async function openTab(): Promise<SessionModule> {
+    vi.resetModules();
+    sessionStorage.clear();
+    const tab = await import('./session');
+    tab.configureSession({ crossTab: true });
+    await settle();
+    return tab;
+  }
+
+  /** Makes every tab read the shared session as it is now */
+  function freezeStoredSession(): void {
+    const stored = localStorage.getItem('session_replay_session');
+    const getItem = Storage.prototype.getItem;
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(function (this: Storage, key: string) {
+      if (key === 'session_replay_session') return stored;
+      // The simulated tabs share one sessionStorage, so hide their own counters
+      if (key === 'session_replay_tab_sequence') return null;
+      return getItem.call(this, key);
+    });
+  }
+
+  beforeEach(() => {
+    emitted.length = 0;
+    localStorage.clear();
+    sessionStorage.clear();
+    Object.defineProperty(navigator, 'locks', { value: createLockManager(), configurable: true });
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    configureSession({});
+    resetSession();
+    delete (navigator as { locks?: unknown }).locks;
+    vi.restoreAllMocks();
+  });
+
+  it('should share the session between tabs', async () => {
+    const first = await openTab();
+    const second = await openTab();
+
+    expect(second.getSessionId()).toBe(first.getSessionId());
+  });
+
+  it('should never hand out the same sequence number twice', async () => {
+    const first = await openTab();
+    const second = await openTab();
+
+    const sequences = [
+      first.getNextSequence(),
+      second.getNextSequence(),
+      second.getNextSequence(),
+      first.getNextSequence(),
+      second.getNextSequence(),
+    ];
+
+    expect(sequences).toEqual([0, 1, 33, 64, 65]);
+  });
+
+  it('should give tabs allocating at the same time different sequence numbers', async () => {
+    const first = await openTab();
+    const second = await openTab();
+    first.getSessionId();
+    // Both tabs read the shared counter before either writes it
+    freezeStoredSession();
+
+    const sequences = [
+      first.getNextSequence(),
+      second.getNextSequence(),
+      first.getNextSequence(),
+      second.getNextSequence(),
+    ];
+
+    expect(sequences).toEqual([0, 1, 32, 33]);
+  });
+
+  it('should start above the numbers the previous holder of the slot took', async () => {
+    const first = await openTab();
+    first.getNextSequence();
+    first.getNextSequence();
+    // Another tab wrote back a stale counter, then the first tab closed
+    const stored = JSON.parse(localStorage.getItem('session_replay_session')!);
+    localStorage.setItem('session_replay_session', JSON.stringify({ ...stored, sequence: 0 }));
+    first.configureSession({});
+    await settle();
+
+    const next = await openTab();
+
+    expect(next.getNextSequence()).toBe(64);
+  });
+
+  it('should keep a reloaded tab above its own sequence numbers', async () => {
+    const first = await openTab();
+    first.getNextSequence();
+    first.getNextSequence();
+    // Another tab wrote back a stale counter
+    const stored = JSON.parse(localStorage.getItem('session_replay_session')!);
+    localStorage.setItem('session_replay_session', JSON.stringify({ ...stored, sequence: 0 }));
+
+    vi.resetModules();
+    const reloaded = await import('./session');
+    reloaded.configureSession({ crossTab: true });
+    await settle();
+
+    expect(reloaded.getNextSequence()).toBe(33);
+  });
+
+  it('should hold events until the tab holds a sequence slot', async () => {
+    configureSession({ crossTab: true });
+
+    emitClick();
+    expect(emitted).toHaveLength(0);
+    await settle();
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].attributes?.['session.sequence']).toBe(0);
+  });
+
+  it('should pick up a session rotated in another tab', async () => {
+    const first = await openTab();
+    const second = await openTab();
+    const oldId = first.getSessionId();
+
+    second.rotateSession();
+
+    expect(first.getSessionId()).toBe(second.getSessionId());
+    expect(first.getPreviousSessionId()).toBe(oldId);
+  });
+
+  it('should rotate tabs that expire the session at the same time to the same session', async () => {
+    const first = await openTab();
+    const second = await openTab();
+    const oldId = first.getSessionId();
+    second.getSessionId();
+    freezeStoredSession();
+
+    first.rotateSession();
+    second.rotateSession();
+    vi.restoreAllMocks();
+
+    expect(first.getSessionId()).not.toBe(oldId);
+    expect(second.getSessionId()).toBe(first.getSessionId());
+    expect(second.getPreviousSessionId()).toBe(oldId);
+  });
+
+  it('should give each tab its own ID', async () => {
+    const first = await openTab();
+    const firstTabId = first.getTabId();
+    const second = await openTab();
+
+    expect(second.getTabId()).not.toBe(firstTabId);
+  });
+
+  it('should keep the session in sessionStorage when off', () => {
+    getSessionId();
+
+    expect(localStorage.getItem('session_replay_session')).toBeNull();
+  });
+
+  it('should keep each tab to its own session without Web Locks', () => {
+    delete (navigator as { locks?: unknown }).locks;
+
+    configureSession({ crossTab: true });
+
+    expect(isCrossTabSession()).toBe(false);
+  });
+
+  it('should add tab.id to events', async () => {
+    configureSession({ crossTab: true });
+    await settle();
+
+    emitClick();
+
+    expect(emitted[0].attributes?.['tab.id']).toBe(getTabId());
+  });
+});
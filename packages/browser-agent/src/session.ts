@@ -1,25 +1,264 @@
 /**
  * Session management for browser agent
- * Handles session ID generation and persistence via sessionStorage
+ * Handles session ID generation and persistence via sessionStorage, and
+ * expiry after inactivity or a maximum duration.
+ *
+ * In cross-tab mode the session lives in localStorage instead, so every tab
+ * of the origin shares it. The stored copy is re-read before each use and
+ * every allocated sequence number is broadcast to the other tabs, so the
+ * counter only moves forward no matter which tab emits. Reading and
+ * writing localStorage isn't atomic, so each tab holds a Web Lock on one of
+ * MAX_TABS slots and only takes numbers congruent to its slot: two tabs
+ * allocating at the same time still get different numbers. A tab starts
+ * above the numbers the previous holder of its slot took, and above its
+ * own numbers from before a reload.
  */
 
 const SESSION_STORAGE_KEY = 'session_replay_session';
+const TAB_STORAGE_KEY = 'session_replay_tab';
+const TAB_SEQUENCE_STORAGE_KEY = 'session_replay_tab_sequence';
+const SLOT_PREFIX = 'session_replay_slot_';
+const CHANNEL_NAME = 'session_replay';
+
+/** Tabs that can number events in a shared session at once */
+const MAX_TABS = 32;
+/** Events kept while a tab waits for its sequence slot */
+const MAX_PENDING_EVENTS = 100;
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_DURATION_MS = 4 * 60 * 60 * 1000;
+
+/**
+ * Session lifetime configuration
+ */
+export interface SessionConfig {
+  /** End the session after this long without an emitted event (default: 30 minutes) */
+  idleTimeoutMs?: number;
+  /** End the session this long after it started, regardless of activity (default: 4 hours) */
+  maxDurationMs?: number;
+  /**
+   * Share the session across tabs via localStorage and BroadcastChannel
+   * (default: false). Needs the Web Locks API; without it each tab keeps
+   * its own session.
+   */
+  crossTab?: boolean;
+}
+
+/**
+ * Why a session ended
+ */
+export type SessionEndReason = 'idle' | 'max_duration';
 
 interface SessionData {
   id: string;
   sequence: number;
   startedAt: number;
+  lastActivityAt?: number;
+  previousId?: string;
+  /** ID the session gets when it's rotated, so racing tabs agree on it */
+  nextId?: string;
   userId?: string;
   userEmail?: string;
   userName?: string;
+  flagged?: boolean;
+  globalAttributes?: Record<string, string | number | boolean>;
 }
 
 let currentSession: SessionData | null = null;
+let persistenceEnabled = true;
+let sessionConfig: Required<SessionConfig> = {
+  idleTimeoutMs: DEFAULT_IDLE_TIMEOUT_MS,
+  maxDurationMs: DEFAULT_MAX_DURATION_MS,
+  crossTab: false,
+};
+let channel: BroadcastChannel | null = null;
+let tabId: string | null = null;
+let sequenceSlot: number | null = null;
+let releaseSlot: (() => void) | null = null;
+let pendingEvents: Array<() => void> = [];
+
+/**
+ * Next sequence number a tab or slot may take in a session, whatever
+ * other tabs wrote to the shared counter
+ */
+interface TabSequence {
+  id: string;
+  sequence: number;
+}
+
+/**
+ * Message sent to other tabs when a sequence number is allocated
+ */
+interface SequenceMessage {
+  type: 'sequence';
+  id: string;
+  sequence: number;
+}
+
+/**
+ * Sets the idle timeout, maximum duration and cross-tab mode. Use Infinity
+ * to turn either limit off. Switching cross-tab mode reloads the session
+ * from the other storage on next use.
+ */
+export function configureSession(config: SessionConfig): void {
+  const crossTab = (config.crossTab ?? false) && supportsWebLocks();
+  if (crossTab !== sessionConfig.crossTab) {
+    currentSession = null;
+  }
+
+  sessionConfig = {
+    idleTimeoutMs: config.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS,
+    maxDurationMs: config.maxDurationMs ?? DEFAULT_MAX_DURATION_MS,
+    crossTab,
+  };
+
+  if (crossTab) {
+    openChannel();
+    claimSequenceSlot();
+  } else {
+    closeChannel();
+    releaseSequenceSlot();
+  }
+}
+
+function supportsWebLocks(): boolean {
+  return typeof navigator !== 'undefined' && 'locks' in navigator;
+}
+
+/**
+ * Claims the first free sequence slot and holds its lock until the tab
+ * closes or cross-tab mode is turned off. When every slot is taken, waits
+ * for a random one.
+ */
+function claimSequenceSlot(): void {
+  if (releaseSlot) return;
+
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  releaseSlot = release;
+
+  const request = (slot: number): void => {
+    const waiting = slot >= MAX_TABS;
+    const index = waiting ? Math.floor(Math.random() * MAX_TABS) : slot;
+    void navigator.locks.request(SLOT_PREFIX + index, { ifAvailable: !waiting }, (lock) => {
+      // Cross-tab mode was turned off while the request was pending
+      if (releaseSlot !== release) return undefined;
+      if (!lock) {
+        request(slot + 1);
+        return undefined;
+      }
+      sequenceSlot = index;
+      flushPendingEvents();
+      return released;
+    });
+  };
+  request(0);
+}
+
+function releaseSequenceSlot(): void {
+  releaseSlot?.();
+  releaseSlot = null;
+  sequenceSlot = null;
+  flushPendingEvents();
+}
+
+/**
+ * Whether this tab can take sequence numbers. In cross-tab mode it can't
+ * until it holds a sequence slot.
+ */
+export function isSequenceReady(): boolean {
+  return !sessionConfig.crossTab || sequenceSlot !== null;
+}
+
+/**
+ * Runs the callback once this tab can take sequence numbers (right away
+ * if it already can). Only the latest MAX_PENDING_EVENTS callbacks are kept.
+ */
+export function onSequenceReady(callback: () => void): void {
+  if (isSequenceReady()) {
+    callback();
+    return;
+  }
+  pendingEvents.push(callback);
+  if (pendingEvents.length > MAX_PENDING_EVENTS) {
+    pendingEvents.splice(0, pendingEvents.length - MAX_PENDING_EVENTS);
+  }
+}
+
+function flushPendingEvents(): void {
+  if (!isSequenceReady()) return;
+  const pending = pendingEvents;
+  pendingEvents = [];
+  for (const callback of pending) {
+    callback();
+  }
+}
+
+/**
+ * Whether the session is shared across tabs
+ */
+export function isCrossTabSession(): boolean {
+  return sessionConfig.crossTab;
+}
+
+/**
+ * Listens for sequence numbers allocated by other tabs
+ */
+function openChannel(): void {
+  if (channel || typeof BroadcastChannel === 'undefined') return;
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<SequenceMessage>) => {
+    const message = event.data;
+    if (message?.type === 'sequence' && currentSession?.id === message.id) {
+      currentSession.sequence = Math.max(currentSession.sequence, message.sequence);
+    }
+  };
+}
+
+function closeChannel(): void {
+  channel?.close();
+  channel = null;
+}
+
+/**
+ * Storage holding the session: localStorage in cross-tab mode, otherwise
+ * sessionStorage. Null when unavailable or persistence is off.
+ */
+function getStorage(): Storage | null {
+  if (!persistenceEnabled) return null;
+  if (sessionConfig.crossTab) {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  }
+  return typeof sessionStorage !== 'undefined' ? sessionStorage : null;
+}
+
+/**
+ * Reads and validates the stored session
+ */
+function readStoredSession(): SessionData | null {
+  const storage = getStorage();
+  if (!storage) return null;
+
+  try {
+    const stored = storage.getItem(SESSION_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as SessionData;
+      // Validate the session data
+      if (parsed.id && typeof parsed.sequence === 'number') {
+        return parsed;
+      }
+    }
+  } catch {
+    // Ignore storage errors
+  }
+  return null;
+}
 
 /**
  * Generates a UUID v4
  */
-function generateUUID(): string {
+export function generateUUID(): string {
   // Use crypto.randomUUID if available (modern browsers)
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
     return crypto.randomUUID();
@@ -34,40 +273,32 @@ function generateUUID(): string {
 }
 
 /**
- * Loads session from sessionStorage or creates a new one
+ * Creates a new session, picking the ID it will rotate to up front
  */
-function loadOrCreateSession(): SessionData {
-  // Try to load from sessionStorage
-  if (typeof sessionStorage !== 'undefined') {
-    try {
-      const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored) as SessionData;
-        // Validate the session data
-        if (parsed.id && typeof parsed.sequence === 'number') {
-          return parsed;
-        }
-      }
-    } catch {
-      // Ignore storage errors
-    }
-  }
-
-  // Create new session
+function createSession(id = generateUUID()): SessionData {
   return {
-    id: generateUUID(),
+    id,
     sequence: 0,
     startedAt: Date.now(),
+    nextId: generateUUID(),
   };
 }
 
 /**
- * Persists session to sessionStorage
+ * Loads session from storage or creates a new one
+ */
+function loadOrCreateSession(): SessionData {
+  return readStoredSession() ?? createSession();
+}
+
+/**
+ * Persists session to storage
  */
 function persistSession(session: SessionData): void {
-  if (typeof sessionStorage !== 'undefined') {
+  const storage = getStorage();
+  if (storage) {
     try {
-      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+      storage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
     } catch {
       // Ignore storage errors (quota exceeded, private mode, etc.)
     }
@@ -75,12 +306,28 @@ function persistSession(session: SessionData): void {
 }
 
 /**
- * Gets or creates the current session
+ * Gets or creates the current session. In cross-tab mode, picks up
+ * changes other tabs made to the shared copy.
  */
 function getSession(): SessionData {
   if (!currentSession) {
     currentSession = loadOrCreateSession();
     persistSession(currentSession);
+  } else if (sessionConfig.crossTab) {
+    const stored = readStoredSession();
+    if (stored && stored.id !== currentSession.id) {
+      // Another tab rotated or reset the session
+      currentSession = stored;
+    } else if (stored) {
+      currentSession = {
+        ...stored,
+        sequence: Math.max(stored.sequence, currentSession.sequence),
+        lastActivityAt: Math.max(
+          stored.lastActivityAt ?? stored.startedAt,
+          currentSession.lastActivityAt ?? currentSession.startedAt
+        ),
+      };
+    }
   }
   return currentSession;
 }
@@ -101,16 +348,82 @@ export function getSessionStartTime(): number {
 
 /**
  * Returns the next sequence number and increments the counter
- * Sequence numbers are used to order events within a session
+ * Sequence numbers are used to order events within a session (across all
+ * tabs in cross-tab mode, once isSequenceReady() is true)
  */
 export function getNextSequence(): number {
   const session = getSession();
-  const seq = session.sequence;
-  session.sequence++;
+  let seq = session.sequence;
+  if (sessionConfig.crossTab && sequenceSlot !== null) {
+    const slotKey = SLOT_PREFIX + sequenceSlot;
+    for (const claimed of [
+      readClaimedSequence(sessionStorage, TAB_SEQUENCE_STORAGE_KEY),
+      readClaimedSequence(localStorage, slotKey),
+    ]) {
+      if (claimed?.id === session.id) {
+        seq = Math.max(seq, claimed.sequence);
+      }
+    }
+    // Take the first number from here on that belongs to this tab's slot
+    seq += (sequenceSlot - (seq % MAX_TABS) + MAX_TABS) % MAX_TABS;
+
+    const claimed: TabSequence = { id: session.id, sequence: seq + 1 };
+    writeClaimedSequence(sessionStorage, TAB_SEQUENCE_STORAGE_KEY, claimed);
+    writeClaimedSequence(localStorage, slotKey, claimed);
+  }
+  session.sequence = seq + 1;
+  session.lastActivityAt = Date.now();
   persistSession(session);
+
+  if (channel) {
+    const message: SequenceMessage = { type: 'sequence', id: session.id, sequence: session.sequence };
+    channel.postMessage(message);
+  }
   return seq;
 }
 
+function readClaimedSequence(storage: Storage, key: string): TabSequence | null {
+  if (!persistenceEnabled) return null;
+  try {
+    const stored = storage.getItem(key);
+    return stored ? (JSON.parse(stored) as TabSequence) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeClaimedSequence(storage: Storage, key: string, claimed: TabSequence): void {
+  if (!persistenceEnabled) return;
+  try {
+    storage.setItem(key, JSON.stringify(claimed));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Returns this tab's ID, stable across reloads of the tab
+ */
+export function getTabId(): string {
+  if (tabId) return tabId;
+
+  if (persistenceEnabled && typeof sessionStorage !== 'undefined') {
+    try {
+      tabId = sessionStorage.getItem(TAB_STORAGE_KEY);
+      if (!tabId) {
+        tabId = generateUUID();
+        sessionStorage.setItem(TAB_STORAGE_KEY, tabId);
+      }
+      return tabId;
+    } catch {
+      // Ignore storage errors
+    }
+  }
+
+  tabId = generateUUID();
+  return tabId;
+}
+
 /**
  * Returns the current sequence number without incrementing
  */
@@ -120,15 +433,105 @@ export function getCurrentSequence(): number {
 
 /**
  * Resets the session (creates a new session ID)
- * Call this to force a new session (e.g., on logout)
+ * Call this to force a new session (e.g., on logout). Global attributes
+ * carry over as they do on rotation; the user identity doesn't.
  */
 export function resetSession(): void {
+  const previous = getSession();
   currentSession = {
-    id: generateUUID(),
-    sequence: 0,
-    startedAt: Date.now(),
+    ...createSession(),
+    globalAttributes: previous.globalAttributes,
+  };
+  persistSession(currentSession);
+}
+
+/**
+ * Returns when the last event was emitted in this session
+ * (the start time if none has been)
+ */
+export function getSessionLastActivity(): number {
+  const session = getSession();
+  return session.lastActivityAt ?? session.startedAt;
+}
+
+/**
+ * Returns the ID of the session this one replaced after expiring, if any
+ */
+export function getPreviousSessionId(): string | undefined {
+  return getSession().previousId;
+}
+
+/**
+ * Checks whether the current session has expired
+ *
+ * @returns Why it expired, or null while it's still live
+ */
+export function getSessionExpiry(now = Date.now()): SessionEndReason | null {
+  const session = getSession();
+  if (now - session.startedAt >= sessionConfig.maxDurationMs) {
+    return 'max_duration';
+  }
+  if (now - (session.lastActivityAt ?? session.startedAt) >= sessionConfig.idleTimeoutMs) {
+    return 'idle';
+  }
+  return null;
+}
+
+/**
+ * Replaces the current session with a new one linked to it through
+ * previousId. The user identity and global attributes carry over. The new
+ * ID was picked when the old session started, so tabs that see the shared
+ * session expire at the same time rotate to the same session.
+ *
+ * @returns The ID of the session that was replaced
+ */
+export function rotateSession(): string {
+  const previous = getSession();
+  currentSession = {
+    ...createSession(previous.nextId),
+    previousId: previous.id,
+    userId: previous.userId,
+    userEmail: previous.userEmail,
+    userName: previous.userName,
+    globalAttributes: previous.globalAttributes,
   };
   persistSession(currentSession);
+  return previous.id;
+}
+
+/**
+ * Turns sessionStorage persistence on or off (used for consent). While off
+ * the session lives in memory only; turning it on writes the current one.
+ */
+export function setSessionPersistence(enabled: boolean): void {
+  persistenceEnabled = enabled;
+  if (enabled && currentSession) {
+    persistSession(currentSession);
+  }
+}
+
+/**
+ * Forgets the current session and removes it from sessionStorage.
+ * The next event starts a new session.
+ */
+export function purgeSession(): void {
+  currentSession = null;
+  tabId = null;
+  for (const storage of [
+    typeof sessionStorage !== 'undefined' ? sessionStorage : null,
+    typeof localStorage !== 'undefined' ? localStorage : null,
+  ]) {
+    try {
+      storage?.removeItem(SESSION_STORAGE_KEY);
+      storage?.removeItem(TAB_STORAGE_KEY);
+      storage?.removeItem(TAB_SEQUENCE_STORAGE_KEY);
+      for (let slot = 0; slot < MAX_TABS; slot++) {
+        storage?.removeItem(SLOT_PREFIX + slot);
+      }
+    } catch {
+      // Ignore storage errors
+    }
+  }
 }
 
 /**
@@ -138,6 +541,23 @@ export function getSessionDuration(): number {
   return Date.now() - getSession().startedAt;
 }
 
+/**
+ * Marks the current session as interesting (used by tail-based buffering).
+ * The flag lasts until the session is reset.
+ */
+export function setSessionFlagged(): void {
+  const session = getSession();
+  session.flagged = true;
+  persistSession(session);
+}
+
+/**
+ * Returns whether the current session has been flagged
+ */
+export function isSessionFlagged(): boolean {
+  return getSession().flagged === true;
+}
+
 /**
  * User identity information
  */
@@ -151,10 +571,10 @@ export interface UserIdentity {
 }
 
 /**
- * Sets the user identity for the current session.
- * Call this after user login to associate events with a user.
+ * Stores the user identity on the current session. Use setUser() from
+ * identity.ts, which also emits identity.alias.
  */
-export function setUser(user: UserIdentity): void {
+export function setSessionUser(user: UserIdentity): void {
   const session = getSession();
   session.userId = user.id;
   session.userEmail = user.email;
@@ -187,3 +607,19 @@ export function getUser(): UserIdentity | null {
     name: session.userName,
   };
 }
+
+/**
+ * Gets the global attributes stored with the session
+ */
+export function getSessionAttributes(): Record<string, string | number | boolean> {
+  return { ...getSession().globalAttributes };
+}
+
+/**
+ * Replaces the global attributes stored with the session
+ */
+export function setSessionAttributes(attributes: Record<string, string | number | boolean>): void {
+  const session = getSession();
+  session.globalAttributes = { ...attributes };
+  persistSession(session);
+}
@@ -1,3 +1,14 @@
+import type { AttributeValue } from '@opentelemetry/api';
+import type { EventCategory } from './events';
+import type { BufferingConfig } from './buffering';
+import type { OfflineQueueConfig } from './offline-queue';
+import type { RedactionConfig } from './redaction';
+import type { ConsentConfig } from './consent';
+import type { RouteConfig } from './routes';
+import type { SessionConfig } from './session';
+import type { VisitorConfig } from './visitor';
+import type { BudgetConfig } from './budget';
+
 /**
  * Configuration for the Session Replay browser agent
  */
@@ -5,15 +16,54 @@ export interface SessionReplayConfig {
   /** Service name for OTEL resource */
   serviceName: string;
 
+  /** Release of the frontend (service.version), e.g. a semver or commit SHA */
+  serviceVersion?: string;
+
+  /** Deployment environment (deployment.environment.name), e.g. 'production' */
+  deploymentEnvironment?: string;
+
+  /** Extra OTLP resource attributes */
+  resourceAttributes?: Record<string, AttributeValue>;
+
+  /** Add browser.*, viewport and connection attributes to the resource (default: true) */
+  browserContext?: boolean;
+
   /** OTLP endpoint (e.g., http://localhost:4318/v1/traces) */
   endpoint: string;
 
   /** API key for Elastic Cloud (adds Authorization: ApiKey header) */
   apiKey?: string;
 
-  /** Sample rate 0-1, default 1.0 (100%) */
+  /** Sample rate 0-1, default 1.0 (100%). Decided once per session */
   sampleRate?: number;
 
+  /** Per-category sample rates overriding sampleRate (e.g. { 'user.error': 1 }) */
+  categorySampleRates?: Partial<Record<EventCategory, number>>;
+
+  /** Tail-based buffering: only export sessions once something interesting happens */
+  buffering?: BufferingConfig;
+
+  /** PII redaction rules; built-in detectors run even when omitted */
+  redaction?: RedactionConfig;
+
+  /** Require consent before capturing; see setConsent() */
+  consent?: ConsentConfig;
+
+  /** Session idle timeout and maximum duration (defaults: 30 minutes, 4 hours) */
+  session?: SessionConfig;
+
+  /** Persistent anonymous visitor.id (default: localStorage, 365 days) */
+  visitor?: VisitorConfig;
+
+  /** Route patterns and heuristics used to derive page.route from page.url */
+  routes?: RouteConfig;
+
+  /** Per-session and per-event budgets; excess events become agent.events_suppressed summaries */
+  budget?: BudgetConfig;
+
+  /** Save failed log exports to IndexedDB and retry them when back online */
+  offline?: OfflineQueueConfig;
+
   /** Enable debug logging */
   debug?: boolean;
 
@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  LoggerProvider,
+  SimpleLogRecordProcessor,
+  type LogRecordExporter,
+  type ReadableLogRecord,
+} from '@opentelemetry/sdk-logs';
+import { UnloadSafeLogExporter } from './unload-exporter';
+
+/**
+ * Produces real ReadableLogRecords by running them through an SDK provider
+ */
+function createRecords(count: number, bodySize = 10): ReadableLogRecord[] {
+  const records: ReadableLogRecord[] = [];
+  const capture: LogRecordExporter = {
+    export: (logs, done) => {
+      records.push(...logs);
+      done({ code: 0 });
+    },
+    shutdown: () => Promise.resolve(),
+  };
+  const provider = new LoggerProvider({ processors: [new SimpleLogRecordProcessor(capture)] });
+  const logger = provider.getLogger('test');
+  for (let i = 0; i < count; i++) {
+    logger.emit({ body: `event-${i}-${'x'.repeat(bodySize)}` });
+  }
+  return records;
+}
+
+/** Same-origin collector, so beacons aren't CORS requests */
+const ENDPOINT = `${location.origin}/v1/logs`;
+
+describe('UnloadSafeLogExporter', () => {
+  let delegate: { export: ReturnType<typeof vi.fn>; shutdown: ReturnType<typeof vi.fn> };
+  let sendBeacon: ReturnType<typeof vi.fn>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    delegate = {
+      export: vi.fn((_logs, done) => done({ code: 0 })),
+      shutdown: vi.fn(() => Promise.resolve()),
+    };
+    sendBeacon = vi.fn(() => true);
+    fetchMock = vi.fn(() => Promise.resolve(new Response()));
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    delete (navigator as { sendBeacon?: unknown }).sendBeacon;
+    vi.unstubAllGlobals();
+  });
+
+  it('should use the regular exporter during normal operation', () => {
+    const exporter = new UnloadSafeLogExporter(delegate, { url: ENDPOINT });
+    const done = vi.fn();
+
+    exporter.export(createRecords(2), done);
+
+    expect(delegate.export).toHaveBeenCalledTimes(1);
+    expect(sendBeacon).not.toHaveBeenCalled();
+  });
+
+  it('should send with sendBeacon while unloading', () => {
+    const exporter = new UnloadSafeLogExporter(delegate, { url: ENDPOINT });
+    const done = vi.fn();
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(2), done);
+
+    expect(delegate.export).not.toHaveBeenCalled();
+    expect(sendBeacon).toHaveBeenCalledWith(ENDPOINT, expect.any(Blob));
+    expect(done).toHaveBeenCalledWith({ code: 0 });
+  });
+
+  it('should send OTLP JSON', async () => {
+    const exporter = new UnloadSafeLogExporter(delegate, { url: ENDPOINT });
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(1), vi.fn());
+
+    const blob = sendBeacon.mock.calls[0][1] as Blob;
+    const text = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+    const body = JSON.parse(text);
+    expect(blob.type).toBe('application/json');
+    expect(body.resourceLogs[0].scopeLogs[0].logRecords).toHaveLength(1);
+  });
+
+  it('should split payloads to stay under the size limit', () => {
+    const exporter = new UnloadSafeLogExporter(delegate, {
+      url: ENDPOINT,
+      maxPayloadBytes: 2000,
+    });
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(20, 200), vi.fn());
+
+    expect(sendBeacon.mock.calls.length).toBeGreaterThan(1);
+    for (const [, blob] of sendBeacon.mock.calls) {
+      expect((blob as Blob).size).toBeLessThanOrEqual(2000);
+    }
+  });
+
+  it('should report failure for a single record over the limit', () => {
+    const exporter = new UnloadSafeLogExporter(delegate, {
+      url: ENDPOINT,
+      maxPayloadBytes: 100,
+    });
+    const done = vi.fn();
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(1, 500), done);
+
+    expect(sendBeacon).not.toHaveBeenCalled();
+    expect(done).toHaveBeenCalledWith({ code: 1 });
+  });
+
+  it('should cap the bytes sent per unload flush', () => {
+    const exporter = new UnloadSafeLogExporter(delegate, {
+      url: ENDPOINT,
+      maxPayloadBytes: 2000,
+      maxUnloadBytes: 5000,
+    });
+    const done = vi.fn();
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(20, 200), done);
+    exporter.export(createRecords(5, 200), done);
+
+    const sentBytes = sendBeacon.mock.calls.reduce((sum, [, blob]) => sum + (blob as Blob).size, 0);
+    expect(sentBytes).toBeLessThanOrEqual(5000);
+    expect(done).toHaveBeenNthCalledWith(1, { code: 1 });
+    expect(done).toHaveBeenNthCalledWith(2, { code: 1 });
+  });
+
+  it('should share the budget between the hidden and pagehide flushes', () => {
+    const exporter = new UnloadSafeLogExporter(delegate, {
+      url: ENDPOINT,
+      maxUnloadBytes: 3000,
+    });
+    const done = vi.fn();
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(2, 500), done);
+    exporter.setUnloading(false);
+    exporter.setUnloading(true);
+    exporter.export(createRecords(2, 500), done);
+
+    expect(done.mock.calls.map(([result]) => result.code)).toEqual([0, 1]);
+  });
+
+  it('should start a new budget once the page is shown again', () => {
+    const exporter = new UnloadSafeLogExporter(delegate, {
+      url: ENDPOINT,
+      maxUnloadBytes: 3000,
+    });
+    const done = vi.fn();
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(2, 500), done);
+    exporter.setUnloading(false);
+    exporter.resetUnloadBudget();
+    exporter.setUnloading(true);
+    exporter.export(createRecords(2, 500), done);
+
+    expect(done.mock.calls.map(([result]) => result.code)).toEqual([0, 0]);
+  });
+
+  it('should free the budget of settled keepalive requests', async () => {
+    const exporter = new UnloadSafeLogExporter(delegate, {
+      url: ENDPOINT,
+      headers: { Authorization: 'ApiKey secret' },
+      maxUnloadBytes: 3000,
+    });
+    const done = vi.fn();
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(2, 500), done);
+    exporter.export(createRecords(2, 500), done);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    exporter.export(createRecords(2, 500), done);
+
+    expect(done.mock.calls.map(([result]) => result.code)).toEqual([0, 1, 0]);
+  });
+
+  it('should leave records over the budget to the offline queue', () => {
+    const persist = vi.fn();
+    const exporter = new UnloadSafeLogExporter(
+      { ...delegate, persist },
+      { url: ENDPOINT, maxPayloadBytes: 2000, maxUnloadBytes: 5000 }
+    );
+    const done = vi.fn();
+    const records = createRecords(20, 200);
+
+    exporter.setUnloading(true);
+    exporter.export(records, done);
+
+    const persisted = persist.mock.calls.flatMap(([logs]) => logs);
+    expect(persisted.length).toBeGreaterThan(0);
+    expect(persisted.length).toBeLessThan(records.length);
+    expect(done).toHaveBeenCalledWith({ code: 0 });
+  });
+
+  it('should queue records whose keepalive request is rejected', async () => {
+    sendBeacon.mockReturnValue(false);
+    fetchMock.mockRejectedValue(new TypeError('keepalive quota exceeded'));
+    const persist = vi.fn();
+    const exporter = new UnloadSafeLogExporter({ ...delegate, persist }, { url: ENDPOINT });
+    const records = createRecords(2);
+
+    exporter.setUnloading(true);
+    exporter.export(records, vi.fn());
+    await vi.waitFor(() => expect(persist).toHaveBeenCalledWith(records));
+  });
+
+  it('should fall back to fetch keepalive when sendBeacon refuses', () => {
+    sendBeacon.mockReturnValue(false);
+    const exporter = new UnloadSafeLogExporter(delegate, { url: ENDPOINT });
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(1), vi.fn());
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      ENDPOINT,
+      expect.objectContaining({ method: 'POST', keepalive: true })
+    );
+  });
+
+  it('should use fetch keepalive for a cross-origin collector', () => {
+    const exporter = new UnloadSafeLogExporter(delegate, { url: 'http://collector/v1/logs' });
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(1), vi.fn());
+
+    expect(sendBeacon).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://collector/v1/logs',
+      expect.objectContaining({ method: 'POST', keepalive: true })
+    );
+  });
+
+  it('should use fetch keepalive when headers are required', () => {
+    const exporter = new UnloadSafeLogExporter(delegate, {
+      url: ENDPOINT,
+      headers: { Authorization: 'ApiKey secret' },
+    });
+
+    exporter.setUnloading(true);
+    exporter.export(createRecords(1), vi.fn());
+
+    expect(sendBeacon).not.toHaveBeenCalled();
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({
+      'Content-Type': 'application/json',
+      Authorization: 'ApiKey secret',
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unload-safe log export
+ *
+ * XHR requests started while the page is being hidden or unloaded are
+ * usually cancelled by the browser. This exporter wraps the regular OTLP
+ * exporter and, only while unloading, serializes records itself and hands
+ * them to navigator.sendBeacon or fetch({ keepalive: true }), which the
+ * browser completes after the page is gone. Beacons can't be sent with an
+ * application/json body under CORS, so a cross-origin collector gets a
+ * keepalive fetch, preflighted like the regular exports.
+ *
+ * Beacon and keepalive requests share one in-flight quota per page (about
+ * 64KB), so at most maxUnloadBytes are in flight across the hidden and
+ * pagehide flushes. Records past that, or whose keepalive request is
+ * rejected, go to the offline queue when the wrapped exporter has one.
+ */
+
+import { ExportResultCode, type ExportResult } from '@opentelemetry/core';
+import type { LogRecordExporter, ReadableLogRecord } from '@opentelemetry/sdk-logs';
+import { JsonLogsSerializer } from '@opentelemetry/otlp-transformer';
+
+/** Browsers reject beacon and keepalive bodies above 64KB */
+const DEFAULT_MAX_PAYLOAD_BYTES = 64 * 1024;
+
+/**
+ * Exporters such as OTLPLogExporter also support flushing, and
+ * PersistentLogExporter can save records for a later retry
+ */
+type FlushableLogRecordExporter = LogRecordExporter & {
+  forceFlush?(): Promise<void>;
+  persist?(logs: ReadableLogRecord[]): void;
+};
+
+export interface UnloadSafeLogExporterConfig {
+  /** OTLP logs endpoint */
+  url: string;
+  /** Request headers (sendBeacon can't send headers, so these force fetch) */
+  headers?: Record<string, string>;
+  /** Max bytes per request, default 65536 */
+  maxPayloadBytes?: number;
+  /** Max bytes in flight across all unload requests, default 65536 */
+  maxUnloadBytes?: number;
+}
+
+/**
+ * Log exporter that delegates to a regular exporter during normal operation
+ * and switches to beacon/keepalive delivery while the page is unloading
+ */
+export class UnloadSafeLogExporter implements LogRecordExporter {
+  private delegate: FlushableLogRecordExporter;
+  private config: Required<UnloadSafeLogExporterConfig>;
+  private unloading = false;
+  /** Bytes of beacons sent since the page was last shown */
+  private beaconBytes = 0;
+  /** Bytes of keepalive requests that haven't settled */
+  private keepaliveBytes = 0;
+
+  constructor(delegate: FlushableLogRecordExporter, config: UnloadSafeLogExporterConfig) {
+    this.delegate = delegate;
+    this.config = {
+      url: config.url,
+      headers: config.headers ?? {},
+      maxPayloadBytes: config.maxPayloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES,
+      maxUnloadBytes: config.maxUnloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES,
+    };
+  }
+
+  /**
+   * Switches between the regular exporter and unload-safe delivery
+   */
+  setUnloading(unloading: boolean): void {
+    this.unloading = unloading;
+  }
+
+  /**
+   * Frees the budget taken by beacons. Call it when the page is shown
+   * again: the browser doesn't report when a beacon completes, but those
+   * sent while the page was hidden are done by then.
+   */
+  resetUnloadBudget(): void {
+    this.beaconBytes = 0;
+  }
+
+  /**
+   * Whether exports currently go through beacon/keepalive
+   */
+  isUnloading(): boolean {
+    return this.unloading;
+  }
+
+  export(logs: ReadableLogRecord[], resultCallback: (result: ExportResult) => void): void {
+    if (!this.unloading) {
+      this.delegate.export(logs, resultCallback);
+      return;
+    }
+
+    const undelivered: ReadableLogRecord[] = [];
+    this.sendChunked(logs, undelivered);
+    if (undelivered.length === 0) {
+      resultCallback({ code: ExportResultCode.SUCCESS });
+      return;
+    }
+
+    // Leave what doesn't fit to the offline queue, if there is one
+    if (this.delegate.persist) {
+      this.delegate.persist(undelivered);
+      resultCallback({ code: ExportResultCode.SUCCESS });
+      return;
+    }
+    resultCallback({ code: ExportResultCode.FAILED });
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.delegate.forceFlush?.();
+  }
+
+  shutdown(): Promise<void> {
+    return this.delegate.shutdown();
+  }
+
+  /**
+   * Serializes and sends records, splitting them until every payload fits
+   * under the request limit and the flush's remaining budget. Records that
+   * can't be sent are added to undelivered.
+   */
+  private sendChunked(logs: ReadableLogRecord[], undelivered: ReadableLogRecord[]): void {
+    if (logs.length === 0) return;
+
+    const payload = JsonLogsSerializer.serializeRequest(logs);
+    if (!payload) {
+      undelivered.push(...logs);
+      return;
+    }
+
+    const inFlight = this.beaconBytes + this.keepaliveBytes;
+    const limit = Math.min(this.config.maxPayloadBytes, this.config.maxUnloadBytes - inFlight);
+    if (payload.byteLength <= limit) {
+      if (!this.send(payload, logs)) {
+        undelivered.push(...logs);
+      }
+      return;
+    }
+
+    // A single record over the limit can't be delivered this way
+    if (logs.length === 1) {
+      undelivered.push(...logs);
+      return;
+    }
+
+    const middle = Math.ceil(logs.length / 2);
+    this.sendChunked(logs.slice(0, middle), undelivered);
+    this.sendChunked(logs.slice(middle), undelivered);
+  }
+
+  /**
+   * Sends one payload, preferring sendBeacon for a same-origin collector
+   * without headers and falling back to fetch keepalive. A rejected
+   * keepalive request hands its records to the offline queue, since the
+   * export has already been reported.
+   */
+  private send(payload: Uint8Array, logs: ReadableLogRecord[]): boolean {
+    const hasHeaders = Object.keys(this.config.headers).length > 0;
+    // Copy into a plain ArrayBuffer-backed view, which Blob requires
+    const blob = new Blob([payload.slice()], { type: 'application/json' });
+    const bytes = payload.byteLength;
+
+    if (
+      !hasHeaders &&
+      isSameOrigin(this.config.url) &&
+      typeof navigator !== 'undefined' &&
+      typeof navigator.sendBeacon === 'function'
+    ) {
+      if (navigator.sendBeacon(this.config.url, blob)) {
+        this.beaconBytes += bytes;
+        return true;
+      }
+    }
+
+    if (typeof fetch === 'function') {
+      this.keepaliveBytes += bytes;
+      fetch(this.config.url, {
+        method: 'POST',
+        keepalive: true,
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: blob,
+      })
+        .catch(() => {
+          this.delegate.persist?.(logs);
+        })
+        .finally(() => {
+          this.keepaliveBytes -= bytes;
+        });
+      return true;
+    }
+
+    return false;
+  }
+}
+
+/**
+ * Whether the URL has the page's origin, so a beacon isn't a CORS request
+ */
+function isSameOrigin(url: string): boolean {
+  if (typeof location === 'undefined') return false;
+  try {
+    return new URL(url, location.href).origin === location.origin;
+  } catch {
+    return false;
+  }
+}
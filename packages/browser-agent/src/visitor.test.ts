@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const emitted: Array<{ body?: unknown; attributes?: Record<string, unknown> }> = [];
+
+vi.mock('./logger', () => ({
+  getLogger: () => ({
+    emit: (record: { body?: unknown; attributes?: Record<string, unknown> }) => emitted.push(record),
+  }),
+}));
+
+import { configureVisitor, getVisitorId, resetVisitor } from './visitor';
+import { setUser } from './identity';
+import { configureConsent, setConsent } from './consent';
+import { clearUser, resetSession } from './session';
+import { emitSessionEvent } from './events';
+
+const DAY = 24 * 60 * 60 * 1000;
+const STORAGE_KEY = 'session_replay_visitor';
+
+function clearCookie(): void {
+  document.cookie = `${STORAGE_KEY}=; Max-Age=0; Path=/`;
+}
+
+describe('visitor ID', () => {
+  beforeEach(() => {
+    emitted.length = 0;
+    localStorage.clear();
+    clearCookie();
+    configureVisitor({});
+    resetSession();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    configureConsent({});
+    configureVisitor({});
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should outlive the session', () => {
+    const visitorId = getVisitorId();
+
+    resetSession();
+
+    expect(getVisitorId()).toBe(visitorId);
+  });
+
+  it('should be reloaded from localStorage', () => {
+    const visitorId = getVisitorId();
+
+    configureVisitor({});
+
+    expect(getVisitorId()).toBe(visitorId);
+  });
+
+  it('should expire after expiryDays without a visit', () => {
+    vi.useFakeTimers();
+    configureVisitor({ expiryDays: 30 });
+    const visitorId = getVisitorId();
+
+    vi.advanceTimersByTime(31 * DAY);
+    configureVisitor({ expiryDays: 30 });
+
+    expect(getVisitorId()).not.toBe(visitorId);
+  });
+
+  it('should extend the expiry on each visit', () => {
+    vi.useFakeTimers();
+    configureVisitor({ expiryDays: 30 });
+    const visitorId = getVisitorId();
+
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(20 * DAY);
+      configureVisitor({ expiryDays: 30 });
+      getVisitorId();
+    }
+
+    expect(getVisitorId()).toBe(visitorId);
+  });
+
+  it('should use a cookie when configured', () => {
+    configureVisitor({ storage: 'cookie' });
+    const visitorId = getVisitorId();
+
+    expect(document.cookie).toContain(`${STORAGE_KEY}=${visitorId}`);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+
+    configureVisitor({ storage: 'cookie' });
+    expect(getVisitorId()).toBe(visitorId);
+  });
+
+  it('should be replaced by resetVisitor', () => {
+    const visitorId = getVisitorId();
+
+    expect(resetVisitor()).not.toBe(visitorId);
+  });
+
+  it('should be added to events', () => {
+    emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+
+    expect(emitted[0].attributes?.['visitor.id']).toBe(getVisitorId());
+  });
+
+  it('should be left out when disabled', () => {
+    configureVisitor({ enabled: false });
+
+    emitSessionEvent({ name: 'user.click', attributes: { 'event.category': 'user.interaction' } });
+
+    expect(emitted[0].attributes).not.toHaveProperty('visitor.id');
+  });
+
+  it('should not be stored without storage consent', () => {
+    configureConsent({ enabled: true, initialState: 'essential' });
+
+    getVisitorId();
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('should be removed when storage consent is withdrawn', () => {
+    configureConsent({ enabled: true, initialState: 'analytics' });
+    getVisitorId();
+
+    setConsent('essential');
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe('setUser', () => {
+  beforeEach(() => {
+    emitted.length = 0;
+    localStorage.clear();
+    configureVisitor({});
+    resetSession();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    configureVisitor({});
+    vi.restoreAllMocks();
+  });
+
+  it('should emit identity.alias linking the visitor to the user', () => {
+    setUser({ id: 'u1' });
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].body).toBe('identity.alias');
+    expect(emitted[0].attributes).toMatchObject({
+      'event.category': 'user.identity',
+      'event.action': 'alias',
+      'visitor.id': getVisitorId(),
+      'user.id': 'u1',
+    });
+  });
+
+  it('should not alias again for the same user', () => {
+    setUser({ id: 'u1' });
+    setUser({ id: 'u1', name: 'Jane' });
+
+    expect(emitted).toHaveLength(1);
+  });
+
+  it('should reference the previous user when switching', () => {
+    setUser({ id: 'u1' });
+    setUser({ id: 'u2' });
+
+    expect(emitted[1].attributes?.['user.previous_id']).toBe('u1');
+  });
+
+  it('should alias again after logout', () => {
+    setUser({ id: 'u1' });
+    clearUser();
+    setUser({ id: 'u1' });
+
+    expect(emitted).toHaveLength(2);
+  });
+
+  it('should not alias when the visitor ID is disabled', () => {
+    configureVisitor({ enabled: false });
+
+    setUser({ id: 'u1' });
+
+    expect(emitted).toHaveLength(0);
+  });
+});
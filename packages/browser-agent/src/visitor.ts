@@ -0,0 +1,176 @@
+/**
+ * Anonymous visitor ID
+ *
+ * A first-party `visitor.id` that outlives sessions, kept in localStorage or
+ * a cookie. It lets sessions from before login be attributed to the user
+ * once setUser() links the two through an identity.alias event.
+ */
+
+import { generateUUID } from './session';
+
+const VISITOR_STORAGE_KEY = 'session_replay_visitor';
+const DEFAULT_EXPIRY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Visitor ID configuration
+ */
+export interface VisitorConfig {
+  /** Add visitor.id to events (default: true) */
+  enabled?: boolean;
+  /** Where to keep the ID (default: 'localStorage') */
+  storage?: 'localStorage' | 'cookie';
+  /** Days without a visit before the ID expires (default: 365) */
+  expiryDays?: number;
+  /** Cookie domain, e.g. '.example.com' to share the ID across subdomains */
+  cookieDomain?: string;
+}
+
+interface VisitorData {
+  id: string;
+  expiresAt: number;
+}
+
+let visitorConfig: VisitorConfig = {};
+let currentVisitor: VisitorData | null = null;
+let persistenceEnabled = true;
+
+/**
+ * Sets the active visitor configuration. The ID is reloaded from the
+ * configured storage on next use.
+ */
+export function configureVisitor(config: VisitorConfig): void {
+  visitorConfig = { ...config };
+  currentVisitor = null;
+}
+
+/**
+ * Whether visitor.id is added to events
+ */
+export function isVisitorEnabled(): boolean {
+  return visitorConfig.enabled !== false;
+}
+
+function getExpiryMs(): number {
+  return (visitorConfig.expiryDays ?? DEFAULT_EXPIRY_DAYS) * DAY_MS;
+}
+
+function readCookie(): string | null {
+  if (typeof document === 'undefined') return null;
+
+  const prefix = `${VISITOR_STORAGE_KEY}=`;
+  for (const part of document.cookie.split(';')) {
+    const cookie = part.trim();
+    if (cookie.startsWith(prefix)) {
+      return decodeURIComponent(cookie.slice(prefix.length));
+    }
+  }
+  return null;
+}
+
+function writeCookie(value: string, maxAgeSeconds: number): void {
+  if (typeof document === 'undefined') return;
+
+  let cookie = `${VISITOR_STORAGE_KEY}=${encodeURIComponent(value)}; Max-Age=${maxAgeSeconds}; Path=/; SameSite=Lax`;
+  if (visitorConfig.cookieDomain) {
+    cookie += `; Domain=${visitorConfig.cookieDomain}`;
+  }
+  if (typeof location !== 'undefined' && location.protocol === 'https:') {
+    cookie += '; Secure';
+  }
+  document.cookie = cookie;
+}
+
+/**
+ * Loads the stored visitor, ignoring expired or malformed entries
+ */
+function loadVisitor(): VisitorData | null {
+  if (!persistenceEnabled) return null;
+
+  try {
+    if (visitorConfig.storage === 'cookie') {
+      // The cookie expires on its own; expiresAt is only tracked in localStorage
+      const id = readCookie();
+      return id ? { id, expiresAt: Date.now() + getExpiryMs() } : null;
+    }
+
+    if (typeof localStorage === 'undefined') return null;
+    const stored = localStorage.getItem(VISITOR_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as VisitorData;
+      if (parsed.id && typeof parsed.expiresAt === 'number' && parsed.expiresAt > Date.now()) {
+        return parsed;
+      }
+    }
+  } catch {
+    // Ignore storage errors
+  }
+  return null;
+}
+
+/**
+ * Persists the visitor to the configured storage
+ */
+function persistVisitor(visitor: VisitorData): void {
+  if (!persistenceEnabled) return;
+
+  try {
+    if (visitorConfig.storage === 'cookie') {
+      writeCookie(visitor.id, Math.round(getExpiryMs() / 1000));
+    } else if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(VISITOR_STORAGE_KEY, JSON.stringify(visitor));
+    }
+  } catch {
+    // Ignore storage errors (quota exceeded, private mode, etc.)
+  }
+}
+
+/**
+ * Returns the visitor ID, creating one on first use. Each page load extends
+ * the expiry, so the ID only lapses after expiryDays without a visit.
+ */
+export function getVisitorId(): string {
+  if (!currentVisitor) {
+    const id = loadVisitor()?.id ?? generateUUID();
+    currentVisitor = { id, expiresAt: Date.now() + getExpiryMs() };
+    persistVisitor(currentVisitor);
+  }
+  return currentVisitor.id;
+}
+
+/**
+ * Replaces the visitor ID with a new one (e.g., on logout, so the next
+ * anonymous browsing isn't linked to the previous user)
+ */
+export function resetVisitor(): string {
+  purgeVisitor();
+  return getVisitorId();
+}
+
+/**
+ * Turns visitor ID persistence on or off (used for consent). While off the
+ * ID lives in memory only; turning it on writes the current one.
+ */
+export function setVisitorPersistence(enabled: boolean): void {
+  persistenceEnabled = enabled;
+  if (enabled && currentVisitor) {
+    persistVisitor(currentVisitor);
+  }
+}
+
+/**
+ * Forgets the visitor ID and removes it from localStorage and cookies
+ */
+export function purgeVisitor(): void {
+  currentVisitor = null;
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(VISITOR_STORAGE_KEY);
+    }
+    if (typeof document !== 'undefined') {
+      writeCookie('', 0);
+    }
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,44 @@
+import typescript from '@rollup/plugin-typescript';
+import dts from 'rollup-plugin-dts';
+
+// The agent must stay external so tests share its session state
+const external = [
+  '@session-replay/browser-agent',
+  '@opentelemetry/api-logs',
+  '@opentelemetry/sdk-logs',
+  'vitest',
+];
+
+export default [
+  {
+    input: 'src/index.ts',
+    output: [
+      {
+        file: 'dist/index.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/index.cjs',
+        format: 'cjs',
+        sourcemap: true,
+      },
+    ],
+    external,
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+      }),
+    ],
+  },
+  {
+    input: 'src/index.ts',
+    output: {
+      file: 'dist/index.d.ts',
+      format: 'esm',
+    },
+    external,
+    plugins: [dts()],
+  },
+];
@@ -0,0 +1,40 @@
+/**
+ * Fake clock helpers
+ *
+ * Thin wrappers around vitest fake timers for the time-window detectors
+ * (rage clicks, thrashing, dead clicks) and session expiry. The clock
+ * starts at the real current time: the OTel SDK reads epoch timestamps
+ * earlier than the page's time origin as performance-relative.
+ */
+
+import { vi } from 'vitest';
+
+/**
+ * Replaces timers and Date with a fake clock
+ *
+ * @param now - Start time (default: the real current time)
+ */
+export function useFakeClock(now: number | Date = Date.now()): void {
+  vi.useFakeTimers({ now });
+}
+
+/**
+ * Moves the fake clock forward, running timers that fall due
+ */
+export function advanceClock(ms: number): void {
+  vi.advanceTimersByTime(ms);
+}
+
+/**
+ * Runs every pending timer (e.g. a dead-click observation window)
+ */
+export function runPendingTimers(): void {
+  vi.runOnlyPendingTimers();
+}
+
+/**
+ * Restores real timers and Date
+ */
+export function restoreClock(): void {
+  vi.useRealTimers();
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  RageClickDetector,
+  defineEvent,
+  emitClickEvent,
+  getRegisteredEvents,
+  getRoute,
+  getSessionId,
+  registerAttributeProvider,
+  setCurrentRoute,
+  use,
+  setConsent,
+  configureConsent,
+} from '@session-replay/browser-agent';
+import {
+  advanceClock,
+  expectEvent,
+  expectEventCount,
+  expectNoEvent,
+  getEmittedEvents,
+  resetSessionReplay,
+  setupSessionReplayTest,
+} from './index';
+
+function clickButton(detector: RageClickDetector, button: HTMLElement, times: number, gapMs: number): void {
+  for (let i = 0; i < times; i++) {
+    detector.recordClick(button);
+    advanceClock(gapMs);
+  }
+}
+
+describe('@session-replay/testing', () => {
+  setupSessionReplayTest({ fakeClock: true });
+
+  it('should capture emitted events', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+    emitClickEvent('Pay now', 'button');
+
+    const [event] = getEmittedEvents();
+    expect(event.name).toBe('user.click');
+    expect(event.timestamp).toBe(Date.now());
+    expect(event.attributes['session.id']).toBe(getSessionId());
+  });
+
+  it('should start every test with no events and a new session', () => {
+    expect(getEmittedEvents()).toEqual([]);
+  });
+
+  it('should match events by name and attributes', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+
+    emitClickEvent('Pay now', 'button', { 'target.id': 'pay' });
+
+    expectEvent('user.click', { 'target.semantic_name': 'Pay now', 'target.id': /^pa/ });
+    expectNoEvent('user.click', { 'target.semantic_name': 'Cancel' });
+    expectEventCount('user.click', 1);
+  });
+
+  it('should explain what was emitted when an expectation fails', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    emitClickEvent('Pay now', 'button');
+
+    expect(() => expectEvent('user.click', { 'target.semantic_name': 'Cancel' })).toThrow(
+      /Expected a user.click event matching \{"target.semantic_name":"Cancel"\}, emitted:\n {2}user.click/
+    );
+  });
+
+  it('should drive time-window detectors with the fake clock', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    const button = document.createElement('button');
+    button.textContent = 'Submit';
+    document.body.appendChild(button);
+    const detector = new RageClickDetector({ document, timeWindowMs: 1000 });
+
+    clickButton(detector, button, 3, 600);
+    expectNoEvent('user.frustration.rage_click');
+
+    clickButton(detector, button, 3, 100);
+    expectEvent('user.frustration.rage_click', { 'target.semantic_name': 'Submit' });
+    button.remove();
+  });
+
+  it('should reset configuration', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    configureConsent({ enabled: true });
+    setConsent('essential');
+
+    resetSessionReplay();
+    emitClickEvent('Pay now', 'button');
+
+    expectEventCount('user.click', 1);
+  });
+
+  it('should remove middleware, attribute providers, the current route and event schemas', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    use((record, next) => next({ ...record, attributes: { ...record.attributes, 'app.enriched': true } }));
+    registerAttributeProvider(() => ({ 'flag.checkout': 'v2' }));
+    setCurrentRoute({ url: 'http://localhost/orders/1', route: '/orders/:orderId' });
+    defineEvent('account.deleted', { category: 'user.interaction', attributes: {} });
+
+    resetSessionReplay();
+    emitClickEvent('Pay now', 'button');
+
+    const [event] = getEmittedEvents();
+    expect(event.attributes['app.enriched']).toBeUndefined();
+    expect(event.attributes['flag.checkout']).toBeUndefined();
+    expect(getRoute('http://localhost/orders/1')).toBe('/orders/:id');
+    expect(getRegisteredEvents()).not.toContain('account.deleted');
+    expect(getRegisteredEvents()).toEqual(expect.arrayContaining(['user.click', 'funnel.add_to_cart']));
+  });
+
+  it('should warn about events that break their schema', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    const planChanged = defineEvent<{ 'plan.tier': string }>('account.plan_changed', {
+      category: 'user.interaction',
+      attributes: { 'plan.tier': { type: 'string', required: true } },
+    });
+
+    planChanged({ 'plan.teir': 'pro' } as never);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('unknown attribute plan.teir'));
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Test harness for session replay instrumentation
+ *
+ * Captures emitted events in memory so tests can assert on them without
+ * mocking the OpenTelemetry API. Works under vitest with jsdom.
+ */
+
+import { afterEach, beforeEach } from 'vitest';
+import { setEventValidation } from '@session-replay/browser-agent';
+import { installTestLogger } from './logger';
+import { resetSessionReplay } from './reset';
+import { restoreClock, useFakeClock } from './clock';
+
+export {
+  installTestLogger,
+  uninstallTestLogger,
+  getEmittedEvents,
+  clearEmittedEvents,
+} from './logger';
+export type { EmittedEvent } from './logger';
+
+export { expectEvent, expectNoEvent, expectEventCount, findEvents } from './matchers';
+export type { ExpectedAttributes } from './matchers';
+
+export { useFakeClock, advanceClock, runPendingTimers, restoreClock } from './clock';
+
+export { resetSessionReplay } from './reset';
+
+/**
+ * Options for setupSessionReplayTest
+ */
+export interface SessionReplayTestOptions {
+  /** Start every test on a fake clock (default: false) */
+  fakeClock?: boolean;
+  /** Validate events against their defineEvent() schemas (default: true) */
+  validateEvents?: boolean;
+}
+
+/**
+ * Registers beforeEach/afterEach hooks that install the in-memory logger
+ * and reset agent state around every test in the current suite
+ */
+export function setupSessionReplayTest(options: SessionReplayTestOptions = {}): void {
+  beforeEach(() => {
+    installTestLogger();
+    if (options.fakeClock) {
+      useFakeClock();
+    }
+    resetSessionReplay();
+    setEventValidation(options.validateEvents ?? true);
+  });
+
+  afterEach(() => {
+    if (options.fakeClock) {
+      restoreClock();
+    }
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * In-memory logger provider
+ *
+ * Registers a LoggerProvider whose records stay in memory instead of being
+ * exported, so tests can read back what the agent emitted.
+ */
+
+import { logs, type SeverityNumber } from '@opentelemetry/api-logs';
+import {
+  InMemoryLogRecordExporter,
+  LoggerProvider,
+  SimpleLogRecordProcessor,
+  type ReadableLogRecord,
+} from '@opentelemetry/sdk-logs';
+import { flushEventBudget } from '@session-replay/browser-agent';
+
+/**
+ * A session event as emitted by the agent
+ */
+export interface EmittedEvent {
+  /** Event name (the log body), e.g. user.click */
+  name: string;
+  /** When the event happened (epoch ms) */
+  timestamp: number;
+  severityNumber?: SeverityNumber;
+  attributes: Record<string, unknown>;
+}
+
+let exporter: InMemoryLogRecordExporter | null = null;
+let provider: LoggerProvider | null = null;
+
+/**
+ * Registers the in-memory provider as the global logger provider,
+ * replacing any provider registered before
+ */
+export function installTestLogger(): void {
+  if (provider) return;
+
+  exporter = new InMemoryLogRecordExporter();
+  provider = new LoggerProvider({ processors: [new SimpleLogRecordProcessor(exporter)] });
+  logs.disable();
+  logs.setGlobalLoggerProvider(provider);
+}
+
+/**
+ * Unregisters the in-memory provider and drops its records
+ */
+export async function uninstallTestLogger(): Promise<void> {
+  if (!provider) return;
+
+  await provider.shutdown();
+  logs.disable();
+  provider = null;
+  exporter = null;
+}
+
+function toEmittedEvent(record: ReadableLogRecord): EmittedEvent {
+  const [seconds, nanos] = record.hrTime;
+  return {
+    name: String(record.body),
+    timestamp: seconds * 1000 + nanos / 1e6,
+    severityNumber: record.severityNumber,
+    attributes: { ...record.attributes },
+  };
+}
+
+/**
+ * Returns the events emitted since the last reset, oldest first. Errors
+ * the agent holds back to count repeats, and pending suppression
+ * summaries, are released first.
+ *
+ * @param name - Only return events with this name
+ */
+export function getEmittedEvents(name?: string): EmittedEvent[] {
+  if (!exporter) {
+    throw new Error('[SessionReplay] Call installTestLogger() or setupSessionReplayTest() first');
+  }
+
+  flushEventBudget();
+  const events = exporter.getFinishedLogRecords().map(toEmittedEvent);
+  return name === undefined ? events : events.filter((event) => event.name === name);
+}
+
+/**
+ * Forgets the events emitted so far
+ */
+export function clearEmittedEvents(): void {
+  exporter?.reset();
+}
@@ -0,0 +1,80 @@
+/**
+ * Event assertions
+ *
+ * Framework-agnostic: a failed expectation throws an Error listing the
+ * events that were emitted, so it reads well in any test runner.
+ */
+
+import { getEmittedEvents, type EmittedEvent } from './logger';
+
+/**
+ * Expected attributes. Values are compared with ===; a RegExp is tested
+ * against the attribute's string value, and undefined means the attribute
+ * must be absent.
+ */
+export type ExpectedAttributes = Record<string, string | number | boolean | RegExp | undefined>;
+
+function matches(event: EmittedEvent, expected: ExpectedAttributes): boolean {
+  return Object.entries(expected).every(([key, value]) => {
+    const actual = event.attributes[key];
+    if (value instanceof RegExp) {
+      return actual !== undefined && value.test(String(actual));
+    }
+    return actual === value;
+  });
+}
+
+function describeEvents(events: EmittedEvent[]): string {
+  if (events.length === 0) {
+    return '  (no events)';
+  }
+  return events.map((event) => `  ${event.name} ${JSON.stringify(event.attributes)}`).join('\n');
+}
+
+/**
+ * Finds the emitted events with a name and matching attributes
+ */
+export function findEvents(name: string, attributes: ExpectedAttributes = {}): EmittedEvent[] {
+  return getEmittedEvents(name).filter((event) => matches(event, attributes));
+}
+
+/**
+ * Asserts that an event with the name and attributes was emitted
+ *
+ * @returns The first matching event
+ */
+export function expectEvent(name: string, attributes: ExpectedAttributes = {}): EmittedEvent {
+  const [match] = findEvents(name, attributes);
+  if (!match) {
+    throw new Error(
+      `Expected a ${name} event matching ${JSON.stringify(attributes)}, emitted:\n` +
+        describeEvents(getEmittedEvents())
+    );
+  }
+  return match;
+}
+
+/**
+ * Asserts that no event with the name and attributes was emitted
+ */
+export function expectNoEvent(name: string, attributes: ExpectedAttributes = {}): void {
+  const found = findEvents(name, attributes);
+  if (found.length > 0) {
+    throw new Error(
+      `Expected no ${name} event matching ${JSON.stringify(attributes)}, found:\n` + describeEvents(found)
+    );
+  }
+}
+
+/**
+ * Asserts how many events with the name and attributes were emitted
+ */
+export function expectEventCount(name: string, count: number, attributes: ExpectedAttributes = {}): void {
+  const found = findEvents(name, attributes);
+  if (found.length !== count) {
+    throw new Error(
+      `Expected ${count} ${name} event(s) matching ${JSON.stringify(attributes)}, found ${found.length}:\n` +
+        describeEvents(getEmittedEvents())
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Agent state reset
+ *
+ * The agent keeps its configuration, session, middleware, attribute
+ * providers, current route and event schemas in module state and in
+ * browser storage, which would otherwise leak from one test into the next.
+ * Event schemas are restored to those registered when the first reset ran:
+ * the built-in ones and any defined at module scope, whose modules won't
+ * load again.
+ */
+
+import {
+  clearAttributeProviders,
+  clearMiddleware,
+  configureBudget,
+  configureBuffering,
+  configureConsent,
+  configureRedaction,
+  configureRoutes,
+  configureSampling,
+  configureSession,
+  configureVisitor,
+  purgeSession,
+  resetSession,
+  resetVisitor,
+  restoreEventSchemas,
+  setCurrentRoute,
+  setEventValidation,
+  snapshotEventSchemas,
+  type EventSchema,
+} from '@session-replay/browser-agent';
+import { clearEmittedEvents } from './logger';
+
+let loadedSchemas: ReadonlyMap<string, EventSchema> | null = null;
+
+/**
+ * Restores default configuration, removes middleware, attribute providers
+ * and event schemas defined during the test, starts a fresh session and
+ * visitor, and forgets emitted events
+ */
+export function resetSessionReplay(): void {
+  configureSampling({});
+  configureBuffering({});
+  configureConsent({});
+  configureRedaction({});
+  configureRoutes({});
+  configureSession({});
+  configureVisitor({});
+  configureBudget({});
+  setEventValidation(false);
+  setCurrentRoute(null);
+  clearMiddleware();
+  clearAttributeProviders();
+  loadedSchemas ??= snapshotEventSchemas();
+  restoreEventSchemas(loadedSchemas);
+
+  purgeSession();
+  resetSession();
+  resetVisitor();
+  clearEmittedEvents();
+}
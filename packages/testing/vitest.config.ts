@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // Test against the agent's source rather than its build output
+      '@session-replay/browser-agent': fileURLToPath(
+        new URL('../browser-agent/src/index.ts', import.meta.url)
+      ),
+    },
+  },
+  test: {
+    environment: 'jsdom',
+    globals: true,
+    include: ['src/**/*.test.ts'],
+  },
+});
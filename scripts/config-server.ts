@@ -0,0 +1,126 @@
+#!/usr/bin/env npx tsx
+/**
+ * Reference Remote Config Server
+ *
+ * Serves a remote configuration document for local testing. The file is
+ * read and validated on every request, so bumping `version` after an edit
+ * is enough for running agents to pick the change up on their next refresh.
+ * With --sign the document is wrapped as `{ payload, signature }`, signed
+ * with an ECDSA P-256 key, and the matching public key is printed for the
+ * agent's `verificationKey`.
+ *
+ * Usage:
+ *   pnpm config-server
+ *   pnpm config-server --file my-config.json --port 8787 --sign
+ */
+
+import { createServer } from 'node:http';
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, type KeyObject } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { program } from 'commander';
+import { validateRemoteConfig } from '../packages/browser-agent/src/remote-config.js';
+
+interface Options {
+  file: string;
+  port: string;
+  sign?: boolean;
+  key: string;
+}
+
+/**
+ * Loads the signing key, creating one on first use
+ */
+function loadSigningKey(path: string): KeyObject {
+  if (existsSync(path)) {
+    return createPrivateKey(readFileSync(path, 'utf8'));
+  }
+  const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  writeFileSync(path, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  console.log(`🔑 Created signing key: ${path}`);
+  return privateKey;
+}
+
+/**
+ * Reads and validates the config file
+ *
+ * @returns The document text, or the problems found
+ */
+function readConfig(path: string): { body?: string; problems: string[] } {
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    return { problems: [(error as Error).message] };
+  }
+  const problems = validateRemoteConfig(config);
+  return problems.length > 0 ? { problems } : { body: JSON.stringify(config), problems };
+}
+
+function main() {
+  program
+    .name('config-server')
+    .description('Serve a session replay remote config for local testing')
+    .option('--file <path>', 'Config document to serve', 'remote-config.example.json')
+    .option('--port <port>', 'Port to listen on', '8787')
+    .option('--sign', 'Sign the document with an ECDSA P-256 key')
+    .option('--key <path>', 'PEM private key used with --sign (created if missing)', '.remote-config-key.pem')
+    .parse();
+
+  const options = program.opts<Options>();
+  const signingKey = options.sign ? loadSigningKey(options.key) : null;
+
+  const initial = readConfig(options.file);
+  if (!initial.body) {
+    console.error(`❌ ${options.file} is not a valid remote config:`);
+    initial.problems.forEach((problem) => console.error(`   - ${problem}`));
+    process.exit(1);
+  }
+
+  const server = createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Cache-Control', 'no-cache');
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, { 'Access-Control-Allow-Methods': 'GET' }).end();
+      return;
+    }
+    if (request.method !== 'GET') {
+      response.writeHead(405).end();
+      return;
+    }
+
+    // Invalid edits are refused, so agents keep the version they have
+    const { body, problems } = readConfig(options.file);
+    if (!body) {
+      console.warn(`⚠️  Not serving ${options.file}: ${problems.join('; ')}`);
+      response.writeHead(503, { 'Content-Type': 'text/plain' }).end(problems.join('\n'));
+      return;
+    }
+
+    const document = signingKey
+      ? JSON.stringify({
+          payload: body,
+          // Web Crypto expects the raw r || s signature, not DER
+          signature: sign('sha256', Buffer.from(body), { key: signingKey, dsaEncoding: 'ieee-p1363' }).toString(
+            'base64'
+          ),
+        })
+      : body;
+
+    response.writeHead(200, { 'Content-Type': 'application/json' }).end(document);
+    console.log(`📤 ${request.method} ${request.url} -> version ${JSON.parse(body).version}`);
+  });
+
+  const port = Number(options.port);
+  server.listen(port, () => {
+    console.log('⚙️  Session Replay Remote Config Server\n');
+    console.log(`Serving ${options.file} at http://localhost:${port}/`);
+    if (signingKey) {
+      console.log('\nVerification key for remoteConfig.verificationKey:');
+      console.log(`  ${JSON.stringify(createPublicKey(signingKey).export({ format: 'jwk' }))}`);
+    }
+    console.log();
+  });
+}
+
+main();
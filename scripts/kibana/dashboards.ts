@@ -487,7 +487,7 @@ function createTablePanel(
                       operationType: 'terms',
                       params: { size: 1, orderBy: { type: 'column', columnId: eventsColId }, orderDirection: 'desc' },
                       scale: 'ordinal',
-                      sourceField: 'attributes.page.url',
+                      sourceField: 'attributes.page.route',
                     },
                   },
                   ignoreGlobalFilters: false,
@@ -556,17 +556,17 @@ export function getSessionReplayDashboard(): SavedObject {
 
     // Row 3: Hotspots & Funnel
     createBarPanel(ids.rageClickHotspots, 0, 24, 24, 10, 'Rage Click Hotspots', 'attributes.target.semantic_name', 'count', undefined, 'attributes.frustration.type: rage_click'),
-    createBarPanel(ids.pageFlow, 24, 24, 24, 10, 'Session Funnel (by Page)', 'attributes.page.url', 'unique_count', 'attributes.session.id', 'attributes.event.category: user.navigation'),
+    createBarPanel(ids.pageFlow, 24, 24, 24, 10, 'Session Funnel (by Page)', 'attributes.page.route', 'unique_count', 'attributes.session.id', 'attributes.event.category: user.navigation'),
 
     // Row 4: Users and pages
     createBarPanel(ids.topFrustratedUsers, 0, 34, 24, 10, 'Top Frustrated Users', 'attributes.user.id', 'count', undefined, 'attributes.frustration.type: *'),
-    createBarPanel(ids.topFrustrationPages, 24, 34, 24, 10, 'Top Frustration Pages', 'attributes.page.url', 'count', undefined, 'attributes.frustration.type: *'),
+    createBarPanel(ids.topFrustrationPages, 24, 34, 24, 10, 'Top Frustration Pages', 'attributes.page.route', 'count', undefined, 'attributes.frustration.type: *'),
 
     // Row 5: Session explorer
     createTablePanel(ids.sessionExplorer, 0, 44, 48, 14, 'Session Explorer'),
 
     // Row 6: Errors
-    createBarPanel(ids.errorsByPage, 0, 58, 48, 10, 'Errors by Page', 'attributes.page.url', 'count', undefined, 'attributes.event.category: user.error', false),
+    createBarPanel(ids.errorsByPage, 0, 58, 48, 10, 'Errors by Page', 'attributes.page.route', 'count', undefined, 'attributes.event.category: user.error', false),
   ];
 
   // Control group for user filter
@@ -166,11 +166,11 @@ export function getTopFrustrationPagesVisualization(): SavedObject {
                   col1: {
                     dataType: 'string',
                     isBucketed: true,
-                    label: 'Page URL',
+                    label: 'Page Route',
                     operationType: 'terms',
                     params: { size: 10, orderBy: { type: 'column', columnId: 'col2' }, orderDirection: 'desc' },
                     scale: 'ordinal',
-                    sourceField: 'attributes.page.url',
+                    sourceField: 'attributes.page.route',
                   },
                   col2: {
                     dataType: 'number',
@@ -220,7 +220,7 @@ export function getErrorsVisualization(): SavedObject {
     id: 'session-replay-errors',
     attributes: {
       title: 'JavaScript Errors by Page',
-      description: 'Shows error frequency by page URL',
+      description: 'Shows error frequency by page route',
       visualizationType: 'lnsXY',
       state: {
         datasourceStates: {
@@ -231,11 +231,11 @@ export function getErrorsVisualization(): SavedObject {
                   col1: {
                     dataType: 'string',
                     isBucketed: true,
-                    label: 'Page URL',
+                    label: 'Page Route',
                     operationType: 'terms',
                     params: { size: 10, orderBy: { type: 'column', columnId: 'col2' }, orderDirection: 'desc' },
                     scale: 'ordinal',
-                    sourceField: 'attributes.page.url',
+                    sourceField: 'attributes.page.route',
                   },
                   col2: {
                     dataType: 'number',
@@ -534,7 +534,7 @@ export function getSessionExplorerVisualization(): SavedObject {
                     operationType: 'terms',
                     params: { size: 1, orderBy: { type: 'column', columnId: 'col3' }, orderDirection: 'desc' },
                     scale: 'ordinal',
-                    sourceField: 'attributes.page.url',
+                    sourceField: 'attributes.page.route',
                   },
                 },
                 columnOrder: ['col1', 'col2', 'col3', 'col4', 'col5'],
@@ -736,11 +736,11 @@ export function getPageFlowVisualization(): SavedObject {
                   col1: {
                     dataType: 'string',
                     isBucketed: true,
-                    label: 'Page',
+                    label: 'Page Route',
                     operationType: 'terms',
                     params: { size: 15, orderBy: { type: 'column', columnId: 'col2' }, orderDirection: 'desc' },
                     scale: 'ordinal',
-                    sourceField: 'attributes.page.url',
+                    sourceField: 'attributes.page.route',
                   },
                   col2: {
                     dataType: 'number',
@@ -760,7 +760,7 @@ export function getPageFlowVisualization(): SavedObject {
         filters: [
           {
             meta: { index: DATA_VIEW_ID },
-            query: { exists: { field: 'attributes.page.url' } },
+            query: { exists: { field: 'attributes.page.route' } },
           },
         ],
         visualization: {